@@ -39,6 +39,7 @@ describe("Git Analyzer", () => {
         log: vi.fn(),
         diff: vi.fn(),
         diffSummary: vi.fn(),
+        raw: vi.fn().mockResolvedValue("abc1234\n"),
       };
       mockCreateGitInstance.mockReturnValue(mockGitInstance);
 
@@ -68,6 +69,74 @@ describe("Git Analyzer", () => {
       expect(result.filesChanged).toBe(1);
       expect(result.commitTypes).toContain("feature");
       expect(result.commitTypes).toContain("fix");
+      expect(result.mergeBase).toBe("abc1234");
+      expect(mockGitInstance.log).toHaveBeenCalledWith(["main..feature/test"]);
+      expect(mockGitInstance.diffSummary).toHaveBeenCalledWith(["abc1234", "feature/test"]);
+    });
+
+    it("should derive commit types and breaking changes from parsed commits", async () => {
+      const mockCreateGitInstance = repository.createGitInstance as any;
+      const mockGitInstance = {
+        revparse: vi.fn().mockResolvedValue("feature/test"),
+        log: vi.fn().mockResolvedValue({
+          total: 2,
+          all: [
+            { hash: "abc123", message: "fixture: add sample data", body: "", author_name: "John", date: "2025-01-01" },
+            {
+              hash: "def456",
+              message: "refactor(api): rename endpoints",
+              body: "BREAKING CHANGE: /v1/users is now /users",
+              author_name: "Jane",
+              date: "2025-01-02",
+            },
+          ],
+        }),
+        diff: vi.fn().mockResolvedValue(""),
+        diffSummary: vi.fn().mockResolvedValue({ files: [], insertions: 0, deletions: 0 }),
+        raw: vi.fn().mockResolvedValue("abc1234\n"),
+      };
+      mockCreateGitInstance.mockReturnValue(mockGitInstance);
+
+      const result = await analyzeBranch("main", true);
+
+      expect(result.commitTypes).toEqual(["other", "refactor"]);
+      expect(result.hasBreakingChanges).toBe(true);
+      expect(result.commits[1].body).toBe("BREAKING CHANGE: /v1/users is now /users");
+    });
+
+    it("should analyze explicit refs without checking them out", async () => {
+      const mockCreateGitInstance = repository.createGitInstance as any;
+      const mockGitInstance = {
+        revparse: vi.fn(),
+        log: vi.fn().mockResolvedValue({ total: 0, all: [] }),
+        diff: vi.fn().mockResolvedValue(""),
+        diffSummary: vi.fn().mockResolvedValue({ files: [], insertions: 0, deletions: 0 }),
+        raw: vi.fn().mockResolvedValue("def5678\n"),
+      };
+      mockCreateGitInstance.mockReturnValue(mockGitInstance);
+
+      const result = await analyzeBranch(undefined, false, {
+        source: "range",
+        fromRef: "v1.0.0",
+        toRef: "origin/release",
+      });
+
+      expect(mockGitInstance.revparse).not.toHaveBeenCalled();
+      expect(mockGitInstance.raw).toHaveBeenCalledWith(["rev-parse", "--verify", "--quiet", "v1.0.0^{commit}"]);
+      expect(mockGitInstance.raw).toHaveBeenCalledWith(["merge-base", "v1.0.0", "origin/release"]);
+      expect(result.currentBranch).toBe("origin/release");
+      expect(result.baseBranch).toBe("v1.0.0");
+      expect(mockGitInstance.log).toHaveBeenCalledWith(["v1.0.0..origin/release"]);
+    });
+
+    it("should reject unknown refs", async () => {
+      const mockCreateGitInstance = repository.createGitInstance as any;
+      mockCreateGitInstance.mockReturnValue({
+        revparse: vi.fn().mockResolvedValue("feature/test"),
+        raw: vi.fn().mockResolvedValue(""),
+      });
+
+      await expect(analyzeBranch("does-not-exist")).rejects.toThrow('Unknown ref "does-not-exist"');
     });
 
     it("should use auto-detected main branch when no baseBranch provided", async () => {
@@ -77,6 +146,7 @@ describe("Git Analyzer", () => {
         log: vi.fn(),
         diff: vi.fn(),
         diffSummary: vi.fn(),
+        raw: vi.fn().mockResolvedValue("abc1234\n"),
       };
       mockCreateGitInstance.mockReturnValue(mockGitInstance);
       (detectMainBranch as any).mockResolvedValue("dev");
@@ -99,6 +169,65 @@ describe("Git Analyzer", () => {
       expect(result.baseBranch).toBe("dev");
     });
 
+    it("should analyze staged changes without listing commits", async () => {
+      const mockCreateGitInstance = repository.createGitInstance as any;
+      const mockGitInstance = {
+        revparse: vi.fn(),
+        log: vi.fn(),
+        diff: vi.fn(),
+        diffSummary: vi.fn(),
+        raw: vi.fn().mockResolvedValue("abc1234\n"),
+      };
+      mockCreateGitInstance.mockReturnValue(mockGitInstance);
+
+      mockGitInstance.revparse.mockResolvedValue("feature/test");
+      mockGitInstance.diff.mockResolvedValue("");
+      mockGitInstance.diffSummary.mockResolvedValue({
+        files: [{ file: "src/test.ts", changes: 3, insertions: 3, deletions: 0 }],
+        insertions: 3,
+        deletions: 0,
+      });
+
+      const result = await analyzeBranch(undefined, true, { source: "staged" });
+
+      expect(mockGitInstance.log).not.toHaveBeenCalled();
+      expect(mockGitInstance.diffSummary).toHaveBeenCalledWith(["--cached"]);
+      expect(mockGitInstance.diff).toHaveBeenCalledWith(["--cached"]);
+      expect(detectMainBranch).not.toHaveBeenCalled();
+      expect(result.source).toBe("staged");
+      expect(result.totalCommits).toBe(0);
+      expect(result.filesChanged).toBe(1);
+    });
+
+    it("should compare working-tree changes against HEAD", async () => {
+      const mockCreateGitInstance = repository.createGitInstance as any;
+      const mockGitInstance = {
+        revparse: vi.fn(),
+        log: vi.fn(),
+        diff: vi.fn(),
+        diffSummary: vi.fn(),
+      };
+      mockCreateGitInstance.mockReturnValue(mockGitInstance);
+
+      mockGitInstance.revparse.mockResolvedValue("feature/test");
+      mockGitInstance.diff.mockResolvedValue("");
+      mockGitInstance.diffSummary.mockResolvedValue({ files: [], insertions: 0, deletions: 0 });
+
+      const result = await analyzeBranch(undefined, false, { source: "working-tree" });
+
+      expect(mockGitInstance.diffSummary).toHaveBeenCalledWith(["HEAD"]);
+      expect(result.baseBranch).toBe("HEAD");
+    });
+
+    it("should require fromRef for range source", async () => {
+      const mockCreateGitInstance = repository.createGitInstance as any;
+      mockCreateGitInstance.mockReturnValue({ revparse: vi.fn() });
+
+      await expect(analyzeBranch(undefined, true, { source: "range" })).rejects.toThrow(
+        'fromRef is required when source is "range"'
+      );
+    });
+
     it("should handle errors gracefully", async () => {
       const mockCreateGitInstance = repository.createGitInstance as any;
       const mockGitInstance = {
@@ -119,6 +248,7 @@ describe("Git Analyzer", () => {
         log: vi.fn(),
         diff: vi.fn(),
         diffSummary: vi.fn(),
+        raw: vi.fn().mockResolvedValue("abc1234\n"),
       };
       mockCreateGitInstance.mockReturnValue(mockGitInstance);
 
@@ -136,9 +266,10 @@ describe("Git Analyzer", () => {
 
       mockGitInstance.log.mockResolvedValue({
         all: [
-          { author_name: "Alice", author_email: "alice@example.com" },
-          { author_name: "Bob", author_email: "bob@example.com" },
-          { author_name: "Alice", author_email: "alice@example.com" },
+          { author_name: "Alice", author_email: "alice@users.noreply.github.com" },
+          { author_name: "Bob", author_email: "12345+bob@users.noreply.github.com" },
+          { author_name: "Alice", author_email: "alice@users.noreply.github.com" },
+          { author_name: "Carol", author_email: "carol.smith@example.com" },
         ],
       });
 
@@ -147,6 +278,48 @@ describe("Git Analyzer", () => {
       expect(result.suggestedReviewers).toHaveLength(2);
       expect(result.suggestedReviewers[0].author).toBe("alice");
       expect(result.suggestedReviewers[0].contributions).toBe(2);
+      expect(result.suggestedReviewers[0].score).toMatchObject({ commits: 2, files: 1 });
+      expect(mockGitInstance.log).toHaveBeenCalledWith(["--follow", "abc1234", "--", "src/test.ts"]);
+      expect(result.suggestedReviewers[1]).toMatchObject({ author: "bob", resolvedBy: "noreply" });
+    });
+
+    it("should leave bots and denied accounts out before ranking", async () => {
+      const mockCreateGitInstance = repository.createGitInstance as any;
+      const mockGitInstance = {
+        revparse: vi.fn(),
+        log: vi.fn(),
+        diff: vi.fn(),
+        diffSummary: vi.fn(),
+        raw: vi.fn().mockResolvedValue("abc1234\n"),
+      };
+      mockCreateGitInstance.mockReturnValue(mockGitInstance);
+
+      mockGitInstance.revparse.mockResolvedValue("feature/test");
+      mockGitInstance.log.mockResolvedValueOnce({ total: 0, all: [] });
+      mockGitInstance.diff.mockResolvedValue("diff");
+      mockGitInstance.diffSummary.mockResolvedValue({
+        files: [{ file: "package.json", changes: 2, insertions: 1, deletions: 1 }],
+        insertions: 1,
+        deletions: 1,
+      });
+
+      mockGitInstance.log.mockResolvedValue({
+        all: [
+          { author_name: "dependabot[bot]", author_email: "49699333+dependabot[bot]@users.noreply.github.com" },
+          { author_name: "dependabot[bot]", author_email: "49699333+dependabot[bot]@users.noreply.github.com" },
+          { author_name: "Bob", author_email: "bob@users.noreply.github.com" },
+          { author_name: "Alice", author_email: "alice@users.noreply.github.com" },
+        ],
+      });
+
+      const result = await suggestReviewers(3, "main", undefined, { exclude: ["bob"] });
+
+      expect(result.suggestedReviewers.map((r) => r.author)).toEqual(["alice"]);
+      expect(result.suggestedReviewers[0].score).toMatchObject({ commits: 1, history: 0.3 });
+      expect(result.excludedReviewers).toEqual([
+        expect.objectContaining({ name: "dependabot[bot]", reason: expect.stringMatching(/^Bot or service account/) }),
+        expect.objectContaining({ name: "Bob", reason: "Excluded by the deny list (Bob)" }),
+      ]);
     });
 
     it("should return empty list on error", async () => {
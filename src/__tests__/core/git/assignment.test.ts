@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from "vitest";
+import { applyAssignment, nearestMilestone, resolveAssignment } from "../../../core/git/assignment.js";
+import { GitProvider } from "../../../core/providers/types.js";
+
+const milestones = [
+  { id: 1, title: "Sprint 41", dueOn: "2026-10-10T00:00:00Z" },
+  { id: 3, title: "Sprint 43", dueOn: "2026-11-07T00:00:00Z" },
+  { id: 2, title: "Sprint 42", dueOn: "2026-10-24T00:00:00Z" },
+  { id: 9, title: "Backlog" },
+];
+
+describe("assignment", () => {
+  it("picks the open milestone due next", () => {
+    expect(nearestMilestone(milestones, new Date("2026-10-18T12:00:00Z"))?.title).toBe("Sprint 42");
+    expect(nearestMilestone(milestones, new Date("2026-10-24T12:00:00Z"))?.title).toBe("Sprint 42");
+    expect(nearestMilestone(milestones, new Date("2026-12-01T00:00:00Z"))).toBeUndefined();
+  });
+
+  it("resolves self and milestone titles, and inherits the milestone of a closed issue", async () => {
+    const provider = {
+      currentUser: vi.fn().mockResolvedValue("octocat"),
+      listMilestones: vi.fn().mockResolvedValue(milestones),
+      issueMilestone: vi.fn(async (issue: number) => (issue === 12 ? milestones[1] : undefined)),
+    } as unknown as GitProvider;
+
+    const explicit = await resolveAssignment(provider, { assignees: ["self", "@hubot", "Octocat"], milestone: "backlog" });
+    expect(explicit).toEqual({ assignees: ["octocat", "hubot"], milestone: milestones[3], milestoneSource: "title", notes: [] });
+
+    const unknown = await resolveAssignment(provider, { milestone: "Sprint 99" });
+    expect(unknown).toEqual({ assignees: [], notes: ['No open milestone titled "Sprint 99"'] });
+
+    const inherited = await resolveAssignment(provider, {}, [
+      { id: "#5", kind: "github", source: "commit", closing: false },
+      { id: "octo/other#7", kind: "github", source: "commit", closing: true },
+      { id: "#12", kind: "github", source: "commit", closing: true },
+    ]);
+    expect(inherited.milestoneSource).toBe("issue #12");
+    expect(provider.issueMilestone).toHaveBeenCalledTimes(1);
+
+    expect((await resolveAssignment(provider, { inheritMilestone: false }, [
+      { id: "#12", kind: "github", source: "branch", closing: true },
+    ])).milestone).toBeUndefined();
+  });
+
+  it("reports assignees the provider left out, and writes nothing on dry runs", async () => {
+    const provider = {
+      addAssignees: vi.fn().mockResolvedValue(["octocat"]),
+      setMilestone: vi.fn().mockResolvedValue(undefined),
+    } as unknown as GitProvider;
+    const assignment = { assignees: ["octocat", "ghost"], milestone: milestones[2], milestoneSource: "nearest due date", notes: [] };
+
+    expect(await applyAssignment(provider, 7, assignment, { dryRun: true })).toEqual({
+      assignees: ["octocat", "ghost"],
+      milestone: "Sprint 42",
+      milestoneSource: "nearest due date",
+      notes: undefined,
+    });
+    expect(provider.addAssignees).not.toHaveBeenCalled();
+
+    const result = await applyAssignment(provider, 7, assignment);
+    expect(result?.assignees).toEqual(["octocat"]);
+    expect(result?.notes).toEqual(["Not assignable: ghost"]);
+    expect(provider.setMilestone).toHaveBeenCalledWith(7, milestones[2]);
+  });
+});
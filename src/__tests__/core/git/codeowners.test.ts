@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { codeOwnersPatternToRegExp, ownersForFile, parseCodeOwners } from "../../../core/git/codeowners.js";
+
+const matches = (pattern: string, file: string) => codeOwnersPatternToRegExp(pattern).test(file);
+
+describe("codeowners", () => {
+  it("matches patterns without a slash at any depth", () => {
+    expect(matches("*", "src/index.ts")).toBe(true);
+    expect(matches("*.js", "src/lib/util.js")).toBe(true);
+    expect(matches("*.js", "src/lib/util.ts")).toBe(false);
+    expect(matches("apps/", "packages/apps/main.ts")).toBe(true);
+    expect(matches("logs", "build/logs/today.log")).toBe(true);
+  });
+
+  it("anchors patterns containing a slash to the root", () => {
+    expect(matches("/build/logs/", "build/logs/a/b.log")).toBe(true);
+    expect(matches("/build/logs/", "src/build/logs/a.log")).toBe(false);
+    expect(matches("src/api", "src/api/users.ts")).toBe(true);
+    expect(matches("src/api", "lib/src/api/users.ts")).toBe(false);
+  });
+
+  it("matches only direct children with dir/* and any depth with **", () => {
+    expect(matches("docs/*", "docs/getting-started.md")).toBe(true);
+    expect(matches("docs/*", "docs/build-app/troubleshooting.md")).toBe(false);
+    expect(matches("**/logs", "deeply/nested/logs/a.log")).toBe(true);
+    expect(matches("/scripts/**/*.sh", "scripts/a/b/run.sh")).toBe(true);
+    expect(matches("/scripts/**/*.sh", "scripts/run.sh")).toBe(true);
+  });
+
+  it("lets the last matching rule win", () => {
+    const rules = parseCodeOwners(
+      [
+        "# Default owners",
+        "*       @org/core",
+        "",
+        "src/api/ @bob @org/backend  # API team",
+        "*.md    @carol",
+        "/docs/internal.md",
+        "\\#notes.txt @dave",
+      ].join("\n")
+    );
+
+    expect(rules).toHaveLength(5);
+    expect(ownersForFile(rules, "src/index.ts")).toEqual(["@org/core"]);
+    expect(ownersForFile(rules, "src/api/users.ts")).toEqual(["@bob", "@org/backend"]);
+    expect(ownersForFile(rules, "src/api/README.md")).toEqual(["@carol"]);
+    expect(ownersForFile(rules, "docs/internal.md")).toEqual([]);
+    expect(ownersForFile(rules, "#notes.txt")).toEqual(["@dave"]);
+    expect(ownersForFile([], "src/index.ts")).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  inferSubjectFromCommits,
+  inferTypeFromCommits,
+  parseCommitHeader,
+  parseCommitMessage,
+} from "../../../core/git/commit-parser.js";
+
+describe("commit-parser", () => {
+  it("parses type, scope, breaking marker and subject", () => {
+    expect(parseCommitHeader("feat(auth)!: add OAuth support")).toEqual({
+      type: "feat",
+      scope: "auth",
+      breaking: true,
+      subject: "add OAuth support",
+    });
+    expect(parseCommitHeader("Feature: add export")).toMatchObject({ type: "feat", subject: "add export" });
+    expect(parseCommitHeader("Update README")).toEqual({ breaking: false, subject: "Update README" });
+  });
+
+  it("does not mistake words starting like a type for the type", () => {
+    expect(parseCommitHeader("fixture: add sample data").type).toBe("fixture");
+    expect(inferTypeFromCommits(["fixture: add sample data", "docs: update README"])).toBe("docs");
+    expect(inferTypeFromCommits(["bump dependencies"])).toBe("chore");
+  });
+
+  it("separates the body from the footers", () => {
+    const commit = parseCommitMessage(
+      "fix(api): handle empty responses",
+      [
+        "The API returns 204 when there is nothing to send.",
+        "",
+        "Second paragraph.",
+        "",
+        "Closes #12, #13",
+        "Refs: PROJ-42",
+        "Co-authored-by: Jane Doe <jane@example.com>",
+        "BREAKING CHANGE: empty responses now resolve to null",
+        "  instead of throwing",
+      ].join("\n")
+    );
+
+    expect(commit.body).toBe("The API returns 204 when there is nothing to send.\n\nSecond paragraph.");
+    expect(commit.closes).toEqual(["#12", "#13"]);
+    expect(commit.refs).toEqual(["PROJ-42"]);
+    expect(commit.coAuthors).toEqual(["Jane Doe <jane@example.com>"]);
+    expect(commit.breaking).toBe(true);
+    expect(commit.breakingNote).toBe("empty responses now resolve to null\ninstead of throwing");
+    expect(commit.footers).toHaveLength(4);
+  });
+
+  it("keeps a last paragraph that is not made of footers in the body", () => {
+    const commit = parseCommitMessage("feat: add export\n\nNote that this is slow: see the docs.\nMore text");
+
+    expect(commit.footers).toEqual([]);
+    expect(commit.body).toBe("Note that this is slow: see the docs.\nMore text");
+    expect(commit.breaking).toBe(false);
+    expect(parseCommitMessage("fix: login\n\nCloses #7\nRelated to #8").footers).toEqual([]);
+  });
+
+  it("infers the subject without the conventional prefix", () => {
+    expect(inferSubjectFromCommits(["feat(ui)!: add dark mode"])).toBe("add dark mode");
+    expect(inferSubjectFromCommits([])).toBe("update");
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect, vi } from "vitest";
+import { SimpleGit } from "simple-git";
+import { resolveBranchName } from "../../../core/git/comparison.js";
+
+// Repository with a local feature/login branch, its origin copy and a v1.0.0 tag
+function mockGit() {
+  const refs = ["refs/heads/feature/login", "refs/remotes/origin/feature/login", "refs/remotes/upstream/main"];
+  return {
+    raw: vi.fn(async ([, , , ref]: string[]) => (refs.includes(ref) ? "abc123\n" : "")),
+    getRemotes: vi.fn(async () => [{ name: "origin" }, { name: "upstream" }]),
+  } as unknown as SimpleGit;
+}
+
+describe("resolveBranchName", () => {
+  it("keeps local branches and strips the remote of remote branches", async () => {
+    const git = mockGit();
+
+    expect(await resolveBranchName(git, "feature/login")).toBe("feature/login");
+    expect(await resolveBranchName(git, "origin/feature/login")).toBe("feature/login");
+    expect(await resolveBranchName(git, "upstream/main")).toBe("main");
+  });
+
+  it("refuses tags and commits", async () => {
+    const git = mockGit();
+
+    await expect(resolveBranchName(git, "v1.0.0")).rejects.toThrow('"v1.0.0" is not a branch');
+    await expect(resolveBranchName(git, "abc123")).rejects.toThrow("not a tag or commit");
+  });
+});
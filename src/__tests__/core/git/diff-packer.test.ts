@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { packDiff, categorizeDiffFile, formatOmittedFiles } from "../../../core/git/diff-packer.js";
+import { DiffFile } from "../../../core/git/types.js";
+
+function fileWithHunks(path: string, hunkSizes: number[], content = "const value = 1;"): DiffFile {
+  let start = 1;
+  const hunks = hunkSizes.map((size) => {
+    const hunk = {
+      header: `@@ -${start},0 +${start},${size} @@`,
+      oldStart: start,
+      oldLines: 0,
+      newStart: start,
+      newLines: size,
+      lines: Array.from({ length: size }, (_, i) => ({
+        type: "add" as const,
+        content,
+        newLineNumber: start + i,
+      })),
+    };
+    start += size + 10;
+    return hunk;
+  });
+
+  return {
+    path,
+    status: "modified",
+    isBinary: false,
+    modeChanged: false,
+    additions: hunkSizes.reduce((a, b) => a + b, 0),
+    deletions: 0,
+    hunks,
+  };
+}
+
+describe("Diff Packer", () => {
+  describe("categorizeDiffFile", () => {
+    it("should classify lockfiles, generated files, snapshots, tests and docs", () => {
+      expect(categorizeDiffFile(fileWithHunks("package-lock.json", [1]))).toBe("lockfile");
+      expect(categorizeDiffFile(fileWithHunks("apps/web/pnpm-lock.yaml", [1]))).toBe("lockfile");
+      expect(categorizeDiffFile(fileWithHunks("dist/index.js", [1]))).toBe("generated");
+      expect(categorizeDiffFile(fileWithHunks("public/app.min.js", [1]))).toBe("generated");
+      expect(categorizeDiffFile(fileWithHunks("src/__snapshots__/a.test.ts.snap", [1]))).toBe("snapshot");
+      expect(categorizeDiffFile(fileWithHunks("src/auth.test.ts", [1]))).toBe("test");
+      expect(categorizeDiffFile(fileWithHunks("README.md", [1]))).toBe("docs");
+      expect(categorizeDiffFile(fileWithHunks("src/auth.ts", [1]))).toBe("source");
+      expect(categorizeDiffFile({ ...fileWithHunks("logo.png", []), isBinary: true })).toBe("binary");
+    });
+  });
+
+  describe("packDiff", () => {
+    it("should include everything when no budget is given", () => {
+      const packed = packDiff([fileWithHunks("src/a.ts", [3]), fileWithHunks("src/b.ts", [2])]);
+
+      expect(packed.includedFiles).toEqual(["src/a.ts", "src/b.ts"]);
+      expect(packed.omittedFiles).toHaveLength(0);
+      expect(packed.text).toContain("diff --git a/src/a.ts b/src/a.ts");
+      expect(packed.text).toContain("diff --git a/src/b.ts b/src/b.ts");
+    });
+
+    it("should prioritise source files over lockfiles", () => {
+      const lockfile = fileWithHunks("package-lock.json", [40]);
+      const source = fileWithHunks("src/auth.ts", [5]);
+
+      const packed = packDiff([lockfile, source], { maxChars: 600 });
+
+      expect(packed.includedFiles).toEqual(["src/auth.ts"]);
+      expect(packed.omittedFiles).toEqual([
+        expect.objectContaining({ path: "package-lock.json", category: "lockfile", reason: "budget", additions: 40 }),
+      ]);
+      expect(packed.usedChars).toBeLessThanOrEqual(600);
+    });
+
+    it("should prefer larger semantic changes within the same category", () => {
+      const small = fileWithHunks("src/small.ts", [2]);
+      const large = fileWithHunks("src/large.ts", [8]);
+      const whitespace = fileWithHunks("src/whitespace.ts", [12], "   ");
+
+      const packed = packDiff([small, whitespace, large], { maxChars: 500 });
+
+      expect(packed.includedFiles).toContain("src/large.ts");
+      expect(packed.includedFiles).not.toContain("src/whitespace.ts");
+    });
+
+    it("should include leading hunks of a file that does not fit entirely", () => {
+      const packed = packDiff([fileWithHunks("src/big.ts", [3, 3, 30])], { maxChars: 400 });
+
+      expect(packed.partialFiles).toEqual(["src/big.ts"]);
+      expect(packed.text).toContain("@@ -1,0 +1,3 @@");
+      expect(packed.text).not.toContain("+27,30");
+      expect(packed.omittedFiles.map((f) => f.path)).toEqual(["src/big.ts"]);
+    });
+
+    it("should convert token budgets to characters", () => {
+      const packed = packDiff([fileWithHunks("src/a.ts", [100])], { maxTokens: 50 });
+
+      expect(packed.budgetChars).toBe(200);
+      expect(packed.includedFiles).toHaveLength(0);
+      expect(packed.omittedFiles).toHaveLength(1);
+    });
+
+    it("should report binary files as omitted", () => {
+      const binary = { ...fileWithHunks("logo.png", []), isBinary: true };
+      const packed = packDiff([binary, fileWithHunks("src/a.ts", [1])]);
+
+      expect(packed.includedFiles).toEqual(["src/a.ts"]);
+      expect(packed.omittedFiles).toEqual([expect.objectContaining({ path: "logo.png", reason: "binary" })]);
+    });
+  });
+
+  describe("formatOmittedFiles", () => {
+    it("should list omitted files with their stats", () => {
+      const packed = packDiff(
+        [fileWithHunks("src/auth.ts", [5]), fileWithHunks("yarn.lock", [50])],
+        { maxTokens: 150 }
+      );
+
+      const section = formatOmittedFiles(packed);
+      expect(section).toContain("Not shown in diff (budget: ~150 tokens)");
+      expect(section).toContain("- yarn.lock (modified, +50 -0, lockfile)");
+    });
+
+    it("should return an empty string when nothing was omitted", () => {
+      expect(formatOmittedFiles(packDiff([fileWithHunks("src/a.ts", [1])]))).toBe("");
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { parseUnifiedDiff, formatUnifiedDiff } from "../../../core/git/diff-parser.js";
+
+const MODIFIED_DIFF = `diff --git a/src/auth.ts b/src/auth.ts
+index 83db48f..bf269f4 100644
+--- a/src/auth.ts
++++ b/src/auth.ts
+@@ -10,4 +10,5 @@ export function login() {
+   const user = getUser();
+-  return user;
++  validate(user);
++  return user ?? null;
+ }
+@@ -40 +41 @@ export function logout() {
+-  clear();
++  clearSession();`;
+
+describe("Diff Parser", () => {
+  describe("parseUnifiedDiff", () => {
+    it("should parse hunks with old and new line numbers", () => {
+      const [file] = parseUnifiedDiff(MODIFIED_DIFF);
+
+      expect(file.path).toBe("src/auth.ts");
+      expect(file.status).toBe("modified");
+      expect(file.additions).toBe(3);
+      expect(file.deletions).toBe(2);
+      expect(file.hunks).toHaveLength(2);
+
+      const [first, second] = file.hunks;
+      expect(first.oldStart).toBe(10);
+      expect(first.newLines).toBe(5);
+      expect(first.section).toBe("export function login() {");
+      expect(first.lines[0]).toEqual({
+        type: "context",
+        content: "  const user = getUser();",
+        oldLineNumber: 10,
+        newLineNumber: 10,
+      });
+      expect(first.lines[1]).toEqual({ type: "delete", content: "  return user;", oldLineNumber: 11 });
+      expect(first.lines[2]).toEqual({ type: "add", content: "  validate(user);", newLineNumber: 11 });
+      expect(first.lines[4].oldLineNumber).toBe(12);
+      expect(first.lines[4].newLineNumber).toBe(13);
+
+      expect(second.oldLines).toBe(1);
+      expect(second.newLines).toBe(1);
+      expect(second.lines[1].newLineNumber).toBe(41);
+    });
+
+    it("should detect added and deleted files", () => {
+      const files = parseUnifiedDiff(`diff --git a/new.ts b/new.ts
+new file mode 100644
+index 0000000..e69de29
+--- /dev/null
++++ b/new.ts
+@@ -0,0 +1 @@
++export {};
+diff --git a/old.ts b/old.ts
+deleted file mode 100644
+index e69de29..0000000
+--- a/old.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-export {};`);
+
+      expect(files).toHaveLength(2);
+      expect(files[0]).toMatchObject({ path: "new.ts", status: "added", newMode: "100644", additions: 1 });
+      expect(files[0].oldPath).toBeUndefined();
+      expect(files[1]).toMatchObject({ path: "old.ts", status: "deleted", deletions: 1 });
+    });
+
+    it("should detect renames, copies and mode changes", () => {
+      const files = parseUnifiedDiff(`diff --git a/lib/a.ts b/src/a.ts
+similarity index 100%
+rename from lib/a.ts
+rename to src/a.ts
+diff --git a/src/b.ts b/src/c.ts
+similarity index 90%
+copy from src/b.ts
+copy to src/c.ts
+diff --git a/run.sh b/run.sh
+old mode 100644
+new mode 100755`);
+
+      expect(files[0]).toMatchObject({ path: "src/a.ts", oldPath: "lib/a.ts", status: "renamed", similarity: 100 });
+      expect(files[1]).toMatchObject({ path: "src/c.ts", oldPath: "src/b.ts", status: "copied", similarity: 90 });
+      expect(files[2]).toMatchObject({
+        path: "run.sh",
+        status: "modified",
+        modeChanged: true,
+        oldMode: "100644",
+        newMode: "100755",
+      });
+    });
+
+    it("should flag binary files and handle paths with spaces", () => {
+      const [file] = parseUnifiedDiff(`diff --git a/assets/my logo.png b/assets/my logo.png
+index 1234567..89abcde 100644
+Binary files a/assets/my logo.png and b/assets/my logo.png differ`);
+
+      expect(file.path).toBe("assets/my logo.png");
+      expect(file.isBinary).toBe(true);
+      expect(file.hunks).toHaveLength(0);
+    });
+
+    it("should ignore missing newline markers", () => {
+      const [file] = parseUnifiedDiff(`diff --git a/a.txt b/a.txt
+--- a/a.txt
++++ b/a.txt
+@@ -1 +1 @@
+-old
+\\ No newline at end of file
++new
+\\ No newline at end of file`);
+
+      expect(file.hunks[0].lines).toHaveLength(2);
+      expect(file.additions).toBe(1);
+      expect(file.deletions).toBe(1);
+    });
+
+    it("should return an empty list for an empty diff", () => {
+      expect(parseUnifiedDiff("")).toEqual([]);
+    });
+  });
+
+  describe("formatUnifiedDiff", () => {
+    it("should render parsed files back to unified diff", () => {
+      const rendered = formatUnifiedDiff(parseUnifiedDiff(MODIFIED_DIFF));
+
+      expect(rendered).toContain("diff --git a/src/auth.ts b/src/auth.ts");
+      expect(rendered).toContain("@@ -10,4 +10,5 @@ export function login() {");
+      expect(rendered).toContain("+  validate(user);");
+      expect(rendered).toContain("-  clear();");
+      expect(parseUnifiedDiff(rendered)).toEqual(parseUnifiedDiff(MODIFIED_DIFF));
+    });
+  });
+});
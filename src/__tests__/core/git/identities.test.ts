@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { SimpleGit } from "simple-git";
+import { applyMailmap, clearIdentityCache, noreplyLogin, resolveIdentity } from "../../../core/git/identities.js";
+
+describe("identities", () => {
+  beforeEach(() => {
+    clearIdentityCache();
+  });
+
+  it("reads logins from noreply emails", () => {
+    expect(noreplyLogin("octocat@users.noreply.github.com")).toBe("octocat");
+    expect(noreplyLogin("12345+octocat@users.noreply.github.com")).toBe("octocat");
+    expect(noreplyLogin("john.doe@corp.com")).toBeUndefined();
+  });
+
+  it("resolves from the mapping first, then noreply emails", async () => {
+    const mapping = { "john.doe@corp.com": "jdoe" };
+
+    expect(await resolveIdentity({ name: "John Doe", email: "John.Doe@corp.com" }, mapping)).toMatchObject({
+      login: "jdoe",
+      resolvedBy: "mapping",
+    });
+    expect(await resolveIdentity({ name: "Octo", email: "octocat@users.noreply.github.com" }, mapping)).toMatchObject({
+      login: "octocat",
+      resolvedBy: "noreply",
+    });
+  });
+
+  it("looks up commit authors once and does not guess", async () => {
+    const lookup = vi.fn().mockResolvedValueOnce("jane-gh").mockResolvedValueOnce(undefined);
+    const jane = { name: "Jane", email: "jane@corp.com" };
+    const bob = { name: "Bob", email: "bob.smith@corp.com" };
+
+    expect(await resolveIdentity(jane, {}, lookup, "abc")).toMatchObject({ login: "jane-gh", resolvedBy: "github" });
+    expect(await resolveIdentity(jane, {}, lookup, "def")).toMatchObject({ login: "jane-gh" });
+    expect(await resolveIdentity(bob, {}, lookup, "123")).toEqual(bob);
+    expect(await resolveIdentity(bob, {}, lookup, "456")).toEqual(bob);
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not cache failed lookups", async () => {
+    const lookup = vi.fn().mockRejectedValueOnce(new Error("rate limited")).mockResolvedValueOnce("jane-gh");
+    const jane = { name: "Jane", email: "jane@corp.com" };
+
+    expect((await resolveIdentity(jane, {}, lookup, "abc")).login).toBeUndefined();
+    expect((await resolveIdentity(jane, {}, lookup, "abc")).login).toBe("jane-gh");
+  });
+
+  it("maps identities through .mailmap", async () => {
+    const git = {
+      raw: vi.fn().mockResolvedValue("John Doe <john.doe@corp.com>\nJane <jane@corp.com>\n"),
+    } as unknown as SimpleGit;
+
+    const mapped = await applyMailmap(git, [
+      { name: "jd", email: "jd@laptop.local" },
+      { name: "Jane", email: "jane@corp.com" },
+      { name: "jd", email: "jd@laptop.local" },
+    ]);
+
+    expect(git.raw).toHaveBeenCalledWith(["check-mailmap", "jd <jd@laptop.local>", "Jane <jane@corp.com>"]);
+    expect(mapped.get("jd <jd@laptop.local>")).toEqual({ name: "John Doe", email: "john.doe@corp.com" });
+    expect(mapped.size).toBe(2);
+  });
+});
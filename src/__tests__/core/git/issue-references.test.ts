@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  appendClosingKeywords,
+  collectIssueReferences,
+  DEFAULT_TICKET_PATTERN,
+  prefixTitleWithTicket,
+  primaryTicketKey,
+} from "../../../core/git/issue-references.js";
+
+describe("issue-references", () => {
+  it("collects tickets and issues from the branch name", () => {
+    expect(collectIssueReferences("feat/PROJ-1234-add-login", [], DEFAULT_TICKET_PATTERN)).toEqual([
+      { id: "PROJ-1234", kind: "ticket", source: "branch", closing: false },
+    ]);
+    expect(collectIssueReferences("fix/42-login-redirect", [], DEFAULT_TICKET_PATTERN)).toEqual([
+      { id: "#42", kind: "github", source: "branch", closing: false },
+    ]);
+    expect(collectIssueReferences("release-2024", [], DEFAULT_TICKET_PATTERN)).toEqual([]);
+    expect(collectIssueReferences("release/2024-q1", [], DEFAULT_TICKET_PATTERN)).toEqual([]);
+    expect(collectIssueReferences("hotfix/v2-3", [], DEFAULT_TICKET_PATTERN)).toEqual([]);
+    expect(collectIssueReferences("42-fix/login", [], DEFAULT_TICKET_PATTERN)).toEqual([]);
+  });
+
+  it("collects references from commit messages and footers", () => {
+    const references = collectIssueReferences(
+      "main",
+      [
+        { message: "fix(api): handle empty responses", body: "See #10 and UTF-8 docs.\n\nCloses: 12\nRefs: ENG-7" },
+        { message: "feat: add export (#15)" },
+        { message: "chore: follow up", body: "Fixes https://github.com/acme/app/issues/3" },
+      ],
+      DEFAULT_TICKET_PATTERN
+    );
+
+    expect(references).toEqual([
+      { id: "#10", kind: "github", source: "commit", closing: false },
+      { id: "ENG-7", kind: "ticket", source: "commit", closing: false },
+      { id: "#12", kind: "github", source: "commit", closing: true },
+      { id: "#15", kind: "github", source: "commit", closing: false },
+      { id: "acme/app#3", kind: "github", source: "commit", closing: false },
+    ]);
+  });
+
+  it("supports a custom ticket pattern", () => {
+    const references = collectIssueReferences("feature/abc-12", [{ message: "PROJ-1 and ABC-34" }], "ABC-\\d+");
+
+    expect(references.map((r) => r.id)).toEqual(["ABC-34"]);
+  });
+
+  it("prefixes titles with the branch ticket first", () => {
+    const references = collectIssueReferences(
+      "feat/PROJ-2-login",
+      [{ message: "feat: add login", body: "Refs: PROJ-1" }],
+      DEFAULT_TICKET_PATTERN
+    );
+
+    expect(primaryTicketKey(references)).toBe("PROJ-2");
+    expect(prefixTitleWithTicket("feat: add login", "PROJ-2")).toBe("[PROJ-2] feat: add login");
+    expect(prefixTitleWithTicket("PROJ-2: add login", "PROJ-2")).toBe("PROJ-2: add login");
+    expect(prefixTitleWithTicket("feat: add login")).toBe("feat: add login");
+  });
+
+  it("appends closing keywords the body is missing", () => {
+    const references = collectIssueReferences(
+      "42-fix-login",
+      [{ message: "fix: login", body: "Closes #7\nFixes #42\nRelated to #8" }],
+      DEFAULT_TICKET_PATTERN
+    );
+
+    expect(appendClosingKeywords("Fixes the login.\n\nFixes #7\n", references)).toBe(
+      "Fixes the login.\n\nFixes #7\n\nCloses #42"
+    );
+    expect(appendClosingKeywords("Body", [])).toBe("Body");
+    expect(appendClosingKeywords("Body", collectIssueReferences("42-fix-login", [], DEFAULT_TICKET_PATTERN))).toBe("Body");
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from "vitest";
+import { applyLabels, inferLabels } from "../../../core/git/labels.js";
+import { GitProvider } from "../../../core/providers/types.js";
+
+const commit = (message: string, body?: string) => ({ hash: "abc1234", message, body, author: "Jane", date: "2024-01-01" });
+
+describe("labels", () => {
+  it("infers labels from the type, scopes, paths, size and breaking changes", () => {
+    const labels = inferLabels(
+      {
+        commits: [commit("feat(auth): add OAuth login", "BREAKING CHANGE: sessions are reset"), commit("fix(auth): handle expired tokens")],
+        filesList: [
+          { file: "src/auth/oauth.ts", changes: 40, insertions: 35, deletions: 5 },
+          { file: "docs/auth.md", changes: 10, insertions: 10, deletions: 0 },
+        ],
+        insertions: 45,
+        deletions: 5,
+      },
+      { paths: { "docs/": "documentation", "src/auth/**": ["area/auth", "security"], "infra/": "infra" } }
+    );
+
+    expect(labels).toEqual([
+      { label: "enhancement", reason: "type feat" },
+      { label: "scope: auth", reason: "scope auth" },
+      { label: "documentation", reason: "path docs/" },
+      { label: "area/auth", reason: "path src/auth/**" },
+      { label: "security", reason: "path src/auth/**" },
+      { label: "size/M", reason: "50 changed lines" },
+      { label: "breaking change", reason: "breaking change" },
+    ]);
+  });
+
+  it("follows the configured type labels and disables labels with empty strings", () => {
+    const labels = inferLabels(
+      { commits: [commit("fix(api): retry on 503")], filesList: [], insertions: 2000, deletions: 0 },
+      { types: { fix: "type: bug" }, scope: "", sizes: [{ label: "small", max: 100 }, { label: "large" }] }
+    );
+
+    expect(labels.map((l) => l.label)).toEqual(["type: bug", "large"]);
+  });
+
+  it("adds existing labels, and creates missing ones only when asked", async () => {
+    const provider = {
+      listLabels: vi.fn().mockResolvedValue(["Bug", "size/S"]),
+      createLabel: vi.fn().mockResolvedValue(undefined),
+      addLabels: vi.fn().mockResolvedValue(undefined),
+    } as unknown as GitProvider;
+    const labels = [
+      { label: "bug", reason: "type fix" },
+      { label: "size/S", reason: "12 changed lines" },
+      { label: "scope: api", reason: "scope api" },
+    ];
+
+    const planned = await applyLabels(provider, 7, labels, { dryRun: true });
+    expect(planned.map((r) => [r.label, r.status])).toEqual([
+      ["Bug", "applied"],
+      ["size/S", "applied"],
+      ["scope: api", "skipped"],
+    ]);
+    expect(provider.addLabels).not.toHaveBeenCalled();
+
+    const results = await applyLabels(provider, 7, labels, { createMissing: true });
+    expect(provider.createLabel).toHaveBeenCalledWith("scope: api");
+    expect(provider.addLabels).toHaveBeenCalledWith(7, ["Bug", "size/S", "scope: api"]);
+    expect(results.map((r) => r.status)).toEqual(["applied", "applied", "created"]);
+  });
+});
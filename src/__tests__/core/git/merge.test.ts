@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from "vitest";
+import { enableAutoMerge, mergeBlockers } from "../../../core/git/merge.js";
+import { GitProvider, MergeStatus } from "../../../core/providers/types.js";
+
+const status = (overrides: Partial<MergeStatus> = {}): MergeStatus => ({
+  state: "open",
+  url: "https://github.com/octo/repo/pull/7",
+  draft: false,
+  mergeable: true,
+  headBranch: "feature/auth",
+  headSha: "abc1234",
+  headInRepository: true,
+  checks: [],
+  approvals: 1,
+  ...overrides,
+});
+
+describe("merge", () => {
+  it("has no blockers for an open, approved PR with passing checks", () => {
+    expect(mergeBlockers(status({ checks: [{ name: "build", status: "success", required: true }], reviewDecision: "approved" }))).toEqual([]);
+  });
+
+  it("blocks on required or unknown checks only, and on missing approvals", () => {
+    const blockers = mergeBlockers(
+      status({
+        checks: [
+          { name: "build", status: "failure", required: true },
+          { name: "lint", status: "failure", required: false },
+          { name: "pipeline", status: "pending" },
+          { name: "docs", status: "skipped", required: true },
+        ],
+        approvals: 1,
+        reviewDecision: "changes_requested",
+      }),
+      2
+    );
+
+    expect(blockers).toEqual([
+      'Check "build" failed',
+      'Check "pipeline" is pending',
+      "Changes were requested",
+      "1 approval(s), 2 required",
+    ]);
+  });
+
+  it("blocks drafts, conflicts and PRs whose mergeability is unknown", () => {
+    expect(mergeBlockers(status({ state: "closed", draft: true, mergeable: false }))).toEqual([
+      "PR is closed",
+      "PR is a draft",
+      "PR has conflicts with its base branch",
+    ]);
+    expect(mergeBlockers(status({ mergeable: undefined }))).toEqual(["Mergeability is still being computed, try again shortly"]);
+  });
+
+  it("reports auto-merge the repository doesn't allow without throwing", async () => {
+    const provider = {
+      enableAutoMerge: vi.fn().mockRejectedValue(new Error("Auto merge is not allowed for this repository")),
+    } as unknown as GitProvider;
+
+    expect(await enableAutoMerge(provider, 7, "rebase")).toEqual({
+      method: "rebase",
+      status: "failed",
+      note: "Auto merge is not allowed for this repository",
+    });
+  });
+});
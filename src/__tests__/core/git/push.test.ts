@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, Mock } from "vitest";
+import { SimpleGit } from "simple-git";
+import { pushBranch } from "../../../core/git/push.js";
+
+type MockGit = SimpleGit & { raw: Mock<(args: string[]) => Promise<string>> };
+
+// git raw() answering ls-remote, rev-parse (whether the remote commit is known) and rev-list, recording the rest
+function mockGit(remoteSha: string, counts: string, fetched = true): MockGit {
+  return {
+    raw: vi.fn(async (args: string[]) => {
+      if (args[0] === "ls-remote") return remoteSha ? `${remoteSha}\trefs/heads/feature/login\n` : "";
+      if (args[0] === "rev-parse") return fetched ? `${remoteSha}\n` : "";
+      if (args[0] === "rev-list") return counts;
+      return "";
+    }),
+  } as unknown as MockGit;
+}
+
+const pushArgs = (git: MockGit) => git.raw.mock.calls.map(([args]) => args).find((args) => args[0] === "push");
+
+describe("pushBranch", () => {
+  it("creates the remote branch with upstream tracking", async () => {
+    const git = mockGit("", "3\n");
+
+    expect(await pushBranch(git, "origin", "feature/login")).toEqual({
+      remote: "origin",
+      branch: "feature/login",
+      action: "created",
+      commits: 3,
+    });
+    expect(pushArgs(git)).toEqual(["push", "--set-upstream", "origin", "feature/login:refs/heads/feature/login"]);
+  });
+
+  it("pushes commits the remote branch hasn't, and nothing when up to date", async () => {
+    const ahead = mockGit("abc123", "0\t2\n");
+    expect(await pushBranch(ahead, "origin", "feature/login")).toMatchObject({ action: "pushed", commits: 2 });
+    expect(pushArgs(ahead)).not.toContain("--force-with-lease=refs/heads/feature/login:abc123");
+
+    const upToDate = mockGit("abc123", "0\t0\n");
+    expect(await pushBranch(upToDate, "origin", "feature/login")).toMatchObject({ action: "up-to-date", commits: 0 });
+    expect(pushArgs(upToDate)).toBeUndefined();
+  });
+
+  it("refuses to overwrite remote commits unless forced", async () => {
+    const diverged = mockGit("abc123", "1\t2\n");
+    await expect(pushBranch(diverged, "origin", "feature/login")).rejects.toThrow(
+      'origin/feature/login has 1 commit(s) that "feature/login" doesn\'t have (the branches have diverged'
+    );
+    expect(pushArgs(diverged)).toBeUndefined();
+
+    expect(await pushBranch(diverged, "origin", "feature/login", { force: true, dryRun: true })).toMatchObject({ action: "forced" });
+    expect(pushArgs(diverged)).toBeUndefined();
+
+    expect(await pushBranch(diverged, "origin", "feature/login", { force: true })).toMatchObject({
+      action: "forced",
+      commits: 2,
+      overwritten: 1,
+    });
+    expect(pushArgs(diverged)).toContain("--force-with-lease=refs/heads/feature/login:abc123");
+  });
+
+  it("fetches nothing on dry runs", async () => {
+    const known = mockGit("abc123", "0\t2\n");
+    expect(await pushBranch(known, "origin", "feature/login", { dryRun: true })).toMatchObject({ action: "pushed", commits: 2 });
+    expect(known.raw.mock.calls.map(([args]) => args)).toContainEqual(["rev-list", "--left-right", "--count", "abc123...feature/login"]);
+
+    const unknown = mockGit("abc123", "0\t2\n", false);
+    expect(await pushBranch(unknown, "origin", "feature/login", { dryRun: true })).toMatchObject({ action: "unknown", commits: 0 });
+
+    for (const git of [known, unknown]) {
+      expect(git.raw.mock.calls.map(([[command]]) => command)).not.toContain("fetch");
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildReleaseEntries,
+  extractPullRequestNumber,
+  formatReleaseNotes,
+  prependChangelogSection,
+} from "../../../core/git/release-notes.js";
+import { CommitInfo } from "../../../core/git/types.js";
+
+function commit(hash: string, message: string): CommitInfo {
+  return { hash, message, author: "John Doe", date: "2024-05-01" };
+}
+
+describe("release-notes", () => {
+  it("extracts PR numbers from squash and merge commits", () => {
+    expect(extractPullRequestNumber("feat: add OAuth (#42)")).toBe(42);
+    expect(extractPullRequestNumber("Merge pull request #7 from owner/branch")).toBe(7);
+    expect(extractPullRequestNumber("fix: handle #12 edge case")).toBeUndefined();
+  });
+
+  it("groups commits by Keep-a-Changelog section and scope", () => {
+    const entries = buildReleaseEntries([
+      commit("aaaaaaa1", "fix(api): handle empty responses"),
+      commit("bbbbbbb2", "feat(ui): add dark mode"),
+      commit("ccccccc3", "feat(auth): add OAuth support (#42)"),
+      commit("ddddddd4", "docs: update README"),
+      commit("eeeeeee5", "Update dependencies"),
+    ]);
+
+    const notes = formatReleaseNotes(entries, { version: "1.2.0", date: "2024-05-01" });
+
+    expect(notes).toBe(`## [1.2.0] - 2024-05-01
+
+### Added
+
+- **auth:** add OAuth support (#42)
+- **ui:** add dark mode (bbbbbbb)
+
+### Changed
+
+- Update dependencies (eeeeeee)
+
+### Fixed
+
+- **api:** handle empty responses (aaaaaaa)
+`);
+  });
+
+  it("lists breaking changes first and includes internal commits on request", () => {
+    const entries = buildReleaseEntries([
+      commit("aaaaaaa1", "feat(api)!: drop v1 endpoints"),
+      commit("bbbbbbb2", "ci: cache dependencies"),
+    ]);
+
+    const notes = formatReleaseNotes(entries, { version: "2.0.0", date: "2024-05-01", includeAll: true });
+
+    expect(notes).toContain("### ⚠ BREAKING CHANGES\n\n- **api:** drop v1 endpoints (aaaaaaa)");
+    expect(notes).toContain("### Changed\n\n- cache dependencies (bbbbbbb)");
+    expect(notes).not.toContain("### Added");
+  });
+
+  it("collapses commits of the same pull request into its title", () => {
+    const pullRequests = new Map([
+      ["aaaaaaa1", { number: 10, title: "feat(auth): add OAuth support", url: "https://github.com/o/r/pull/10" }],
+      ["bbbbbbb2", { number: 10, title: "feat(auth): add OAuth support", url: "https://github.com/o/r/pull/10" }],
+    ]);
+
+    const entries = buildReleaseEntries(
+      [commit("aaaaaaa1", "wip"), commit("bbbbbbb2", "fix tests")],
+      pullRequests
+    );
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ type: "feat", scope: "auth", hashes: ["aaaaaaa1", "bbbbbbb2"] });
+    expect(formatReleaseNotes(entries, { version: "Unreleased" })).toContain(
+      "- **auth:** add OAuth support ([#10](https://github.com/o/r/pull/10))"
+    );
+  });
+
+  it("creates a changelog with the Keep-a-Changelog header", () => {
+    const changelog = prependChangelogSection(undefined, "## [1.0.0] - 2024-05-01\n", "1.0.0");
+
+    expect(changelog).toMatch(/^# Changelog\n/);
+    expect(changelog).toContain("keepachangelog.com");
+    expect(changelog.endsWith("## [1.0.0] - 2024-05-01\n")).toBe(true);
+  });
+
+  it("inserts a release below [Unreleased] and above the latest release", () => {
+    const existing = "# Changelog\n\n## [Unreleased]\n\n- wip\n\n## [1.0.0] - 2024-01-01\n\n- first\n";
+
+    const changelog = prependChangelogSection(existing, "## [1.1.0] - 2024-05-01\n\n- new\n", "1.1.0");
+
+    expect(changelog).toBe(
+      "# Changelog\n\n## [Unreleased]\n\n- wip\n\n## [1.1.0] - 2024-05-01\n\n- new\n\n## [1.0.0] - 2024-01-01\n\n- first\n"
+    );
+    expect(() => prependChangelogSection(changelog, "## [1.1.0]\n", "1.1.0")).toThrow(/already contains/);
+  });
+});
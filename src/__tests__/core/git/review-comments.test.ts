@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { formatFinding, patchPositions, placeFindings, reviewBody } from "../../../core/git/review-comments.js";
+
+const patch = [
+  "@@ -1,4 +1,5 @@",
+  " import { a } from './a';",
+  "-const b = 1;",
+  "+const b = 2;",
+  "+const c = 3;",
+  " ",
+  " export { a };",
+  "@@ -20,3 +21,3 @@ function run() {",
+  "   start();",
+  "-  stop();",
+  "+  stop(true);",
+  "\\ No newline at end of file",
+].join("\n");
+
+describe("review comments", () => {
+  it("maps new lines to their diff position, later hunk headers included", () => {
+    expect([...patchPositions(patch)]).toEqual([
+      [1, 1],
+      [2, 3],
+      [3, 4],
+      [4, 5],
+      [5, 6],
+      [21, 8],
+      [22, 10],
+    ]);
+  });
+
+  it("comments inline on diff lines and lists the other findings in the body", () => {
+    const findings = [
+      { file: "./src/run.ts", line: 22, severity: "critical" as const, message: "stop() no longer flushes", suggestion: "  stop(false);\n" },
+      { file: "src/run.ts", line: 40, severity: "warning" as const, message: "Unused helper" },
+      { file: "assets/logo.png", line: 1, severity: "suggestion" as const, message: "Compress the image" },
+    ];
+
+    const { comments, outsideDiff } = placeFindings(findings, [{ file: "src/run.ts", patch }, { file: "assets/logo.png" }]);
+
+    expect(comments).toEqual([
+      { path: "src/run.ts", position: 10, body: "**🔴 Critical:** stop() no longer flushes\n\n```suggestion\n  stop(false);\n```" },
+    ]);
+    expect(outsideDiff.map((f) => f.line)).toEqual([40, 1]);
+    expect(reviewBody("Looks good overall.", outsideDiff)).toBe(
+      "Looks good overall.\n\n**Outside the diff:**\n" +
+      "- `src/run.ts:40` **🟠 Warning:** Unused helper\n" +
+      "- `assets/logo.png:1` **🔵 Suggestion:** Compress the image"
+    );
+    expect(formatFinding({ ...findings[1], suggestion: "" })).toBe("**🟠 Warning:** Unused helper\n\n```suggestion\n\n```");
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { createExclusionFilter } from "../../../core/git/reviewer-filters.js";
+
+describe("reviewer-filters", () => {
+  it("excludes GitHub apps, dependency bots and service accounts", () => {
+    const isExcluded = createExclusionFilter({});
+
+    expect(isExcluded({ login: "dependabot[bot]" })).toMatch(/^Bot or service account/);
+    expect(isExcluded({ name: "renovate", email: "29139614+renovate[bot]@users.noreply.github.com" })).toBeDefined();
+    expect(isExcluded({ name: "Release", email: "ci-bot@example.com" })).toBeDefined();
+    expect(isExcluded({ name: "GitHub", email: "noreply@github.com" })).toBeDefined();
+    expect(isExcluded({ name: "Abbot Smith", email: "abbot@example.com", login: "abbot" })).toBeUndefined();
+    expect(isExcluded({ name: "Alice", email: "alice@example.com", login: "alice" })).toBeUndefined();
+  });
+
+  it("excludes the deny list by login, email or name", () => {
+    const isExcluded = createExclusionFilter({
+      exclude: ["@bob", "carol@example.com"],
+      botPatterns: ["^svc-"],
+    });
+
+    expect(isExcluded({ login: "Bob" })).toBe("Excluded by the deny list (Bob)");
+    expect(isExcluded({ name: "Carol", email: "Carol@example.com" })).toBe("Excluded by the deny list (Carol@example.com)");
+    expect(isExcluded({ login: "svc-deploy" })).toMatch(/^Bot or service account \(svc-deploy matches/);
+  });
+
+  it("rejects invalid bot patterns", () => {
+    expect(() => createExclusionFilter({ botPatterns: ["("] })).toThrow('Invalid bot pattern "("');
+  });
+});
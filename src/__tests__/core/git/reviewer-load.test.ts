@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { balanceByLoad, loadPenalty, rotateCandidates } from "../../../core/git/reviewer-load.js";
+import { ReviewerSuggestion } from "../../../core/git/types.js";
+
+const candidate = (author: string, total: number): ReviewerSuggestion => ({
+  author,
+  contributions: 1,
+  reason: "",
+  source: "history",
+  score: { total, blame: total, history: 0, blamedLines: 1, commits: 1, files: 1 },
+});
+
+describe("reviewer-load", () => {
+  it("halves a score at three open review requests", () => {
+    expect(loadPenalty(0)).toBe(1);
+    expect(loadPenalty(3)).toBe(0.5);
+    expect(loadPenalty(9)).toBe(0.25);
+  });
+
+  it("ranks a less busy reviewer above an overloaded top contributor", () => {
+    const balanced = balanceByLoad(
+      [candidate("alice", 1), candidate("bob", 0.6), candidate("carol", 0.5)],
+      new Map([["alice", 6]])
+    );
+
+    expect(balanced.map((c) => c.author)).toEqual(["bob", "carol", "alice"]);
+    expect(balanced.map((c) => c.openReviews)).toEqual([0, 0, 6]);
+  });
+
+  it("rotates deterministically by key", () => {
+    const pool = ["alice", "bob", "carol", "dave"];
+
+    expect(rotateCandidates(pool, "feature/login")).toEqual(rotateCandidates(pool, "feature/login"));
+    expect([...rotateCandidates(pool, "feature/login")].sort()).toEqual(pool);
+    const firsts = new Set(["feature/a", "feature/b", "feature/c", "feature/d", "fix/e", "fix/f"].map((key) => rotateCandidates(pool, key)[0]));
+    expect(firsts.size).toBeGreaterThan(1);
+    expect(rotateCandidates([], "main")).toEqual([]);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from "vitest";
+import { planReviewerRequests, requestReviewers, reviewerRequests } from "../../../core/git/reviewer-requests.js";
+
+describe("reviewer-requests", () => {
+  it("puts explicit reviewers first and requests everyone once", () => {
+    const requests = reviewerRequests({ reviewers: ["@Alice"], teamReviewers: ["acme/backend"] }, [
+      { author: "acme/backend", contributions: 2, reason: "", source: "codeowners", team: true },
+      { author: "alice", contributions: 1, reason: "", source: "history" },
+      { author: "bob", contributions: 1, reason: "", source: "history" },
+    ]);
+
+    expect(requests).toEqual([
+      { reviewer: "Alice", team: false, source: "explicit" },
+      { reviewer: "acme/backend", team: true, source: "explicit" },
+      { reviewer: "bob", team: false, source: "history" },
+    ]);
+  });
+
+  it("reports the outcome per reviewer", async () => {
+    const send = vi.fn().mockResolvedValue({ users: ["bob"], teams: ["backend"] });
+
+    const results = await requestReviewers(
+      send,
+      [
+        { reviewer: "me", team: false, source: "history" },
+        { reviewer: "ops@acme.com", team: false, source: "codeowners" },
+        { reviewer: "acme/backend", team: true, source: "codeowners" },
+        { reviewer: "bob", team: false, source: "history" },
+        { reviewer: "carol", team: false, source: "explicit" },
+      ],
+      "Me"
+    );
+
+    expect(send).toHaveBeenCalledWith(["bob", "carol"], ["backend"]);
+    expect(results.map((r) => [r.reviewer, r.status])).toEqual([
+      ["me", "skipped"],
+      ["ops@acme.com", "skipped"],
+      ["acme/backend", "requested"],
+      ["bob", "requested"],
+      ["carol", "failed"],
+    ]);
+  });
+
+  it("skips teams when the service has no team reviewers", async () => {
+    const send = vi.fn().mockResolvedValue({ users: ["bob"], teams: [] });
+
+    const results = await requestReviewers(
+      send,
+      [
+        { reviewer: "acme/backend", team: true, source: "codeowners" },
+        { reviewer: "bob", team: false, source: "history" },
+      ],
+      "me",
+      false
+    );
+
+    expect(send).toHaveBeenCalledWith(["bob"], []);
+    expect(results.map((r) => r.status)).toEqual(["skipped", "requested"]);
+  });
+
+  it("retries one reviewer at a time when GitHub rejects the request", async () => {
+    const send = vi.fn().mockImplementation(async (users: string[]) => {
+      if (users.includes("ghost")) {
+        throw new Error("Reviews may only be requested from collaborators");
+      }
+      return { users, teams: [] };
+    });
+
+    const results = await requestReviewers(
+      send,
+      [
+        { reviewer: "alice", team: false, source: "history" },
+        { reviewer: "ghost", team: false, source: "explicit" },
+      ],
+      "me"
+    );
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(results).toEqual([
+      { reviewer: "alice", team: false, source: "history", status: "requested" },
+      {
+        reviewer: "ghost",
+        team: false,
+        source: "explicit",
+        status: "failed",
+        reason: "Reviews may only be requested from collaborators",
+      },
+    ]);
+  });
+
+  it("plans requests without sending them", async () => {
+    const results = await planReviewerRequests(
+      [
+        { reviewer: "me", team: false, source: "codeowners" },
+        { reviewer: "acme/backend", team: true, source: "codeowners" },
+        { reviewer: "alice", team: false, source: "history" },
+      ],
+      "me"
+    );
+
+    expect(results.map((r) => [r.reviewer, r.status])).toEqual([
+      ["me", "skipped"],
+      ["acme/backend", "requested"],
+      ["alice", "requested"],
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseBlamePorcelain,
+  recencyWeight,
+  scoreContributors,
+  touchedLineRanges,
+} from "../../../core/git/reviewer-scoring.js";
+import { DiffFile } from "../../../core/git/types.js";
+
+const now = new Date("2025-01-01T00:00:00Z");
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+describe("reviewer-scoring", () => {
+  it("halves the weight of a contribution every half-life", () => {
+    expect(recencyWeight(now, now)).toBe(1);
+    expect(recencyWeight(daysAgo(180), now)).toBeCloseTo(0.5);
+    expect(recencyWeight(daysAgo(360), now)).toBeCloseTo(0.25);
+    expect(recencyWeight(undefined, now)).toBe(1);
+  });
+
+  it("blames the base lines touched by each hunk", () => {
+    const file: DiffFile = {
+      path: "src/a.ts",
+      status: "modified",
+      isBinary: false,
+      modeChanged: false,
+      additions: 2,
+      deletions: 1,
+      hunks: [
+        { header: "@@ -10,7 +10,8 @@", oldStart: 10, oldLines: 7, newStart: 10, newLines: 8, lines: [] },
+        { header: "@@ -40,0 +42,1 @@", oldStart: 40, oldLines: 0, newStart: 42, newLines: 1, lines: [] },
+      ],
+    };
+
+    expect(touchedLineRanges(file)).toEqual([[10, 16], [40, 40]]);
+    expect(touchedLineRanges({ ...file, status: "added" })).toEqual([]);
+  });
+
+  it("parses git blame line porcelain", () => {
+    const output = [
+      "1111111111111111111111111111111111111111 10 10 1",
+      "author Alice",
+      "author-mail <alice@example.com>",
+      "author-time 1700000000",
+      "filename src/a.ts",
+      "\tconst a = 1;",
+      "0000000000000000000000000000000000000000 11 11 1",
+      "author Not Committed Yet",
+      "author-mail <not.committed.yet>",
+      "author-time 1735000000",
+      "\tconst b = 2;",
+    ].join("\n");
+
+    expect(parseBlamePorcelain(output)).toEqual([
+      {
+        name: "Alice",
+        email: "alice@example.com",
+        date: new Date(1700000000 * 1000),
+        hash: "1111111111111111111111111111111111111111",
+      },
+    ]);
+  });
+
+  it("ranks recent owners of the touched lines above long-gone contributors", () => {
+    const alice = { name: "Alice", email: "alice@example.com" };
+    const bob = { name: "Bob", email: "bob@example.com" };
+
+    const scores = scoreContributors(
+      [
+        {
+          file: "src/a.ts",
+          blame: [{ ...alice, date: daysAgo(30) }, { ...bob, date: daysAgo(900) }, { ...bob, date: daysAgo(900) }],
+          commits: [{ ...alice, date: daysAgo(30) }, ...Array(10).fill({ ...bob, date: daysAgo(1000) })],
+        },
+        { file: "src/b.ts", blame: [], commits: [{ ...bob, date: daysAgo(800) }] },
+      ],
+      now
+    );
+
+    expect(scores.map((s) => s.name)).toEqual(["Alice", "Bob"]);
+    expect(scores[0].score).toMatchObject({ blamedLines: 1, commits: 1, files: 1 });
+    expect(scores[0].score.lastActive).toBe(daysAgo(30).toISOString());
+    expect(scores[1].score).toMatchObject({ blamedLines: 2, commits: 11, files: 2 });
+    expect(scores[0].score.total).toBeCloseTo(scores[0].score.blame + scores[0].score.history, 2);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { parseCommitMessage } from "../../../core/git/commit-parser.js";
+import {
+  bumpForCommit,
+  effectiveBump,
+  incrementVersion,
+  maxBump,
+  parseSemVer,
+} from "../../../core/git/version-bump.js";
+
+describe("version-bump", () => {
+  it("detects breaking changes from the ! marker and BREAKING CHANGE footers", () => {
+    expect(bumpForCommit(parseCommitMessage("feat(api)!: drop v1 endpoints"))).toBe("major");
+    expect(
+      bumpForCommit(parseCommitMessage("refactor: rename config", "Long explanation.\n\nBREAKING CHANGE: `port` is now `httpPort`"))
+    ).toBe("major");
+    expect(bumpForCommit(parseCommitMessage("fix: typo", "Mentions BREAKING CHANGE in the body only"))).toBe("patch");
+  });
+
+  it("maps commit types to bumps", () => {
+    expect(bumpForCommit(parseCommitMessage("feat: add export"))).toBe("minor");
+    expect(bumpForCommit(parseCommitMessage("perf(db): cache queries"))).toBe("patch");
+    expect(bumpForCommit(parseCommitMessage("docs: update README"))).toBe("none");
+    expect(bumpForCommit(parseCommitMessage("Update stuff"))).toBe("none");
+    expect(maxBump(["patch", "none", "minor", "patch"])).toBe("minor");
+    expect(maxBump([])).toBe("none");
+  });
+
+  it("increments versions", () => {
+    const version = parseSemVer("v1.4.2")!;
+
+    expect(incrementVersion(version, "major")).toBe("2.0.0");
+    expect(incrementVersion(version, "minor")).toBe("1.5.0");
+    expect(incrementVersion(version, "patch")).toBe("1.4.3");
+    expect(incrementVersion(version, "none")).toBe("1.4.2");
+    expect(parseSemVer("1.2")).toBeUndefined();
+  });
+
+  it("releases prereleases that already contain the bump", () => {
+    expect(incrementVersion(parseSemVer("2.0.0-rc.1")!, "major")).toBe("2.0.0");
+    expect(incrementVersion(parseSemVer("1.1.0-beta.2")!, "minor")).toBe("1.1.0");
+    expect(incrementVersion(parseSemVer("1.1.1-beta.2")!, "minor")).toBe("1.2.0");
+  });
+
+  it("keeps breaking changes in the minor version before 1.0.0", () => {
+    const version = parseSemVer("0.3.1")!;
+
+    expect(effectiveBump(version, "major")).toBe("minor");
+    expect(effectiveBump(version, "minor")).toBe("patch");
+    expect(incrementVersion(version, effectiveBump(version, "major"))).toBe("0.4.0");
+    expect(effectiveBump(parseSemVer("1.0.0")!, "major")).toBe("major");
+  });
+});
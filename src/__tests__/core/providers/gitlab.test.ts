@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createGitLabProvider } from "../../../core/providers/gitlab.js";
+import { RemoteRepository } from "../../../core/providers/types.js";
+
+const repository: RemoteRepository = {
+  provider: "gitlab",
+  host: "gitlab.example.com",
+  protocol: "https",
+  owner: "group/subgroup",
+  repo: "app",
+  apiUrl: "https://gitlab.example.com/api/v4",
+};
+
+const mergeRequest = {
+  iid: 12,
+  web_url: "https://gitlab.example.com/group/subgroup/app/-/merge_requests/12",
+  title: "Draft: feat: add login",
+  state: "opened",
+  draft: true,
+  source_branch: "feature/login",
+  target_branch: "main",
+  source_project_id: 7,
+  target_project_id: 7,
+  reviewers: [{ id: 1, username: "alice" }],
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+describe("GitLab provider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("finds and creates merge requests in the project", async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(json([mergeRequest]))
+      .mockResolvedValueOnce(json(mergeRequest, 201));
+    vi.stubGlobal("fetch", fetchMock);
+    const provider = createGitLabProvider(repository, "glpat-token");
+
+    const existing = await provider.findPullRequest("feature/login", "main");
+    expect(existing).toMatchObject({ number: 12, state: "open", draft: true, headBranch: "feature/login" });
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      "https://gitlab.example.com/api/v4/projects/group%2Fsubgroup%2Fapp/merge_requests?source_branch=feature%2Flogin&target_branch=main&state=all&order_by=updated_at"
+    );
+    expect(fetchMock.mock.calls[0][1].headers["PRIVATE-TOKEN"]).toBe("glpat-token");
+
+    await provider.createPullRequest({ title: "feat: add login", body: "Adds login", head: "feature/login", base: "main", draft: true });
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({
+      source_branch: "feature/login",
+      target_branch: "main",
+      title: "Draft: feat: add login",
+      description: "Adds login",
+    });
+  });
+
+  it("opens merge requests from forks on the fork project, targeting upstream", async () => {
+    const fork: RemoteRepository = { ...repository, owner: "jane" };
+    const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+      if (url.endsWith("/projects/jane%2Fapp")) return json({ id: 42 });
+      if (url.endsWith("/projects/group%2Fsubgroup%2Fapp")) return json({ id: 7 });
+      if (init.method === "POST") return json({ ...mergeRequest, source_project_id: 42 }, 201);
+      // Same branch name, from upstream itself
+      return json([mergeRequest]);
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const provider = createGitLabProvider(repository, "glpat-token");
+
+    expect(await provider.findPullRequest("feature/login", "main", fork)).toBeUndefined();
+
+    await provider.createPullRequest({ title: "feat: add login", body: "Adds login", head: "feature/login", base: "main", headRepository: fork });
+    const create = fetchMock.mock.calls.find(([, init]) => init.method === "POST")!;
+    expect(create[0]).toBe("https://gitlab.example.com/api/v4/projects/jane%2Fapp/merge_requests");
+    expect(JSON.parse(create[1].body as string)).toMatchObject({ source_branch: "feature/login", target_project_id: 7 });
+  });
+
+  it("adds reviewers by user ID and skips teams", async () => {
+    const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+      if (url.endsWith("/user")) return json({ username: "me" });
+      if (url.includes("/users?username=bob")) return json([{ id: 2 }]);
+      if (init.method === "PUT") {
+        return json({ ...mergeRequest, reviewers: [...mergeRequest.reviewers, { id: 2, username: "bob" }] });
+      }
+      return json(mergeRequest);
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const provider = createGitLabProvider(repository, "glpat-token");
+
+    const results = await provider.requestReviewers(12, [
+      { reviewer: "acme/backend", team: true, source: "codeowners" },
+      { reviewer: "bob", team: false, source: "history" },
+    ]);
+
+    const update = fetchMock.mock.calls.find(([, init]) => init.method === "PUT")!;
+    expect(JSON.parse(update[1].body as string)).toEqual({ reviewer_ids: [1, 2] });
+    expect(results.map((r) => [r.reviewer, r.status])).toEqual([
+      ["acme/backend", "skipped"],
+      ["bob", "requested"],
+    ]);
+  });
+
+  it("toggles drafts through the title prefix", async () => {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      if (init.method === "PUT") {
+        const { title } = JSON.parse(init.body as string);
+        return json({ ...mergeRequest, title, draft: title.startsWith("Draft: ") });
+      }
+      return json(mergeRequest);
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const provider = createGitLabProvider(repository, "glpat-token");
+
+    expect(await provider.setDraft(12, false)).toMatchObject({ title: "feat: add login", draft: false });
+    expect(await provider.setDraft(12, true)).toMatchObject({ title: "feat: add login", draft: true });
+    const updates = fetchMock.mock.calls.filter(([, init]) => init.method === "PUT");
+    expect(updates.map(([, init]) => JSON.parse(init.body as string).title)).toEqual(["feat: add login", "Draft: feat: add login"]);
+  });
+
+  it("reads every page of the project's labels", async () => {
+    const names = Array.from({ length: 130 }, (_, i) => ({ name: `label-${i}` }));
+    const fetchMock = vi.fn(async (url: string) => json(new URL(url).searchParams.get("page") === "1" ? names.slice(0, 100) : names.slice(100)));
+    vi.stubGlobal("fetch", fetchMock);
+    const provider = createGitLabProvider(repository, "glpat-token");
+
+    expect(await provider.listLabels()).toHaveLength(130);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      "https://gitlab.example.com/api/v4/projects/group%2Fsubgroup%2Fapp/labels?per_page=100&page=1",
+      "https://gitlab.example.com/api/v4/projects/group%2Fsubgroup%2Fapp/labels?per_page=100&page=2",
+    ]);
+  });
+
+  it("squashes on request and refuses merge methods the project doesn't use", async () => {
+    const fetchMock = vi.fn(async (url: string, _init: RequestInit) => {
+      if (url.endsWith("/projects/group%2Fsubgroup%2Fapp")) return json({ id: 7, merge_method: "ff" });
+      return json({ ...mergeRequest, merge_commit_sha: "abc123" });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const provider = createGitLabProvider(repository, "glpat-token");
+
+    expect(await provider.mergePullRequest(12, "squash", "def456")).toEqual({ sha: "abc123" });
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string)).toEqual({ squash: true, sha: "def456" });
+
+    await expect(provider.enableAutoMerge(12, "merge")).rejects.toThrow('The project merges with its "ff" merge method, so "merge" can\'t be used');
+    expect(fetchMock.mock.calls.filter(([, init]) => init.method === "PUT")).toHaveLength(1);
+
+    await provider.mergePullRequest(12, "rebase", "def456");
+    expect(JSON.parse(fetchMock.mock.lastCall![1].body as string)).toEqual({ squash: false, sha: "def456" });
+  });
+
+  it("recognises every draft prefix and writes the canonical one", async () => {
+    const titles = ["[Draft] feat: add login", "(draft) feat: add login", "Draft - feat: add login"];
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      if (init.method === "PUT") return json({ ...mergeRequest, title: JSON.parse(init.body as string).title, draft: undefined });
+      return json({ ...mergeRequest, title: titles[0], draft: undefined });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const provider = createGitLabProvider(repository, "glpat-token");
+
+    for (const title of titles) {
+      fetchMock.mockResolvedValueOnce(json({ ...mergeRequest, title, draft: undefined }));
+      expect(await provider.getPullRequest(12)).toMatchObject({ title: "feat: add login", draft: true });
+    }
+    expect(await provider.setDraft(12, false)).toMatchObject({ title: "feat: add login", draft: false });
+    expect(await provider.setDraft(12, true)).toMatchObject({ title: "feat: add login", draft: true });
+    const updates = fetchMock.mock.calls.filter(([, init]) => init.method === "PUT");
+    expect(updates.map(([, init]) => JSON.parse(init.body as string).title)).toEqual(["feat: add login", "Draft: feat: add login"]);
+  });
+
+  it("reports missing branches and API errors with their status", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => json({ message: "404 Branch Not Found" }, 404)));
+    const provider = createGitLabProvider(repository, "glpat-token");
+
+    expect(await provider.branchExists("feature/missing")).toBe(false);
+    await expect(provider.currentUser()).rejects.toMatchObject({ status: 404, message: expect.stringContaining("404 Branch Not Found") });
+  });
+});
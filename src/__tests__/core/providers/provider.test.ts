@@ -0,0 +1,45 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { SimpleGit } from "simple-git";
+import { createGitInstance } from "../../../core/git/repository.js";
+import { createPullRequestTarget, detectPullRequestRemotes } from "../../../core/providers/provider.js";
+
+vi.mock("../../../core/git/repository.js", () => ({
+  createGitInstance: vi.fn(),
+}));
+
+const remoteUrls: Record<string, string> = {};
+
+describe("provider", () => {
+  beforeEach(() => {
+    for (const name of Object.keys(remoteUrls)) delete remoteUrls[name];
+    vi.mocked(createGitInstance).mockReturnValue({
+      getRemotes: vi.fn(async () => Object.keys(remoteUrls).map((name) => ({ name }))),
+      remote: vi.fn(async ([, name]: string[]) => remoteUrls[name]),
+    } as unknown as SimpleGit);
+  });
+
+  it("opens PRs on upstream from origin when both remotes exist", async () => {
+    remoteUrls.origin = "git@github.com:jane/app.git";
+    expect(await detectPullRequestRemotes("/repo")).toEqual({ head: "origin", base: "origin" });
+
+    remoteUrls.upstream = "git@github.com:acme/app.git";
+    expect(await detectPullRequestRemotes("/repo")).toEqual({ head: "origin", base: "upstream" });
+    expect(await detectPullRequestRemotes("/repo", { baseRemote: "origin" })).toEqual({ head: "origin", base: "origin" });
+    await expect(detectPullRequestRemotes("/repo", { headRemote: "fork" })).rejects.toThrow(
+      "No remote named 'fork' (remotes: origin, upstream)"
+    );
+  });
+
+  it("resolves the fork and the upstream provider", async () => {
+    remoteUrls.origin = "git@github.com:jane/app.git";
+    remoteUrls.upstream = "https://github.com/acme/app.git";
+
+    const { provider, remotes, headRepository } = await createPullRequestTarget("/repo", "ghp_token");
+    expect(remotes).toEqual({ head: "origin", base: "upstream" });
+    expect(provider.repository).toMatchObject({ owner: "acme", repo: "app" });
+    expect(headRepository).toMatchObject({ owner: "jane", repo: "app" });
+
+    remoteUrls.origin = "git@gitlab.com:jane/app.git";
+    await expect(createPullRequestTarget("/repo", "ghp_token")).rejects.toThrow("are not on the same hosting service");
+  });
+});
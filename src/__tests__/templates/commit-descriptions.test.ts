@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { describeCommit } from "../../templates/commit-descriptions.js";
+
+describe("commit-descriptions", () => {
+  it("describes conventional commits as sentences", () => {
+    const commit = (message: string, body?: string) => ({ hash: "abc123", message, body, author: "John", date: "2025-01-01" });
+
+    expect(describeCommit(commit("feat(auth): add OAuth support"), "en")).toBe("Adds OAuth support");
+    expect(describeCommit(commit("feat: dark mode"), "en")).toBe("Adds dark mode");
+    expect(describeCommit(commit("fix: remove stale cache"), "fr")).toBe("Supprime stale cache");
+    expect(describeCommit(commit("docs: add API guide"), "en")).toBe("Documentation: add API guide");
+    expect(describeCommit(commit("fixture: add sample data"), "en")).toBe("fixture: add sample data");
+    expect(describeCommit(commit("refactor: config loading", "BREAKING CHANGE: port is httpPort"), "en")).toBe(
+      "Refactors config loading (breaking change)"
+    );
+  });
+
+  it("conjugates leading verbs of non-conventional messages", () => {
+    const commit = { hash: "abc123", message: "Update dependencies", author: "John", date: "2025-01-01" };
+
+    expect(describeCommit(commit, "en")).toBe("Updates dependencies");
+    expect(describeCommit(commit, "fr")).toBe("Met à jour dependencies");
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import {
+  generatedSection,
+  generatedTitle,
+  isTitleEdited,
+  mergeGeneratedSections,
+  titleMarker,
+} from "../../templates/generated-sections.js";
+
+describe("generated-sections", () => {
+  const generated = (description: string, title: string, extra = "") =>
+    [generatedSection("description", description), extra, titleMarker(title)].filter(Boolean).join("\n\n");
+
+  it("replaces generated sections and keeps hand-written text around them", () => {
+    const existing = [
+      "Deploy after the migration!",
+      generatedSection("description", "## Summary\nOld summary"),
+      generatedSection("review", "Old review"),
+      "- [x] QA checked on staging",
+      titleMarker("feat: add login"),
+    ].join("\n\n");
+
+    const merged = mergeGeneratedSections(existing, generated("## Summary\nNew summary", "feat: add login form", generatedSection("gif", "![PR GIF](x)")));
+
+    expect(merged).toBe(
+      [
+        "Deploy after the migration!",
+        generatedSection("description", "## Summary\nNew summary"),
+        "- [x] QA checked on staging",
+        generatedSection("gif", "![PR GIF](x)"),
+        titleMarker("feat: add login form"),
+      ].join("\n\n")
+    );
+  });
+
+  it("keeps bodies without markers and appends the generated sections", () => {
+    expect(mergeGeneratedSections("Written by hand", generated("Generated", "feat: x"))).toBe(
+      `Written by hand\n\n${generatedSection("description", "Generated")}\n\n${titleMarker("feat: x")}`
+    );
+    expect(mergeGeneratedSections(undefined, generated("Generated", "feat: x"))).toBe(generated("Generated", "feat: x"));
+  });
+
+  it("tells hand-edited titles from generated ones", () => {
+    const body = generated("Generated", "feat: add login --> now");
+
+    expect(generatedTitle(body)).toBe("feat: add login --> now");
+    expect(isTitleEdited("feat: add login --> now", body)).toBe(false);
+    expect(isTitleEdited("Login page (needs design review)", body)).toBe(true);
+    expect(isTitleEdited("feat: add login", "No markers")).toBe(true);
+  });
+});
@@ -41,7 +41,7 @@ describe("generate-pr-complete tool", () => {
     expect(result.title).toBe("feat(auth): add OAuth support");
     expect(result.description).toContain("## Description");
     expect(result.description).toContain("**What does this PR change or add?**");
-    expect(result.description).toContain("- adds s add OAuth support");
+    expect(result.description).toContain("- adds OAuth support");
   });
 
   it("should generate title and description with custom template", async () => {
@@ -62,7 +62,7 @@ describe("generate-pr-complete tool", () => {
 
     expect(result.title).toBe("feat(auth): add OAuth support");
     expect(result.description).toContain("**What does this PR change or add?**");
-    expect(result.description).toContain("- adds s add OAuth support");
+    expect(result.description).toContain("- adds OAuth support");
     expect(result.description).not.toContain("Cette PR");
   });
 
@@ -109,7 +109,7 @@ describe("generate-pr-complete tool", () => {
 
     await executeGenerateComplete("standard", "fr", true, undefined, "develop");
 
-    expect(analyzer.analyzeBranch).toHaveBeenCalledWith("develop", true);
+    expect(analyzer.analyzeBranch).toHaveBeenCalledWith("develop", true, undefined);
   });
 
   it("should use auto-detected baseBranch when not provided", async () => {
@@ -117,7 +117,7 @@ describe("generate-pr-complete tool", () => {
 
     await executeGenerateComplete();
 
-    expect(analyzer.analyzeBranch).toHaveBeenCalledWith(undefined, true);
+    expect(analyzer.analyzeBranch).toHaveBeenCalledWith(undefined, true, undefined);
   });
 
   it("should infer 'chore' as fallback type for title", async () => {
@@ -190,7 +190,7 @@ describe("generate-pr-complete tool", () => {
 
     expect(result.title).toBe("feat(api): add new API endpoint");
     expect(result.description).toContain("**What does this PR change or add?**");
-    expect(result.description).toContain("- adds s add new API endpoint");
+    expect(result.description).toContain("- adds new API endpoint");
   });
 
   it("should use child directory as scope in monorepo with apps/", async () => {
@@ -228,4 +228,20 @@ describe("generate-pr-complete tool", () => {
 
     expect(result.title).toBe("feat(utils): add shared utilities");
   });
+
+  it("should list related issues and prefix the title with the ticket key", async () => {
+    vi.mocked(analyzer.analyzeBranch).mockResolvedValue({
+      ...mockAnalysis,
+      issueReferences: [
+        { id: "AUTH-12", kind: "ticket" as const, source: "branch" as const, closing: false },
+        { id: "#42", kind: "github" as const, source: "commit" as const, closing: true },
+      ],
+    });
+
+    const result = await executeGenerateComplete("standard", "en", true, undefined, undefined, undefined, true);
+
+    expect(result.title).toBe("[AUTH-12] feat(auth): add OAuth support");
+    expect(result.description).toContain("**Related issues:**");
+    expect(result.description).toContain("- #42 (closed by this PR)");
+  });
 });
@@ -109,7 +109,7 @@ describe("generate-pr-description tool (simple/fallback)", () => {
 
     await executeGeneratePRSimple(undefined, "standard", "fr", true, "develop");
 
-    expect(analyzer.analyzeBranch).toHaveBeenCalledWith("develop", true);
+    expect(analyzer.analyzeBranch).toHaveBeenCalledWith("develop", true, undefined);
   });
 
   it("should throw error on analysis failure", async () => {
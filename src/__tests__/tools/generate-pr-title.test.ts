@@ -1,7 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { executeGenerateTitle } from "../../tools/generate-pr-title.tool.js";
+import { executeGenerateTitle, executeGenerateTitleSimple } from "../../tools/generate-pr-title.tool.js";
 import * as analyzer from "../../core/git/analyzer.js";
-import * as repository from "../../core/git/repository.js";
 import * as projectContext from "../../core/context/project-context.js";
 
 vi.mock("../../core/git/analyzer.js");
@@ -12,9 +11,6 @@ describe("generate-pr-title tool", () => {
   beforeEach(() => {
     vi.clearAllMocks();
 
-    // Mock git.diff to return empty diff
-    vi.mocked(repository.git.diff).mockResolvedValue("");
-
     // Mock project context
     vi.mocked(projectContext.gatherProjectContext).mockResolvedValue({
       hasTypeScript: true,
@@ -217,4 +213,28 @@ describe("generate-pr-title tool", () => {
     expect(result).toContain("feat");
     expect(result).toContain("utils");
   });
+
+  it("should prefix the ticket key before shortening simple titles", async () => {
+    const mockAnalysis = {
+      currentBranch: "feat/AUTH-12-login",
+      baseBranch: "main",
+      totalCommits: 1,
+      commits: [
+        { hash: "abc123", message: "feat(auth): add OAuth support for enterprise accounts", author: "John", date: "2025-01-01" },
+      ],
+      filesChanged: 1,
+      insertions: 30,
+      deletions: 0,
+      filesList: [{ file: "auth/oauth.ts", changes: 30, insertions: 30, deletions: 0 }],
+      commitTypes: ["feature"],
+      diffStats: "",
+      issueReferences: [{ id: "AUTH-12", kind: "ticket" as const, source: "branch" as const, closing: false }],
+    };
+
+    vi.mocked(analyzer.analyzeBranch).mockResolvedValue(mockAnalysis);
+
+    const result = await executeGenerateTitleSimple(40, undefined, undefined, true);
+    expect(result).toBe("[AUTH-12] feat(auth): add OAuth suppo...");
+    expect(result.length).toBeLessThanOrEqual(40);
+  });
 });
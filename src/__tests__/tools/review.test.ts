@@ -1,14 +1,34 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { executeReview } from "../../tools/review.tool.js";
 import * as analyzer from "../../core/git/analyzer.js";
-import * as repository from "../../core/git/repository.js";
+import { DiffFile } from "../../core/git/types.js";
 
 vi.mock("../../core/git/analyzer.js");
-vi.mock("../../core/git/repository.js", () => ({
-  git: {
-    diff: vi.fn(),
-  },
-}));
+
+function addedFile(path: string, lines: string[]): DiffFile {
+  return {
+    path,
+    status: "modified",
+    isBinary: false,
+    modeChanged: false,
+    additions: lines.length,
+    deletions: 0,
+    hunks: [
+      {
+        header: `@@ -1,0 +1,${lines.length} @@`,
+        oldStart: 1,
+        oldLines: 0,
+        newStart: 1,
+        newLines: lines.length,
+        lines: lines.map((content, index) => ({
+          type: "add" as const,
+          content,
+          newLineNumber: index + 1,
+        })),
+      },
+    ],
+  };
+}
 
 describe("review tool", () => {
   beforeEach(() => {
@@ -37,7 +57,6 @@ describe("review tool", () => {
     };
 
     vi.mocked(analyzer.analyzeBranch).mockResolvedValue(mockAnalysis);
-    vi.mocked(repository.git.diff).mockResolvedValue("clean diff without issues");
 
     const result = await executeReview();
 
@@ -71,7 +90,6 @@ describe("review tool", () => {
     };
 
     vi.mocked(analyzer.analyzeBranch).mockResolvedValue(mockAnalysis);
-    vi.mocked(repository.git.diff).mockResolvedValue("some clean diff");
 
     const result = await executeReview();
 
@@ -97,12 +115,10 @@ describe("review tool", () => {
       commitTypes: ["feature"],
       diffStats: "",
       hasTests: true,
+      diffFiles: [addedFile("src/debug.ts", ["function test() { console.log('debug'); }"])],
     };
 
     vi.mocked(analyzer.analyzeBranch).mockResolvedValue(mockAnalysis);
-    vi.mocked(repository.git.diff).mockResolvedValue(
-      "function test() { console.log('debug'); }"
-    );
 
     const result = await executeReview();
 
@@ -129,10 +145,10 @@ describe("review tool", () => {
       diffStats: "",
       hasBreakingChanges: true,
       hasTests: true,
+      diffFiles: [addedFile("src/api.ts", ["// BREAKING CHANGE: API removed"])],
     };
 
     vi.mocked(analyzer.analyzeBranch).mockResolvedValue(mockAnalysis);
-    vi.mocked(repository.git.diff).mockResolvedValue("BREAKING CHANGE: API removed");
 
     const result = await executeReview();
 
@@ -158,12 +174,10 @@ describe("review tool", () => {
       commitTypes: ["feature"],
       diffStats: "",
       hasTests: true,
+      diffFiles: [addedFile("src/feature.ts", ["// TODO: implement this later", "function incomplete() {}"])],
     };
 
     vi.mocked(analyzer.analyzeBranch).mockResolvedValue(mockAnalysis);
-    vi.mocked(repository.git.diff).mockResolvedValue(
-      "// TODO: implement this later\nfunction incomplete() {}"
-    );
 
     const result = await executeReview();
 
@@ -192,7 +206,6 @@ describe("review tool", () => {
     };
 
     vi.mocked(analyzer.analyzeBranch).mockResolvedValue(mockAnalysis);
-    vi.mocked(repository.git.diff).mockResolvedValue("large diff content");
 
     const result = await executeReview();
 
@@ -222,10 +235,35 @@ describe("review tool", () => {
     };
 
     vi.mocked(analyzer.analyzeBranch).mockResolvedValue(mockAnalysis);
-    vi.mocked(repository.git.diff).mockResolvedValue("clean diff");
 
     await executeReview("develop");
 
-    expect(analyzer.analyzeBranch).toHaveBeenCalledWith("develop", true);
+    expect(analyzer.analyzeBranch).toHaveBeenCalledWith("develop", true, undefined);
+  });
+
+  it("should forward the analysis source", async () => {
+    const mockAnalysis = {
+      currentBranch: "feature/auth",
+      baseBranch: "HEAD",
+      source: "staged" as const,
+      totalCommits: 0,
+      commits: [],
+      filesChanged: 1,
+      insertions: 10,
+      deletions: 0,
+      filesList: [
+        { file: "src/auth.ts", changes: 10, insertions: 10, deletions: 0 },
+      ],
+      commitTypes: [],
+      diffStats: "",
+      hasTests: false,
+    };
+
+    vi.mocked(analyzer.analyzeBranch).mockResolvedValue(mockAnalysis);
+
+    const result = await executeReview(undefined, undefined, { source: "staged" });
+
+    expect(analyzer.analyzeBranch).toHaveBeenCalledWith(undefined, true, { source: "staged" });
+    expect(result).toContain("**Branch**: staged changes on feature/auth");
   });
 });
@@ -5,6 +5,7 @@ import {
   SuggestReviewersSchema,
   ReviewSchema,
   TitleSchema,
+  MergePRSchema,
 } from "../../validation/schemas.js";
 
 describe("Validation Schemas", () => {
@@ -22,6 +23,16 @@ describe("Validation Schemas", () => {
       const result = AnalyzeBranchSchema.parse({});
       expect(result.baseBranch).toBeUndefined();
       expect(result.detailed).toBe(true);
+      expect(result.source).toBe("branch");
+    });
+
+    it("should accept staged source", () => {
+      const result = AnalyzeBranchSchema.parse({ source: "staged" });
+      expect(result.source).toBe("staged");
+    });
+
+    it("should reject invalid source", () => {
+      expect(() => AnalyzeBranchSchema.parse({ source: "stash" })).toThrow();
     });
   });
 
@@ -119,4 +130,18 @@ describe("Validation Schemas", () => {
       expect(() => TitleSchema.parse({ maxLength: -10 })).toThrow();
     });
   });
+
+  describe("MergePRSchema", () => {
+    it("should use defaults", () => {
+      const result = MergePRSchema.parse({});
+      expect(result.number).toBeUndefined();
+      expect(result.mergeMethod).toBe("squash");
+      expect(result.deleteBranch).toBe(false);
+      expect(result.requiredApprovals).toBe(0);
+    });
+
+    it("should reject invalid merge methods", () => {
+      expect(() => MergePRSchema.parse({ mergeMethod: "fast-forward" })).toThrow();
+    });
+  });
 });
@@ -63,6 +63,8 @@ export interface ProjectContext {
 
   // Package info (universal)
   packageName?: string;
+  packageVersion?: string;
+  versionFile?: string; // manifest the version was read from (package.json, Cargo.toml, ...)
   dependencies: Record<string, string>;
   devDependencies: Record<string, string>;
 
@@ -349,6 +351,98 @@ async function getProjectStructure(workingDir: string): Promise<string[]> {
   return structure.slice(0, 50); // Limit total entries
 }
 
+/**
+ * Reads a `key = "value"` entry from one of the given TOML tables
+ */
+function readTomlValue(content: string, tables: string[], key: string): string | undefined {
+  let currentTable = "";
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    const table = trimmed.match(/^\[([^\]]+)\]$/);
+    if (table) {
+      currentTable = table[1].trim();
+      continue;
+    }
+    if (!tables.includes(currentTable)) continue;
+
+    const entry = trimmed.match(/^([\w.-]+)\s*=\s*["']([^"']*)["']/);
+    if (entry && entry[1] === key) {
+      return entry[2];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Detects the project version from the first manifest that declares one
+ */
+async function detectProjectVersion(
+  workingDir: string
+): Promise<{ version?: string; file?: string }> {
+  const jsonManifests = ["package.json", "composer.json"];
+  for (const file of jsonManifests) {
+    const manifest = await readJsonFile(path.join(workingDir, file));
+    if (typeof manifest?.version === "string") {
+      return { version: manifest.version, file };
+    }
+  }
+
+  const tomlManifests: Array<{ file: string; tables: string[] }> = [
+    { file: "Cargo.toml", tables: ["package", "workspace.package"] },
+    { file: "pyproject.toml", tables: ["project", "tool.poetry"] },
+  ];
+  for (const { file, tables } of tomlManifests) {
+    try {
+      const content = await fs.readFile(path.join(workingDir, file), "utf-8");
+      const version = readTomlValue(content, tables, "version");
+      if (version) {
+        return { version, file };
+      }
+    } catch {
+      // Manifest not present
+    }
+  }
+
+  const textManifests: Array<{ file: string; pattern: RegExp }> = [
+    { file: "setup.cfg", pattern: /^version\s*=\s*(\S+)/m },
+    { file: "setup.py", pattern: /version\s*=\s*["']([^"']+)["']/ },
+    { file: "build.gradle", pattern: /^version\s*=?\s*["']([^"']+)["']/m },
+    { file: "build.gradle.kts", pattern: /^version\s*=\s*"([^"]+)"/m },
+    { file: "gradle.properties", pattern: /^version\s*=\s*(\S+)/m },
+    { file: "mix.exs", pattern: /version:\s*"([^"]+)"/ },
+    { file: "VERSION", pattern: /^\s*v?(\d+\.\d+\.\d+\S*)/ },
+  ];
+  for (const { file, pattern } of textManifests) {
+    try {
+      const content = await fs.readFile(path.join(workingDir, file), "utf-8");
+      const match = content.match(pattern);
+      if (match) {
+        return { version: match[1], file };
+      }
+    } catch {
+      // Manifest not present
+    }
+  }
+
+  // Maven: the project's own <version>, not the parent's or a dependency's
+  try {
+    const pom = await fs.readFile(path.join(workingDir, "pom.xml"), "utf-8");
+    const projectPom = pom
+      .replace(/<parent>[\s\S]*?<\/parent>/, "")
+      .replace(/<dependencies>[\s\S]*?<\/dependencies>/g, "")
+      .replace(/<build>[\s\S]*?<\/build>/, "");
+    const match = projectPom.match(/<version>([^<]+)<\/version>/);
+    // Versions set through properties (${revision}) can't be resolved here
+    if (match && !match[1].includes("${")) {
+      return { version: match[1].trim(), file: "pom.xml" };
+    }
+  } catch {
+    // Not a Maven project
+  }
+
+  return {};
+}
+
 export async function gatherProjectContext(
   workingDir: string = process.cwd()
 ): Promise<ProjectContext> {
@@ -361,10 +455,13 @@ export async function gatherProjectContext(
   const hasDocs = await fileExists(path.join(workingDir, "docs"));
   const hasContributing = await fileExists(path.join(workingDir, "CONTRIBUTING.md"));
   const projectStructure = await getProjectStructure(workingDir);
+  const projectVersion = await detectProjectVersion(workingDir);
 
   // Language-specific detection
   let context: Partial<ProjectContext> = {
     language,
+    packageVersion: projectVersion.version,
+    versionFile: projectVersion.file,
     hasADR,
     hasDocs,
     hasContributing,
@@ -0,0 +1,41 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { LabelRules } from "../git/labels.js";
+import { ReviewerExclusionRules } from "../git/reviewer-filters.js";
+
+/**
+ * Repository-level settings, committed with the code
+ */
+export const REPO_CONFIG_PATH = ".github/pr-mcp.json";
+
+export interface RepoConfig {
+  // Git author email → GitHub login, for people whose login can't be derived from their commits
+  identities?: Record<string, string>;
+  // Accounts that are never suggested as reviewers, see reviewer-filters.ts
+  reviewers?: ReviewerExclusionRules;
+  // Labels added to created PRs, see labels.ts
+  labels?: LabelRules;
+}
+
+/**
+ * Reads REPO_CONFIG_PATH from the repository, or returns an empty config when there is none
+ */
+export async function loadRepoConfig(workingDir: string = process.cwd()): Promise<RepoConfig> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(workingDir, REPO_CONFIG_PATH), "utf-8");
+  } catch {
+    return {};
+  }
+
+  try {
+    const config = JSON.parse(content) as RepoConfig;
+    const identities = Object.fromEntries(
+      Object.entries(config.identities ?? {}).map(([email, login]) => [email.toLowerCase(), String(login).replace(/^@/, "")])
+    );
+    return { ...config, identities };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid ${REPO_CONFIG_PATH}: ${errorMessage}`);
+  }
+}
@@ -1,40 +1,72 @@
 import { DiffResultTextFile } from "simple-git";
-import { detectMainBranch, createGitInstance } from "./repository.js";
-import { AnalysisResult, ReviewersResult } from "./types.js";
+import { createGitInstance, getGitHubRepoInfo, GitHubRepoInfo } from "./repository.js";
+import {
+  AnalysisResult,
+  AnalysisScope,
+  DiffResult,
+  ExcludedReviewer,
+  FileOwnership,
+  ReviewerSuggestion,
+  ReviewersResult,
+  UnresolvedIdentity,
+} from "./types.js";
+import { parseUnifiedDiff } from "./diff-parser.js";
+import { resolveComparison } from "./comparison.js";
+import { parseCommitMessage } from "./commit-parser.js";
+import { collectIssueReferences } from "./issue-references.js";
+import { ownersForFile, readCodeOwners } from "./codeowners.js";
+import { FileContributions, parseBlamePorcelain, scoreContributors, touchedLineRanges } from "./reviewer-scoring.js";
+import {
+  applyMailmap,
+  CommitAuthorLookup,
+  createGitHubCommitLookup,
+  formatIdentity,
+  noreplyLogin,
+  resolveIdentity,
+} from "./identities.js";
+import { createExclusionFilter, createGitHubMembershipCheck, ReviewerCandidate } from "./reviewer-filters.js";
+import { balanceByLoad, fetchOpenReviewRequests, LOAD_BALANCING_POOL, rotateCandidates } from "./reviewer-load.js";
+import { loadRepoConfig, REPO_CONFIG_PATH } from "../context/repo-config.js";
+
+// Labels reported in AnalysisResult.commitTypes
+const COMMIT_TYPE_LABELS: Record<string, string> = {
+  feat: "feature",
+  fix: "fix",
+  refactor: "refactor",
+  perf: "perf",
+  docs: "documentation",
+  test: "test",
+};
 
 export async function analyzeBranch(
   baseBranch?: string,
-  detailed: boolean = true
+  detailed: boolean = true,
+  scope?: AnalysisScope
 ): Promise<AnalysisResult> {
   try {
     const workingDir = process.cwd();
     const workingGit = createGitInstance(workingDir);
-    const detectedBaseBranch = baseBranch || await detectMainBranch(workingDir);
-    
-    const currentBranch = await workingGit.revparse(["--abbrev-ref", "HEAD"]);
-    const logs = await workingGit.log([`${detectedBaseBranch}..${currentBranch}`]);
-    const diff = await workingGit.diff([`${detectedBaseBranch}...${currentBranch}`, "--stat"]);
-    const diffSummary = await workingGit.diffSummary([
-      `${detectedBaseBranch}...${currentBranch}`,
-    ]);
-
-    const commitTypes = logs.all.map((commit) => {
-      const message = commit.message.toLowerCase();
-      if (message.startsWith("fix")) return "fix";
-      if (message.startsWith("feat")) return "feature";
-      if (message.startsWith("refactor")) return "refactor";
-      if (message.startsWith("docs")) return "documentation";
-      if (message.startsWith("test")) return "test";
-      return "other";
-    });
+    const comparison = await resolveComparison(workingGit, workingDir, baseBranch, scope);
+
+    const logs = comparison.logRange
+      ? await workingGit.log([comparison.logRange])
+      : { total: 0, all: [] };
+    const diff = await workingGit.diff([...comparison.diffArgs, "--stat"]);
+    const diffSummary = await workingGit.diffSummary(comparison.diffArgs);
+
+    const parsedCommits = logs.all.map((commit) => parseCommitMessage(commit.message, commit.body));
+    const commitTypes = parsedCommits.map((commit) => COMMIT_TYPE_LABELS[commit.type ?? ""] ?? "other");
 
     const analysis: AnalysisResult = {
-      currentBranch: currentBranch.trim(),
-      baseBranch: detectedBaseBranch,
+      currentBranch: comparison.currentBranch,
+      baseBranch: comparison.baseBranch,
+      source: comparison.source,
+      mergeBase: comparison.mergeBase,
       totalCommits: logs.total,
       commits: logs.all.map((c) => ({
         hash: c.hash.substring(0, 7),
         message: c.message,
+        body: c.body || undefined,
         author: c.author_name,
         date: c.date,
       })),
@@ -54,9 +86,12 @@ export async function analyzeBranch(
       diffStats: diff,
     };
 
+    analysis.issueReferences = collectIssueReferences(comparison.currentBranch, analysis.commits);
+
     if (detailed) {
-      const fullDiff = await workingGit.diff([`${detectedBaseBranch}...${currentBranch}`]);
-      analysis.hasBreakingChanges = fullDiff.includes("BREAKING CHANGE");
+      const fullDiff = await workingGit.diff(comparison.diffArgs);
+      analysis.hasBreakingChanges = parsedCommits.some((c) => c.breaking);
+      analysis.diffFiles = parseUnifiedDiff(fullDiff);
       analysis.hasTests = diffSummary.files.some(
         (f) => f.file.includes("test") || f.file.includes("spec")
       );
@@ -70,53 +105,64 @@ export async function analyzeBranch(
 }
 
 /**
- * Extract GitHub username from git email or name
+ * Returns the structured diff (files → hunks → lines) for the requested source
+ * (by default between the base branch and HEAD)
  */
-function extractGitHubUsername(email: string, name: string): string | null {
-  // Try to extract from GitHub email formats:
-  // - username@users.noreply.github.com
-  // - 12345+username@users.noreply.github.com
-  const noreplyMatch = email.match(/(?:\d+\+)?([^@]+)@users\.noreply\.github\.com/);
-  if (noreplyMatch) {
-    return noreplyMatch[1];
-  }
-  
-  // Try to extract username from email local part (best effort)
-  // e.g., john.doe@company.com -> johndoe (without separators first, then with hyphen)
-  const emailLocal = email.split('@')[0];
-  if (emailLocal && emailLocal.length > 0) {
-    // GitHub usernames: Try without separators first (most common)
-    const withoutSeparators = emailLocal.replace(/[^a-zA-Z0-9]/g, '').toLowerCase();
-    if (withoutSeparators && withoutSeparators.length >= 3) {
-      return withoutSeparators;
-    }
-    
-    // Fallback: use hyphens for separators
-    const withHyphens = emailLocal.replace(/[^a-zA-Z0-9-]/g, '-').toLowerCase();
-    if (withHyphens) {
-      return withHyphens;
+export async function getBranchDiff(
+  baseBranch?: string,
+  paths?: string[],
+  scope?: AnalysisScope
+): Promise<DiffResult> {
+  try {
+    const workingDir = process.cwd();
+    const workingGit = createGitInstance(workingDir);
+    const comparison = await resolveComparison(workingGit, workingDir, baseBranch, scope);
+
+    const diffArgs = [...comparison.diffArgs];
+    if (paths && paths.length > 0) {
+      diffArgs.push("--", ...paths);
     }
+    const rawDiff = await workingGit.diff(diffArgs);
+
+    return {
+      currentBranch: comparison.currentBranch,
+      baseBranch: comparison.baseBranch,
+      source: comparison.source,
+      files: parseUnifiedDiff(rawDiff),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Error getting branch diff: ${errorMessage}`);
   }
-  
-  // Fallback: try to use the name (remove spaces, no hyphens)
-  const nameWithoutSpaces = name.replace(/\s+/g, '').toLowerCase();
-  if (nameWithoutSpaces && nameWithoutSpaces.length >= 3) {
-    return nameWithoutSpaces;
-  }
-  
-  // Last resort: use hyphens
-  return name.replace(/\s+/g, '-').toLowerCase();
 }
 
+export interface SuggestReviewersOptions {
+  // Used to look up the GitHub login of commit authors (defaults to GITHUB_TOKEN)
+  githubToken?: string;
+  // Added to the deny list of the repository configuration
+  exclude?: string[];
+  // Replaces the organizations/teams of the repository configuration
+  onlyMembersOf?: string[];
+  // Favor candidates with fewer open review requests (round-robin on the branch name without a token)
+  balanceLoad?: boolean;
+  // GitHub repository the PR targets, for logins, memberships and review load (defaults to origin)
+  repository?: GitHubRepoInfo;
+}
+
+// GitHub commit lookups per call, to stay well within rate limits
+const MAX_LOGIN_LOOKUPS = 10;
+
 export async function suggestReviewers(
   limit: number = 3,
-  baseBranch?: string
+  baseBranch?: string,
+  scope?: AnalysisScope,
+  options: SuggestReviewersOptions = {}
 ): Promise<ReviewersResult> {
   try {
-    const analysis = await analyzeBranch(baseBranch);
+    const analysis = await analyzeBranch(baseBranch, true, scope);
     const workingDir = process.cwd();
     const workingGit = createGitInstance(workingDir);
-    const fileAuthors = new Map<string, { email: string; name: string; count: number }>();
+    const config = await loadRepoConfig(workingDir);
 
     if (analysis.filesList.length === 0) {
       return {
@@ -126,73 +172,260 @@ export async function suggestReviewers(
       };
     }
 
-    const filesToAnalyze = analysis.filesList.slice(0, 10);
-    let totalCommitsAnalyzed = 0;
+    // Required owners from CODEOWNERS come first
+    const codeOwnersFile = await readCodeOwners(workingGit, workingDir, analysis.baseBranch);
+    const codeOwners: FileOwnership[] = codeOwnersFile
+      ? analysis.filesList.map((file) => ({ file: file.file, owners: ownersForFile(codeOwnersFile.rules, file.file) }))
+      : [];
+    const token = options.githubToken || process.env.GITHUB_TOKEN;
+    let githubRepository: Promise<GitHubRepoInfo> | undefined;
+    const getGitHubRepository = () =>
+      (githubRepository ??= options.repository ? Promise.resolve(options.repository) : getGitHubRepoInfo(workingDir));
 
-    for (const file of filesToAnalyze) {
+    // Bots, denied accounts and non-members are left out before ranking
+    const isExcluded = createExclusionFilter({
+      ...config.reviewers,
+      exclude: [...(config.reviewers?.exclude ?? []), ...(options.exclude ?? [])],
+    });
+    const memberGroups = options.onlyMembersOf ?? config.reviewers?.onlyMembersOf ?? [];
+    const isMember = memberGroups.length > 0 && token ? createGitHubMembershipCheck(token, getGitHubRepository) : undefined;
+    let membershipNote = memberGroups.length > 0 && !token
+      ? ` Membership of ${memberGroups.join(", ")} was not checked (no GitHub token).`
+      : "";
+    const excluded = new Map<string, ExcludedReviewer>();
+    const exclude = (candidate: ReviewerCandidate, reason: string) => {
+      const key = (candidate.email || candidate.login || candidate.name || "").toLowerCase();
+      if (!excluded.has(key)) excluded.set(key, { ...candidate, reason });
+    };
+    const exclusionReason = async (candidate: ReviewerCandidate): Promise<string | undefined> => {
+      const reason = isExcluded(candidate);
+      if (reason || !isMember || !candidate.login) return reason;
       try {
-        // Get commit history for this file with author info
-        const log = await workingGit.log(["--follow", file.file]);
-        
-        if (log.all && log.all.length > 0) {
-          totalCommitsAnalyzed += log.all.length;
-          
-          log.all.forEach((commit) => {
-            // Use native simple-git fields
-            const name = commit.author_name;
-            const email = commit.author_email;
-            
-            if (name && email) {
-              const key = `${name}|${email}`;
-              const existing = fileAuthors.get(key);
-              if (existing) {
-                existing.count++;
-              } else {
-                fileAuthors.set(key, { email, name, count: 1 });
-              }
-            }
-          });
-        }
+        const memberships = await Promise.all(memberGroups.map((group) => isMember(candidate.login!, group)));
+        return memberships.some(Boolean) ? undefined : `Not a member of ${memberGroups.join(" or ")}`;
+      } catch (membershipError) {
+        // Don't drop people because the check failed
+        const errorMessage = membershipError instanceof Error ? membershipError.message : String(membershipError);
+        membershipNote = ` Membership could not be checked: ${errorMessage}.`;
+        return undefined;
+      }
+    };
+
+    const ownerSuggestions: ReviewerSuggestion[] = [];
+    for (const owner of codeOwnerSuggestions(codeOwners, config.identities)) {
+      const reason = owner.team ? undefined : await exclusionReason({ login: owner.author });
+      if (reason) exclude({ login: owner.author }, reason);
+      else ownerSuggestions.push(owner);
+    }
+
+    // Adds the code owners and the exclusions to a history-based result
+    const complete = (result: ReviewersResult): ReviewersResult => {
+      if (excluded.size > 0) {
+        result = {
+          ...result,
+          basedOn: `${result.basedOn} ${excluded.size} candidate(s) excluded by the reviewer rules.`,
+          excludedReviewers: Array.from(excluded.values()),
+        };
+      }
+      if (membershipNote) {
+        result = { ...result, basedOn: `${result.basedOn}${membershipNote}` };
+      }
+      if (!codeOwnersFile) return result;
+
+      const ownedFiles = codeOwners.filter((c) => c.owners.length > 0).length;
+      const ownerLogins = new Set(ownerSuggestions.map((r) => r.author.toLowerCase()));
+      const history = result.suggestedReviewers.filter((r) => !ownerLogins.has(r.author.toLowerCase()));
+      return {
+        ...result,
+        // Owners are required anyway: keep them all, history fills the remaining slots
+        suggestedReviewers: [...ownerSuggestions, ...history.slice(0, Math.max(0, limit - ownerSuggestions.length))],
+        basedOn: `${codeOwnersFile.path}: ${ownerSuggestions.length} owner(s) for ${ownedFiles} of ${codeOwners.length} modified file(s). ${result.basedOn}`,
+        error: ownerSuggestions.length > 0 ? undefined : result.error,
+        codeOwnersFile: codeOwnersFile.path,
+        codeOwners,
+      };
+    };
+
+    // Ownership is measured on the version the branch started from, without the branch's own commits
+    const baseRef = analysis.mergeBase ?? "HEAD";
+    const diffFiles = new Map((analysis.diffFiles ?? []).map((f) => [f.path, f]));
+    const files: FileContributions[] = [];
+
+    for (const file of analysis.filesList) {
+      const diffFile = diffFiles.get(file.file);
+      const basePath = diffFile?.oldPath ?? file.file;
+      const contributions: FileContributions = { file: file.file, blame: [], commits: [] };
+
+      try {
+        const log = await workingGit.log(["--follow", baseRef, "--", basePath]);
+        contributions.commits = (log.all ?? [])
+          .filter((commit) => commit.author_name && commit.author_email)
+          .map((commit) => ({
+            name: commit.author_name,
+            email: commit.author_email,
+            date: commit.date ? new Date(commit.date) : undefined,
+            hash: commit.hash,
+          }));
       } catch (fileError) {
         // Skip files that cause errors (might be new files)
         console.warn(`Could not analyze history for ${file.file}: ${fileError}`);
       }
+
+      const ranges = diffFile ? touchedLineRanges(diffFile) : [];
+      if (ranges.length > 0) {
+        try {
+          const blame = await workingGit.raw([
+            "blame",
+            "--line-porcelain",
+            "-w",
+            ...ranges.flatMap(([start, end]) => ["-L", `${start},${end}`]),
+            baseRef,
+            "--",
+            basePath,
+          ]);
+          contributions.blame = parseBlamePorcelain(blame || "");
+        } catch (blameError) {
+          console.warn(`Could not blame ${file.file}: ${blameError}`);
+        }
+      }
+
+      files.push(contributions);
     }
 
-    if (totalCommitsAnalyzed === 0) {
-      return {
+    const totalCommitsAnalyzed = files.reduce((sum, f) => sum + f.commits.length, 0);
+    const totalBlamedLines = files.reduce((sum, f) => sum + f.blame.length, 0);
+
+    if (totalCommitsAnalyzed === 0 && totalBlamedLines === 0) {
+      return complete({
         suggestedReviewers: [],
-        basedOn: `Analyzed ${filesToAnalyze.length} file(s), but found no Git history (likely new files)`,
+        basedOn: `Analyzed ${files.length} file(s), but found no Git history (likely new files)`,
         error: "No commit history found for modified files",
-      };
+      });
     }
 
-    const sorted = Array.from(fileAuthors.values())
-      .sort((a, b) => b.count - a.count)
-      .slice(0, limit);
+    // Merge the addresses people committed with, per .mailmap
+    const mailmap = await applyMailmap(
+      workingGit,
+      files.flatMap((f) => [...f.blame, ...f.commits])
+    );
+    for (const contribution of files.flatMap((f) => [...f.blame, ...f.commits])) {
+      Object.assign(contribution, mailmap.get(formatIdentity(contribution)));
+    }
 
-    if (sorted.length === 0) {
-      return {
+    // Excluded contributors' lines and commits are dropped, not just their suggestion,
+    // so the file's weight goes to the people who can review it
+    const kept = ({ name, email }: { name: string; email: string }) => {
+      const reason = isExcluded({ name, email });
+      if (reason) exclude({ name, email }, reason);
+      return !reason;
+    };
+    for (const file of files) {
+      file.blame = file.blame.filter(kept);
+      file.commits = file.commits.filter(kept);
+    }
+
+    const scored = scoreContributors(files);
+
+    if (scored.length === 0) {
+      return complete({
         suggestedReviewers: [],
-        basedOn: `Analyzed ${totalCommitsAnalyzed} commit(s) from ${filesToAnalyze.length} file(s), but no valid contributors found`,
+        basedOn: `Analyzed ${totalCommitsAnalyzed} commit(s) from ${files.length} file(s), but no valid contributors found`,
         error: "No valid contributors extracted from Git history",
-      };
+      });
     }
 
-    return {
-      suggestedReviewers: sorted.map((author) => {
-        const username = extractGitHubUsername(author.email, author.name);
-        return {
-          author: username || author.name,
-          contributions: author.count,
-          reason: `Contributed ${author.count} times to modified files (${author.email})`,
-        };
-      }),
-      basedOn: `Analyzed ${totalCommitsAnalyzed} commit(s) from ${Math.min(
-        10,
-        analysis.filesList.length
-      )} modified file(s)`,
-    };
+    // Only suggest people whose GitHub login is known, report the others
+    let lookup: CommitAuthorLookup | undefined;
+    let lookupNote = "";
+    if (token) {
+      try {
+        lookup = createGitHubCommitLookup(token, await getGitHubRepository());
+      } catch (lookupError) {
+        lookupNote = ` GitHub login lookup unavailable: ${lookupError instanceof Error ? lookupError.message : String(lookupError)}.`;
+      }
+    }
+
+    let lookups = 0;
+    const countedLookup: CommitAuthorLookup | undefined = lookup
+      ? (commitHash) => {
+          lookups++;
+          return lookup!(commitHash);
+        }
+      : undefined;
+
+    let suggestedReviewers: ReviewerSuggestion[] = [];
+    const unresolvedIdentities: UnresolvedIdentity[] = [];
+    // Balancing picks among more candidates than it suggests
+    const poolSize = options.balanceLoad ? limit * LOAD_BALANCING_POOL : limit;
+
+    for (const { name, email, hash, score } of scored) {
+      if (suggestedReviewers.length >= poolSize) break;
+
+      const identity = await resolveIdentity(
+        { name, email },
+        config.identities,
+        lookups < MAX_LOGIN_LOOKUPS ? countedLookup : undefined,
+        hash
+      );
+
+      if (!identity.login) {
+        unresolvedIdentities.push({ name, email, score: score.total });
+        continue;
+      }
+      // Same person committing with another address
+      if (suggestedReviewers.some((r) => r.author.toLowerCase() === identity.login!.toLowerCase())) continue;
+
+      const reason = await exclusionReason({ name, email, login: identity.login });
+      if (reason) {
+        exclude({ name, email, login: identity.login }, reason);
+        continue;
+      }
+
+      const lastActive = score.lastActive ? `, last active ${score.lastActive.slice(0, 10)}` : "";
+      suggestedReviewers.push({
+        author: identity.login,
+        contributions: score.commits,
+        reason: `Last changed ${score.blamedLines} touched line(s) and made ${score.commits} commit(s) to ${score.files} modified file(s)${lastActive} (${email})`,
+        source: "history",
+        resolvedBy: identity.resolvedBy,
+        score,
+      });
+    }
+
+    let balanceNote = "";
+    if (options.balanceLoad && suggestedReviewers.length > 0) {
+      let openReviews: Map<string, number> | undefined;
+      if (token) {
+        try {
+          openReviews = await fetchOpenReviewRequests(token, await getGitHubRepository());
+        } catch (loadError) {
+          balanceNote = ` Review load unavailable (${loadError instanceof Error ? loadError.message : String(loadError)}).`;
+        }
+      }
+
+      if (openReviews) {
+        suggestedReviewers = balanceByLoad(suggestedReviewers, openReviews);
+        balanceNote = ` Balanced by open review requests among the top ${suggestedReviewers.length} candidate(s).`;
+      } else {
+        suggestedReviewers = rotateCandidates(suggestedReviewers, analysis.currentBranch);
+        balanceNote += ` Rotated among the top ${suggestedReviewers.length} candidate(s) by branch name${token ? "" : " (no GitHub token to check review load)"}.`;
+      }
+      suggestedReviewers = suggestedReviewers.slice(0, limit);
+    }
+
+    const unresolvedNote = unresolvedIdentities.length > 0
+      ? ` ${unresolvedIdentities.length} contributor(s) without a known GitHub login were skipped, map them in ${REPO_CONFIG_PATH}.`
+      : "";
+    return complete({
+      suggestedReviewers,
+      basedOn: `Scored ${totalBlamedLines} touched line(s) and ${totalCommitsAnalyzed} commit(s) from ${files.length} modified file(s), weighted by recency.${unresolvedNote}${lookupNote}${balanceNote}`,
+      error: suggestedReviewers.length === 0
+        ? unresolvedIdentities.length === 0 && excluded.size > 0
+          ? "Every candidate was excluded by the reviewer rules"
+          : "No contributor could be matched to a GitHub login"
+        : undefined,
+      unresolvedIdentities: unresolvedIdentities.length > 0 ? unresolvedIdentities : undefined,
+    });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     return {
@@ -202,3 +435,26 @@ export async function suggestReviewers(
     };
   }
 }
+
+/**
+ * One suggestion per CODEOWNERS owner ("@alice" → "alice", "@org/backend" → team "org/backend"),
+ * most owned files first. Email owners are mapped to logins when possible.
+ */
+function codeOwnerSuggestions(codeOwners: FileOwnership[], identities: Record<string, string> = {}) {
+  const files = new Map<string, string[]>();
+  for (const { file, owners } of codeOwners) {
+    for (const owner of owners) {
+      files.set(owner, [...(files.get(owner) ?? []), file]);
+    }
+  }
+
+  return Array.from(files.entries())
+    .sort((a, b) => b[1].length - a[1].length)
+    .map(([owner, ownedFiles]) => ({
+      author: owner.startsWith("@") ? owner.slice(1) : identities[owner.toLowerCase()] ?? noreplyLogin(owner) ?? owner,
+      contributions: ownedFiles.length,
+      reason: `Code owner of ${ownedFiles.length} modified file(s) (${ownedFiles.slice(0, 3).join(", ")}${ownedFiles.length > 3 ? ", ..." : ""})`,
+      source: "codeowners" as const,
+      team: owner.startsWith("@") && owner.includes("/") ? true : undefined,
+    }));
+}
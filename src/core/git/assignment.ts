@@ -0,0 +1,158 @@
+import { AssignmentResult, IssueReference } from "./types.js";
+import type { GitProvider, Milestone } from "../providers/types.js";
+
+// Assignees standing for the token's owner
+const SELF_ASSIGNEES = ["self", "@me"];
+
+// Milestone option picking the open milestone due next
+export const NEAREST_MILESTONE = "nearest";
+
+export interface AssignmentOptions {
+  // Logins, "self" for the token's owner
+  assignees?: string[];
+  // Milestone title, or "nearest" for the open milestone with the nearest due date
+  milestone?: string;
+  // Without a milestone, take the one of the first linked issue that has one (on unless false)
+  inheritMilestone?: boolean;
+}
+
+/**
+ * Assignees and milestone resolved against the repository, before the PR is written
+ */
+export interface Assignment {
+  assignees: string[];
+  milestone?: Milestone;
+  milestoneSource?: string;
+  notes: string[];
+}
+
+/**
+ * Open milestone due next: the earliest due date from today on. Overdue milestones and milestones
+ * without a due date are left out.
+ */
+export function nearestMilestone(milestones: Milestone[], now: Date = new Date()): Milestone | undefined {
+  const today = now.toISOString().slice(0, 10);
+  return milestones
+    .filter((milestone) => milestone.dueOn && milestone.dueOn.slice(0, 10) >= today)
+    .sort((a, b) => a.dueOn!.localeCompare(b.dueOn!))[0];
+}
+
+/**
+ * Issues of the repository a PR links to, those it closes first ("owner/repo#42" references are
+ * other repositories, and tickets have no milestone)
+ */
+export function linkedIssueNumbers(references: IssueReference[]): number[] {
+  const issues = references
+    .filter((reference) => reference.kind === "github" && /^#\d+$/.test(reference.id))
+    .sort((a, b) => Number(b.closing) - Number(a.closing))
+    .map((reference) => Number(reference.id.slice(1)));
+  return [...new Set(issues)];
+}
+
+const message = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Resolves "self" to the token's owner and the milestone option to an open milestone, or inherits
+ * the milestone of a linked issue. What can't be resolved is reported in notes rather than thrown.
+ */
+export async function resolveAssignment(
+  provider: GitProvider,
+  options: AssignmentOptions,
+  issueReferences: IssueReference[] = []
+): Promise<Assignment> {
+  const notes: string[] = [];
+
+  const assignees: string[] = [];
+  for (const assignee of options.assignees ?? []) {
+    let login = assignee.trim().replace(/^@(?!me$)/i, "");
+    if (SELF_ASSIGNEES.includes(login.toLowerCase())) {
+      try {
+        login = await provider.currentUser();
+      } catch (error) {
+        notes.push(`Could not resolve "${assignee}": ${message(error)}`);
+        continue;
+      }
+    }
+    if (login && !assignees.some((a) => a.toLowerCase() === login.toLowerCase())) assignees.push(login);
+  }
+
+  const wanted = options.milestone?.trim();
+  if (wanted) {
+    let milestones: Milestone[];
+    try {
+      milestones = await provider.listMilestones();
+    } catch (error) {
+      notes.push(`Could not list the repository's milestones: ${message(error)}`);
+      return { assignees, notes };
+    }
+
+    if (wanted.toLowerCase() === NEAREST_MILESTONE) {
+      const milestone = nearestMilestone(milestones);
+      if (milestone) return { assignees, milestone, milestoneSource: "nearest due date", notes };
+      notes.push("No open milestone has an upcoming due date");
+    } else {
+      const milestone = milestones.find((m) => m.title.toLowerCase() === wanted.toLowerCase());
+      if (milestone) return { assignees, milestone, milestoneSource: "title", notes };
+      notes.push(`No open milestone titled "${wanted}"`);
+    }
+    return { assignees, notes };
+  }
+
+  if (options.inheritMilestone !== false) {
+    for (const issue of linkedIssueNumbers(issueReferences)) {
+      try {
+        const milestone = await provider.issueMilestone(issue);
+        if (milestone) return { assignees, milestone, milestoneSource: `issue #${issue}`, notes };
+      } catch (error) {
+        // Deleted issues, or pull request numbers on GitLab
+        notes.push(`Could not read the milestone of #${issue}: ${message(error)}`);
+      }
+    }
+  }
+  return { assignees, notes };
+}
+
+/**
+ * Assigns the PR and sets its milestone. A dry run (or a PR not created yet) only reports what
+ * would be set.
+ */
+export async function applyAssignment(
+  provider: GitProvider,
+  number: number | undefined,
+  assignment: Assignment,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<AssignmentResult | undefined> {
+  if (assignment.assignees.length === 0 && !assignment.milestone && assignment.notes.length === 0) return undefined;
+
+  const notes = [...assignment.notes];
+  let assignees = assignment.assignees;
+  let milestone = assignment.milestone;
+
+  if (!dryRun && number !== undefined) {
+    if (assignees.length > 0) {
+      try {
+        assignees = await provider.addAssignees(number, assignees);
+        const missing = assignment.assignees.filter((login) => !assignees.some((a) => a.toLowerCase() === login.toLowerCase()));
+        if (missing.length > 0) notes.push(`Not assignable: ${missing.join(", ")}`);
+      } catch (error) {
+        notes.push(`Could not add assignees: ${message(error)}`);
+        assignees = [];
+      }
+    }
+    if (milestone) {
+      try {
+        await provider.setMilestone(number, milestone);
+      } catch (error) {
+        notes.push(`Could not set milestone "${milestone.title}": ${message(error)}`);
+        milestone = undefined;
+      }
+    }
+  }
+
+  return {
+    assignees,
+    milestone: milestone?.title,
+    milestoneSource: milestone ? assignment.milestoneSource : undefined,
+    notes: notes.length > 0 ? notes : undefined,
+  };
+}
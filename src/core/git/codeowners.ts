@@ -0,0 +1,138 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { SimpleGit } from "simple-git";
+
+/**
+ * Locations GitHub reads CODEOWNERS from, in the order it looks for them
+ */
+export const CODEOWNERS_LOCATIONS = [".github/CODEOWNERS", "CODEOWNERS", "docs/CODEOWNERS"];
+
+export interface CodeOwnersRule {
+  pattern: string;
+  // "@user", "@org/team" or an email; empty when the rule removes ownership
+  owners: string[];
+  line: number;
+  regex: RegExp;
+}
+
+export interface CodeOwnersFile {
+  path: string;
+  rules: CodeOwnersRule[];
+}
+
+/**
+ * Converts a CODEOWNERS pattern (gitignore syntax) to a regular expression on repository paths.
+ *
+ * - `/docs/` and `src/api` are anchored to the root, `*.js` and `docs/` match at any depth
+ * - A pattern matching a directory matches everything below it, except `dir/*` which only matches direct children
+ * - `**` matches across directories, `*` and `?` within a path segment
+ */
+export function codeOwnersPatternToRegExp(pattern: string): RegExp {
+  let glob = pattern;
+  const directoryOnly = glob.endsWith("/");
+  if (directoryOnly) glob = glob.slice(0, -1);
+
+  // A slash anywhere but at the end anchors the pattern to the repository root
+  const anchored = glob.includes("/");
+  glob = glob.replace(/^\//, "");
+
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "\\" && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  const prefix = anchored ? "^" : "^(?:.*/)?";
+  // "docs/*" matches the files in docs/ but not in its subdirectories
+  const suffix = glob.endsWith("/*") ? "$" : directoryOnly ? "/.*$" : "(?:/.*)?$";
+  return new RegExp(prefix + source + suffix);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Parses CODEOWNERS content. Comments and blank lines are skipped, `\#` escapes a leading #.
+ */
+export function parseCodeOwners(content: string): CodeOwnersRule[] {
+  const rules: CodeOwnersRule[] = [];
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    // "#" starts a comment unless it is escaped
+    const line = rawLine.replace(/(^|\s)#.*$/, "").trim();
+    if (line === "") return;
+
+    const [pattern, ...owners] = line.split(/\s+/);
+    try {
+      rules.push({
+        pattern: pattern.replace(/^\\#/, "#"),
+        owners,
+        line: index + 1,
+        regex: codeOwnersPatternToRegExp(pattern),
+      });
+    } catch (error) {
+      console.warn(`Skipping invalid CODEOWNERS pattern "${pattern}" on line ${index + 1}: ${error}`);
+    }
+  });
+
+  return rules;
+}
+
+/**
+ * Owners of a file: the last matching rule wins, like on GitHub
+ */
+export function ownersForFile(rules: CodeOwnersRule[], file: string): string[] {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].regex.test(file)) {
+      return rules[i].owners;
+    }
+  }
+  return [];
+}
+
+/**
+ * Reads CODEOWNERS from a ref (GitHub uses the one on the PR's base branch),
+ * falling back to the working tree
+ */
+export async function readCodeOwners(
+  git: SimpleGit,
+  workingDir: string,
+  ref?: string
+): Promise<CodeOwnersFile | undefined> {
+  for (const location of CODEOWNERS_LOCATIONS) {
+    let content: string | undefined;
+    if (ref) {
+      try {
+        content = await git.show([`${ref}:${location}`]);
+      } catch {
+        // Not on this ref
+      }
+    }
+    if (content === undefined) {
+      try {
+        content = await fs.readFile(path.join(workingDir, location), "utf-8");
+      } catch {
+        continue;
+      }
+    }
+    return { path: location, rules: parseCodeOwners(content) };
+  }
+  return undefined;
+}
@@ -0,0 +1,177 @@
+export interface ConventionalHeader {
+  type?: string;
+  scope?: string;
+  breaking: boolean;
+  subject: string;
+}
+
+export interface CommitFooter {
+  token: string;
+  value: string;
+}
+
+export interface ConventionalCommit extends ConventionalHeader {
+  header: string;
+  body?: string;
+  footers: CommitFooter[];
+  // Description from the BREAKING CHANGE footer, when there is one
+  breakingNote?: string;
+  // Issues from Closes/Fixes/Resolves footers ("#12", "owner/repo#3", "PROJ-42")
+  closes: string[];
+  // Issues from Refs/See footers
+  refs: string[];
+  // "Name <email>" from Co-authored-by footers
+  coAuthors: string[];
+}
+
+/**
+ * Types from the Conventional Commits / Angular convention, in the order they are preferred
+ */
+export const CONVENTIONAL_TYPES = [
+  "feat",
+  "fix",
+  "docs",
+  "style",
+  "refactor",
+  "perf",
+  "test",
+  "build",
+  "ci",
+  "chore",
+  "revert",
+];
+
+// Spellings seen in the wild for standard types
+const TYPE_ALIASES: Record<string, string> = {
+  feature: "feat",
+  bugfix: "fix",
+  doc: "docs",
+  tests: "test",
+};
+
+const CLOSING_TOKENS = ["close", "closes", "closed", "fix", "fixes", "fixed", "resolve", "resolves", "resolved"];
+const REFERENCE_TOKENS = ["ref", "refs", "references", "see", "related", "related-to"];
+
+// type(scope)!: subject
+const HEADER_PATTERN = /^([a-zA-Z]+)(?:\(([^()]*)\))?(!)?: *(.+)$/;
+
+// "Token: value" or "Token #value" (git trailer style), BREAKING CHANGE is the only token with a space
+const FOOTER_PATTERN = /^(BREAKING[ -]CHANGE|[A-Za-z][\w-]*)(?:: | #)(.*)$/;
+
+// "12", "#12", "owner/repo#12" or a ticket key ("PROJ-42")
+const ISSUE_REFERENCE_PATTERN = /^(?:(?:[\w.-]+\/[\w.-]+)?#?\d+|[A-Za-z][A-Za-z0-9]*-\d+)$/;
+
+/**
+ * Parses a conventional commit header ("feat(auth)!: add OAuth").
+ * Non-conventional headers are returned as-is in `subject`, without a type.
+ */
+export function parseCommitHeader(header: string): ConventionalHeader {
+  const trimmed = header.trim();
+  const match = trimmed.match(HEADER_PATTERN);
+
+  if (!match) {
+    return { breaking: false, subject: trimmed };
+  }
+
+  const type = match[1].toLowerCase();
+  return {
+    type: TYPE_ALIASES[type] ?? type,
+    scope: match[2]?.trim() || undefined,
+    breaking: match[3] === "!",
+    subject: match[4].trim(),
+  };
+}
+
+/**
+ * Parses the footer paragraph, or returns undefined when it is not made of footers only
+ */
+function parseFooters(paragraph: string): CommitFooter[] | undefined {
+  const footers: CommitFooter[] = [];
+
+  for (const line of paragraph.split("\n")) {
+    const match = line.match(FOOTER_PATTERN);
+    if (match) {
+      footers.push({ token: match[1], value: match[2].trim() });
+    } else if (footers.length > 0 && /^\s/.test(line)) {
+      // Continuation of a multi-line footer value (indented, like git trailers)
+      const last = footers[footers.length - 1];
+      last.value = `${last.value}\n${line.trim()}`.trim();
+    } else {
+      return undefined;
+    }
+  }
+
+  return footers;
+}
+
+/**
+ * Parses a full commit message: header, body and footers.
+ * Git log tools often split the subject from the body, so the body can be passed separately.
+ */
+export function parseCommitMessage(message: string, body?: string): ConventionalCommit {
+  const full = body?.trim() ? `${message.trimEnd()}\n\n${body.trim()}` : message;
+  const [header = "", ...rest] = full.replace(/\r\n/g, "\n").split("\n");
+
+  const paragraphs = rest.join("\n").trim().split(/\n\s*\n/).filter((p) => p.trim() !== "");
+  let footers: CommitFooter[] = [];
+  if (paragraphs.length > 0) {
+    const parsed = parseFooters(paragraphs[paragraphs.length - 1]);
+    if (parsed) {
+      footers = parsed;
+      paragraphs.pop();
+    }
+  }
+
+  const parsedHeader = parseCommitHeader(header);
+  const breakingFooter = footers.find((f) => /^BREAKING[ -]CHANGE$/.test(f.token));
+  const footerValues = (tokens: string[]) =>
+    footers.filter((f) => tokens.includes(f.token.toLowerCase())).map((f) => f.value);
+
+  return {
+    ...parsedHeader,
+    header: header.trim(),
+    breaking: parsedHeader.breaking || breakingFooter !== undefined,
+    body: paragraphs.length > 0 ? paragraphs.join("\n\n") : undefined,
+    footers,
+    breakingNote: breakingFooter?.value,
+    closes: footerValues(CLOSING_TOKENS).flatMap(splitIssueList),
+    refs: footerValues(REFERENCE_TOKENS).flatMap(splitIssueList),
+    coAuthors: footerValues(["co-authored-by"]),
+  };
+}
+
+/**
+ * Splits "#12, #13 and owner/repo#4" into its references, ignoring other words.
+ * Bare numbers (the # of "Closes #12" is part of the footer separator) get their # back.
+ */
+function splitIssueList(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .filter((part) => ISSUE_REFERENCE_PATTERN.test(part))
+    .map((part) => (/^\d+$/.test(part) ? `#${part}` : part));
+}
+
+/**
+ * Conventional type for a set of commits: the first standard type found,
+ * then keyword guesses for non-conventional messages, then "chore"
+ */
+export function inferTypeFromCommits(messages: string[]): string {
+  for (const message of messages) {
+    const { type } = parseCommitHeader(message);
+    if (type && CONVENTIONAL_TYPES.includes(type)) return type;
+  }
+  // fallback by keywords
+  if (messages.some((m) => /\b(fix(e[sd])?|bugs?)\b/i.test(m))) return "fix";
+  if (messages.some((m) => /\b(feat|feature)/i.test(m))) return "feat";
+  if (messages.some((m) => /refactor/i.test(m))) return "refactor";
+  if (messages.some((m) => /\btest/i.test(m))) return "test";
+  return "chore";
+}
+
+/**
+ * Subject of the first commit, without its type/scope prefix
+ */
+export function inferSubjectFromCommits(messages: string[]): string {
+  const subject = messages.length > 0 ? parseCommitHeader(messages[0]).subject : "";
+  return subject.length > 0 ? subject : "update";
+}
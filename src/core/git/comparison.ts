@@ -0,0 +1,156 @@
+import { SimpleGit } from "simple-git";
+import { detectMainBranch } from "./repository.js";
+import { AnalysisResult, AnalysisScope, AnalysisSource } from "./types.js";
+
+export interface Comparison {
+  source: AnalysisSource;
+  currentBranch: string;
+  baseBranch: string;
+  // Commit the diff is computed from, for branch/range comparisons
+  mergeBase?: string;
+  // Range passed to git log, undefined when there are no commits to list (staged/working-tree)
+  logRange?: string;
+  diffArgs: string[];
+}
+
+/**
+ * Ensures a ref (branch, tag, SHA, remote branch...) resolves to a commit
+ */
+export async function verifyRef(workingGit: SimpleGit, ref: string): Promise<string> {
+  const sha = (await workingGit.raw(["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]) || "").trim();
+  if (!sha) {
+    throw new Error(
+      `Unknown ref "${ref}". Make sure the branch, tag or commit exists locally (try \`git fetch --all --tags\`).`
+    );
+  }
+  return sha;
+}
+
+/**
+ * Branch name of a ref that heads or bases a pull request: a local branch as is, a remote branch
+ * ("origin/feature") without its remote. Tags, commits and other refs are refused.
+ */
+export async function resolveBranchName(workingGit: SimpleGit, ref: string): Promise<string> {
+  const exists = async (fullRef: string) => {
+    try {
+      return !!(await workingGit.raw(["rev-parse", "--verify", "--quiet", fullRef]) || "").trim();
+    } catch {
+      return false;
+    }
+  };
+
+  if (await exists(`refs/heads/${ref}`)) return ref;
+  if (await exists(`refs/remotes/${ref}`)) {
+    // Longest matching remote, for remote names containing a slash
+    const remote = (await workingGit.getRemotes())
+      .map(({ name }) => name)
+      .filter((name) => ref.startsWith(`${name}/`))
+      .sort((a, b) => b.length - a.length)[0];
+    if (remote) return ref.slice(remote.length + 1);
+  }
+  throw new Error(
+    `"${ref}" is not a branch. The head and base of a pull request must be a local branch or a remote one such as origin/main, not a tag or commit.`
+  );
+}
+
+/**
+ * Latest tag reachable from a ref, undefined when there is none
+ */
+export async function findLatestTag(workingGit: SimpleGit, ref: string): Promise<string | undefined> {
+  try {
+    const tag = (await workingGit.raw(["describe", "--tags", "--abbrev=0", ref]) || "").trim();
+    return tag || undefined;
+  } catch {
+    // git describe fails when no tag can describe the ref
+    return undefined;
+  }
+}
+
+/**
+ * Computes the best common ancestor of two refs
+ */
+export async function findMergeBase(
+  workingGit: SimpleGit,
+  fromRef: string,
+  toRef: string
+): Promise<string> {
+  let mergeBase = "";
+  try {
+    mergeBase = (await workingGit.raw(["merge-base", fromRef, toRef]) || "").trim();
+  } catch {
+    // git merge-base exits with 1 when there is no common ancestor
+  }
+  if (!mergeBase) {
+    throw new Error(`"${fromRef}" and "${toRef}" have no common history`);
+  }
+  return mergeBase;
+}
+
+/**
+ * Resolves what should be compared for the requested source.
+ *
+ * Branch and range comparisons validate both refs and diff from their merge base,
+ * so any pair of refs can be analyzed without checking it out.
+ */
+export async function resolveComparison(
+  workingGit: SimpleGit,
+  workingDir: string,
+  baseBranch?: string,
+  scope: AnalysisScope = {}
+): Promise<Comparison> {
+  const source = scope.source ?? "branch";
+
+  if (source === "staged" || source === "working-tree") {
+    const currentBranch = (await workingGit.revparse(["--abbrev-ref", "HEAD"])).trim();
+    return {
+      source,
+      currentBranch,
+      baseBranch: "HEAD",
+      diffArgs: source === "staged" ? ["--cached"] : ["HEAD"],
+    };
+  }
+
+  let fromRef: string;
+  let toRef: string;
+  if (source === "range") {
+    if (!scope.fromRef) {
+      throw new Error('fromRef is required when source is "range"');
+    }
+    fromRef = scope.fromRef;
+    toRef = scope.toRef || "HEAD";
+  } else {
+    fromRef = scope.fromRef || baseBranch || await detectMainBranch(workingDir);
+    toRef = scope.toRef || (await workingGit.revparse(["--abbrev-ref", "HEAD"])).trim();
+  }
+
+  await verifyRef(workingGit, fromRef);
+  await verifyRef(workingGit, toRef);
+  const mergeBase = await findMergeBase(workingGit, fromRef, toRef);
+
+  return {
+    source,
+    currentBranch: toRef,
+    baseBranch: fromRef,
+    mergeBase,
+    logRange: `${fromRef}..${toRef}`,
+    diffArgs: [mergeBase, toRef],
+  };
+}
+
+/**
+ * Human-readable label of what an analysis compared, for prompts
+ */
+export function describeComparison(
+  analysis: Pick<AnalysisResult, "source" | "currentBranch" | "baseBranch">
+): string {
+  switch (analysis.source) {
+    case "staged":
+      return `staged changes on ${analysis.currentBranch}`;
+    case "working-tree":
+      return `uncommitted changes on ${analysis.currentBranch}`;
+    case "range":
+      return `${analysis.baseBranch}...${analysis.currentBranch}`;
+    default:
+      return `${analysis.currentBranch} → ${analysis.baseBranch}`;
+  }
+}
@@ -0,0 +1,243 @@
+import { formatDiffFile } from "./diff-parser.js";
+import { DiffFile } from "./types.js";
+
+/**
+ * Rough number of characters per token used to convert token budgets
+ */
+export const CHARS_PER_TOKEN = 4;
+
+export type DiffFileCategory =
+  | "source"
+  | "test"
+  | "docs"
+  | "snapshot"
+  | "generated"
+  | "lockfile"
+  | "binary";
+
+export interface DiffBudget {
+  maxTokens?: number;
+  maxChars?: number;
+}
+
+export interface OmittedDiffFile {
+  path: string;
+  status: DiffFile["status"];
+  category: DiffFileCategory;
+  additions: number;
+  deletions: number;
+  reason: "budget" | "binary";
+}
+
+export interface PackedDiff {
+  text: string;
+  budgetChars: number;
+  usedChars: number;
+  estimatedTokens: number;
+  includedFiles: string[];
+  partialFiles: string[];
+  omittedFiles: OmittedDiffFile[];
+}
+
+// Lower value = packed first
+const CATEGORY_PRIORITY: Record<DiffFileCategory, number> = {
+  source: 0,
+  test: 1,
+  docs: 2,
+  snapshot: 3,
+  generated: 4,
+  lockfile: 5,
+  binary: 6,
+};
+
+const LOCKFILES = [
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lockb",
+  "composer.lock",
+  "Cargo.lock",
+  "Gemfile.lock",
+  "poetry.lock",
+  "Pipfile.lock",
+  "go.sum",
+  "mix.lock",
+  "pubspec.lock",
+];
+
+const GENERATED_PATTERNS = [
+  /(^|\/)(dist|build|out|vendor|coverage|\.next)\//,
+  /(^|\/)__generated__\//,
+  /\.generated\.[^/]+$/,
+  /\.min\.(js|css)$/,
+  /\.map$/,
+  /\.pb\.go$/,
+  /_pb2\.py$/,
+  /\.d\.ts$/,
+];
+
+const SNAPSHOT_PATTERNS = [/(^|\/)__snapshots__\//, /\.snap$/];
+
+const TEST_PATTERNS = [
+  /(^|\/)(__tests__|tests?|spec)\//,
+  /\.(test|spec)\.[^/]+$/,
+  /_test\.(go|py)$/,
+  /(^|\/)test_[^/]+\.py$/,
+];
+
+const DOCS_PATTERNS = [/\.(md|mdx|rst|txt|adoc)$/i, /(^|\/)docs?\//];
+
+/**
+ * Classifies a changed file to decide how important it is for a prompt
+ */
+export function categorizeDiffFile(file: DiffFile): DiffFileCategory {
+  const path = file.path;
+  const fileName = path.split("/").pop() || path;
+
+  if (file.isBinary) return "binary";
+  if (LOCKFILES.includes(fileName)) return "lockfile";
+  if (SNAPSHOT_PATTERNS.some((p) => p.test(path))) return "snapshot";
+  if (GENERATED_PATTERNS.some((p) => p.test(path))) return "generated";
+  if (TEST_PATTERNS.some((p) => p.test(path))) return "test";
+  if (DOCS_PATTERNS.some((p) => p.test(path))) return "docs";
+  return "source";
+}
+
+/**
+ * Number of added/removed lines that are not blank, used to rank files
+ * so that whitespace-only churn does not outrank real changes
+ */
+function semanticWeight(file: DiffFile): number {
+  return file.hunks.reduce(
+    (total, hunk) =>
+      total + hunk.lines.filter((l) => l.type !== "context" && l.content.trim() !== "").length,
+    0
+  );
+}
+
+function formatOmittedLine(file: OmittedDiffFile): string {
+  const label = file.reason === "binary" ? "binary" : file.category;
+  return `- ${file.path} (${file.status}, +${file.additions} -${file.deletions}, ${label})`;
+}
+
+/**
+ * Resolves a budget to a number of characters
+ */
+export function budgetToChars(budget: DiffBudget): number {
+  if (budget.maxChars !== undefined) return budget.maxChars;
+  if (budget.maxTokens !== undefined) return budget.maxTokens * CHARS_PER_TOKEN;
+  return Infinity;
+}
+
+/**
+ * Packs as much of a parsed diff as fits in a token/character budget.
+ *
+ * Files are ranked by category (source first, lockfiles/generated/snapshots last)
+ * then by semantic size. Whole files are packed greedily; files that do not fit
+ * are packed hunk by hunk with the remaining budget, and everything else is
+ * reported in `omittedFiles` so the prompt can summarise it with its stats.
+ * A summary line is reserved in the budget for every file up front.
+ */
+export function packDiff(files: DiffFile[], budget: DiffBudget = {}): PackedDiff {
+  const budgetChars = budgetToChars(budget);
+
+  const candidates = files.map((file, index) => {
+    const category = categorizeDiffFile(file);
+    const omitted: OmittedDiffFile = {
+      path: file.path,
+      status: file.status,
+      category,
+      additions: file.additions,
+      deletions: file.deletions,
+      reason: category === "binary" ? "binary" : "budget",
+    };
+    return {
+      file,
+      index,
+      category,
+      omitted,
+      weight: semanticWeight(file),
+      summaryCost: formatOmittedLine(omitted).length + 1,
+    };
+  });
+
+  let remaining = budgetChars - candidates.reduce((sum, c) => sum + c.summaryCost, 0);
+  const packed = new Map<number, string>();
+  const partial = new Set<number>();
+
+  const ranked = [...candidates]
+    .filter((c) => c.category !== "binary")
+    .sort(
+      (a, b) =>
+        CATEGORY_PRIORITY[a.category] - CATEGORY_PRIORITY[b.category] ||
+        b.weight - a.weight ||
+        a.index - b.index
+    );
+
+  for (const candidate of ranked) {
+    const text = formatDiffFile(candidate.file);
+    const cost = text.length + 1;
+    if (cost <= remaining + candidate.summaryCost) {
+      packed.set(candidate.index, text);
+      remaining -= cost - candidate.summaryCost;
+    }
+  }
+
+  // Second pass: leading hunks of files that did not fit entirely
+  for (const candidate of ranked) {
+    if (packed.has(candidate.index) || candidate.file.hunks.length < 2) continue;
+
+    let hunks = candidate.file.hunks.length - 1;
+    while (hunks > 0) {
+      const text = formatDiffFile({ ...candidate.file, hunks: candidate.file.hunks.slice(0, hunks) });
+      const cost = text.length + 1;
+      if (cost <= remaining) {
+        packed.set(candidate.index, text);
+        partial.add(candidate.index);
+        remaining -= cost;
+        break;
+      }
+      hunks--;
+    }
+  }
+
+  const included = candidates.filter((c) => packed.has(c.index));
+  const omittedFiles = candidates
+    .filter((c) => !packed.has(c.index) || partial.has(c.index))
+    .map((c) => c.omitted);
+
+  const text = included.map((c) => packed.get(c.index)).join("\n");
+  const usedChars = text.length + omittedFiles.reduce((sum, f) => sum + formatOmittedLine(f).length + 1, 0);
+
+  return {
+    text,
+    budgetChars,
+    usedChars,
+    estimatedTokens: Math.ceil(usedChars / CHARS_PER_TOKEN),
+    includedFiles: included.filter((c) => !partial.has(c.index)).map((c) => c.file.path),
+    partialFiles: included.filter((c) => partial.has(c.index)).map((c) => c.file.path),
+    omittedFiles,
+  };
+}
+
+/**
+ * Formats the files left out (or cut) by packDiff as a markdown section for prompts
+ */
+export function formatOmittedFiles(packed: PackedDiff): string {
+  if (packed.omittedFiles.length === 0) {
+    return "";
+  }
+
+  const partialNote = packed.partialFiles.length > 0
+    ? `\nPartially shown (remaining hunks omitted): ${packed.partialFiles.join(", ")}\n`
+    : "";
+
+  const budgetNote = Number.isFinite(packed.budgetChars)
+    ? ` (budget: ~${Math.floor(packed.budgetChars / CHARS_PER_TOKEN)} tokens)`
+    : "";
+
+  return `### Not shown in diff${budgetNote}
+${packed.omittedFiles.map(formatOmittedLine).join("\n")}
+${partialNote}`;
+}
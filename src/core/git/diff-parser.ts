@@ -0,0 +1,250 @@
+import { DiffFile, DiffHunk, DiffLine } from "./types.js";
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+/**
+ * Unquotes a path as printed by git when it contains special characters
+ * (e.g. "a/caf\303\251.txt")
+ */
+function unquotePath(raw: string): string {
+  if (!raw.startsWith('"') || !raw.endsWith('"')) {
+    return raw;
+  }
+
+  const bytes: number[] = [];
+  const inner = raw.slice(1, -1);
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (char !== "\\") {
+      bytes.push(...Buffer.from(char, "utf-8"));
+      continue;
+    }
+
+    const next = inner[i + 1];
+    if (/[0-7]/.test(next)) {
+      bytes.push(parseInt(inner.slice(i + 1, i + 4), 8));
+      i += 3;
+      continue;
+    }
+
+    const escapes: Record<string, string> = { n: "\n", t: "\t", '"': '"', "\\": "\\" };
+    bytes.push(...Buffer.from(escapes[next] ?? next, "utf-8"));
+    i += 1;
+  }
+
+  return Buffer.from(bytes).toString("utf-8");
+}
+
+/**
+ * Removes the a/ or b/ prefix git adds to paths in diff headers
+ */
+function stripPrefix(path: string): string {
+  return path.replace(/^[ab]\//, "");
+}
+
+/**
+ * Extracts old and new paths from a "diff --git a/x b/y" header line.
+ * Used as a fallback when no ---/+++ or rename lines are present (binary files, mode changes).
+ */
+function parseGitHeaderPaths(line: string): { oldPath: string; newPath: string } {
+  const rest = line.slice("diff --git ".length);
+
+  const quoted = rest.match(/^("(?:[^"\\]|\\.)*"|\S+) ("(?:[^"\\]|\\.)*"|\S+)$/);
+  if (quoted && (quoted[1].startsWith('"') || quoted[2].startsWith('"'))) {
+    return {
+      oldPath: stripPrefix(unquotePath(quoted[1])),
+      newPath: stripPrefix(unquotePath(quoted[2])),
+    };
+  }
+
+  // Same path on both sides (the common case): "a/<p> b/<p>", which also handles spaces
+  const half = (rest.length - 1) / 2;
+  if (Number.isInteger(half) && rest.slice(2, half) === rest.slice(half + 3)) {
+    const path = rest.slice(2, half);
+    return { oldPath: path, newPath: path };
+  }
+
+  const match = rest.match(/^a\/(.+?) b\/(.+)$/);
+  if (match) {
+    return { oldPath: match[1], newPath: match[2] };
+  }
+
+  return { oldPath: rest, newPath: rest };
+}
+
+function createFile(path: string, oldPath: string): DiffFile {
+  return {
+    path,
+    oldPath: oldPath !== path ? oldPath : undefined,
+    status: "modified",
+    isBinary: false,
+    modeChanged: false,
+    additions: 0,
+    deletions: 0,
+    hunks: [],
+  };
+}
+
+/**
+ * Parses the output of `git diff` (unified format) into a structured model:
+ * files → hunks → lines with their old/new line numbers.
+ */
+export function parseUnifiedDiff(rawDiff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  const lines = rawDiff.split("\n");
+
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of lines) {
+    if (line.startsWith("diff --git ")) {
+      const { oldPath, newPath } = parseGitHeaderPaths(line);
+      file = createFile(newPath, oldPath);
+      hunk = null;
+      files.push(file);
+      continue;
+    }
+
+    if (!file) {
+      continue;
+    }
+
+    if (hunk) {
+      const marker = line[0];
+      if (marker === "+" || marker === "-" || marker === " ") {
+        const diffLine: DiffLine = { type: "context", content: line.slice(1) };
+        if (marker === "+") {
+          diffLine.type = "add";
+          diffLine.newLineNumber = newLine++;
+          file.additions++;
+        } else if (marker === "-") {
+          diffLine.type = "delete";
+          diffLine.oldLineNumber = oldLine++;
+          file.deletions++;
+        } else {
+          diffLine.oldLineNumber = oldLine++;
+          diffLine.newLineNumber = newLine++;
+        }
+        hunk.lines.push(diffLine);
+        continue;
+      }
+
+      // "\ No newline at end of file" belongs to the previous line, nothing to record
+      if (marker === "\\") {
+        continue;
+      }
+    }
+
+    const hunkMatch = line.match(HUNK_HEADER);
+    if (hunkMatch) {
+      hunk = {
+        header: line,
+        oldStart: parseInt(hunkMatch[1], 10),
+        oldLines: hunkMatch[2] !== undefined ? parseInt(hunkMatch[2], 10) : 1,
+        newStart: parseInt(hunkMatch[3], 10),
+        newLines: hunkMatch[4] !== undefined ? parseInt(hunkMatch[4], 10) : 1,
+        section: hunkMatch[5] || undefined,
+        lines: [],
+      };
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (line.startsWith("new file mode ")) {
+      file.status = "added";
+      file.newMode = line.slice("new file mode ".length);
+    } else if (line.startsWith("deleted file mode ")) {
+      file.status = "deleted";
+      file.oldMode = line.slice("deleted file mode ".length);
+    } else if (line.startsWith("old mode ")) {
+      file.oldMode = line.slice("old mode ".length);
+      file.modeChanged = true;
+    } else if (line.startsWith("new mode ")) {
+      file.newMode = line.slice("new mode ".length);
+      file.modeChanged = true;
+    } else if (line.startsWith("similarity index ")) {
+      file.similarity = parseInt(line.slice("similarity index ".length), 10);
+    } else if (line.startsWith("rename from ")) {
+      file.status = "renamed";
+      file.oldPath = unquotePath(line.slice("rename from ".length));
+    } else if (line.startsWith("rename to ")) {
+      file.status = "renamed";
+      file.path = unquotePath(line.slice("rename to ".length));
+    } else if (line.startsWith("copy from ")) {
+      file.status = "copied";
+      file.oldPath = unquotePath(line.slice("copy from ".length));
+    } else if (line.startsWith("copy to ")) {
+      file.status = "copied";
+      file.path = unquotePath(line.slice("copy to ".length));
+    } else if (line.startsWith("Binary files ") || line === "GIT binary patch") {
+      file.isBinary = true;
+    } else if (line.startsWith("--- ")) {
+      const oldPath = unquotePath(line.slice(4).replace(/\t.*$/, ""));
+      if (oldPath !== "/dev/null" && file.status !== "renamed" && file.status !== "copied") {
+        file.oldPath = stripPrefix(oldPath) !== file.path ? stripPrefix(oldPath) : undefined;
+      }
+    } else if (line.startsWith("+++ ")) {
+      const newPath = unquotePath(line.slice(4).replace(/\t.*$/, ""));
+      if (newPath !== "/dev/null") {
+        file.path = stripPrefix(newPath);
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Renders a single parsed file back into unified diff text
+ */
+export function formatDiffFile(file: DiffFile): string {
+  const oldPath = file.oldPath ?? file.path;
+  const output: string[] = [`diff --git a/${oldPath} b/${file.path}`];
+
+  if (file.status === "added" && file.newMode) {
+    output.push(`new file mode ${file.newMode}`);
+  } else if (file.status === "deleted" && file.oldMode) {
+    output.push(`deleted file mode ${file.oldMode}`);
+  } else if (file.modeChanged) {
+    output.push(`old mode ${file.oldMode}`, `new mode ${file.newMode}`);
+  }
+
+  if (file.status === "renamed" || file.status === "copied") {
+    const verb = file.status === "renamed" ? "rename" : "copy";
+    if (file.similarity !== undefined) {
+      output.push(`similarity index ${file.similarity}%`);
+    }
+    output.push(`${verb} from ${oldPath}`, `${verb} to ${file.path}`);
+  }
+
+  if (file.isBinary) {
+    output.push(`Binary files a/${oldPath} and b/${file.path} differ`);
+    return output.join("\n");
+  }
+
+  if (file.hunks.length > 0) {
+    output.push(file.status === "added" ? "--- /dev/null" : `--- a/${oldPath}`);
+    output.push(file.status === "deleted" ? "+++ /dev/null" : `+++ b/${file.path}`);
+  }
+
+  for (const hunk of file.hunks) {
+    output.push(hunk.header);
+    for (const line of hunk.lines) {
+      const marker = line.type === "add" ? "+" : line.type === "delete" ? "-" : " ";
+      output.push(`${marker}${line.content}`);
+    }
+  }
+
+  return output.join("\n");
+}
+
+/**
+ * Renders parsed files back into unified diff text
+ */
+export function formatUnifiedDiff(files: DiffFile[]): string {
+  return files.map(formatDiffFile).join("\n");
+}
@@ -0,0 +1,122 @@
+import { Octokit } from "@octokit/rest";
+import { SimpleGit } from "simple-git";
+import { GitHubRepoInfo } from "./repository.js";
+import { IdentitySource } from "./types.js";
+
+export interface GitIdentity {
+  name: string;
+  email: string;
+}
+
+export interface ResolvedIdentity extends GitIdentity {
+  login?: string;
+  resolvedBy?: IdentitySource;
+}
+
+/**
+ * Finds the GitHub login of the author of a commit, e.g. through the GitHub commits API
+ */
+export type CommitAuthorLookup = (commitHash: string) => Promise<string | undefined>;
+
+// username@users.noreply.github.com, 12345+username@users.noreply.github.com
+const NOREPLY_EMAIL = /^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/i;
+
+// Logins found (or not: null) by the commit lookup, per email, for the life of the server
+const lookupCache = new Map<string, string | null>();
+
+export function formatIdentity(identity: GitIdentity): string {
+  return `${identity.name} <${identity.email}>`;
+}
+
+/**
+ * Login from a GitHub noreply email
+ */
+export function noreplyLogin(email: string): string | undefined {
+  return email.match(NOREPLY_EMAIL)?.[1];
+}
+
+/**
+ * Canonical identities from the repository's .mailmap (git check-mailmap), keyed by "Name <email>".
+ * Identities .mailmap doesn't know are returned unchanged.
+ */
+export async function applyMailmap(git: SimpleGit, identities: GitIdentity[]): Promise<Map<string, GitIdentity>> {
+  const mapped = new Map<string, GitIdentity>(identities.map((identity) => [formatIdentity(identity), identity]));
+  const contacts = [...mapped.keys()];
+  if (contacts.length === 0) return mapped;
+
+  try {
+    const output = await git.raw(["check-mailmap", ...contacts]);
+    (output || "").split("\n").filter((line) => line.trim() !== "").forEach((line, i) => {
+      const match = line.trim().match(/^(.*?)\s*<([^>]*)>$/);
+      if (match && contacts[i]) {
+        mapped.set(contacts[i], { name: match[1], email: match[2] });
+      }
+    });
+  } catch (error) {
+    console.warn(`Could not apply .mailmap: ${error}`);
+  }
+
+  return mapped;
+}
+
+/**
+ * GitHub login of a git identity, from (in order) the repository mapping, a noreply email,
+ * then the author of one of their commits on GitHub. Returns no login rather than guessing one.
+ */
+export async function resolveIdentity(
+  identity: GitIdentity,
+  mapping: Record<string, string> = {},
+  lookup?: CommitAuthorLookup,
+  commitHash?: string
+): Promise<ResolvedIdentity> {
+  const email = identity.email.toLowerCase();
+
+  const mapped = mapping[email];
+  if (mapped) {
+    return { ...identity, login: mapped, resolvedBy: "mapping" };
+  }
+
+  const noreply = noreplyLogin(email);
+  if (noreply) {
+    return { ...identity, login: noreply, resolvedBy: "noreply" };
+  }
+
+  if (lookupCache.has(email)) {
+    const cached = lookupCache.get(email);
+    return cached ? { ...identity, login: cached, resolvedBy: "github" } : identity;
+  }
+
+  if (lookup && commitHash) {
+    try {
+      const login = await lookup(commitHash);
+      lookupCache.set(email, login ?? null);
+      if (login) {
+        return { ...identity, login, resolvedBy: "github" };
+      }
+    } catch (error) {
+      // Not cached: the next call may succeed
+      console.warn(`Could not look up the GitHub login of ${formatIdentity(identity)}: ${error}`);
+    }
+  }
+
+  return identity;
+}
+
+/**
+ * Looks up commit authors through the GitHub commits API of a repository
+ */
+export function createGitHubCommitLookup(token: string, { owner, repo, apiUrl }: GitHubRepoInfo): CommitAuthorLookup {
+  const octokit = new Octokit({ auth: token, baseUrl: apiUrl });
+
+  return async (commitHash) => {
+    const { data } = await octokit.rest.repos.getCommit({ owner, repo, ref: commitHash });
+    return data.author?.login ?? undefined;
+  };
+}
+
+/**
+ * Clears logins cached by resolveIdentity
+ */
+export function clearIdentityCache(): void {
+  lookupCache.clear();
+}
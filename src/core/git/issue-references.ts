@@ -0,0 +1,137 @@
+import { parseCommitMessage } from "./commit-parser.js";
+import { CommitInfo, IssueReference } from "./types.js";
+
+/**
+ * Default Jira/Linear-style key ("PROJ-1234"), overridable with the TICKET_PATTERN env var
+ */
+export const DEFAULT_TICKET_PATTERN = "[A-Z][A-Z0-9]+-\\d+";
+
+// Things that look like ticket keys with the default pattern but are not
+const NOT_TICKETS = ["UTF", "ISO", "SHA", "RFC", "CVE", "HTTP", "TLS", "AES", "MD"];
+
+const GITHUB_REFERENCE = /(?:^|[\s(\[,])((?:[\w.-]+\/[\w.-]+)?#\d+)\b/g;
+const GITHUB_ISSUE_URL = /https?:\/\/github\.com\/([\w.-]+\/[\w.-]+)\/(?:issues|pull)\/(\d+)/g;
+const CLOSING_KEYWORD = /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\b:?\s+((?:[\w.-]+\/[\w.-]+)?#\d+)/gi;
+
+// Branch numbers that are years rather than issues ("release/2024-q1")
+const YEAR = /^(?:19|20)\d{2}$/;
+
+/**
+ * Ticket key pattern in use, from TICKET_PATTERN or the default
+ */
+export function getTicketPattern(): string {
+  const pattern = process.env.TICKET_PATTERN || DEFAULT_TICKET_PATTERN;
+  try {
+    new RegExp(pattern);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid TICKET_PATTERN "${pattern}": ${errorMessage}`);
+  }
+  return pattern;
+}
+
+function findTickets(text: string, ticketPattern: string): string[] {
+  const keys = [...text.matchAll(new RegExp(`\\b(?:${ticketPattern})\\b`, "g"))].map((match) => match[0]);
+  return ticketPattern === DEFAULT_TICKET_PATTERN
+    ? keys.filter((key) => !NOT_TICKETS.includes(key.split("-")[0]))
+    : keys;
+}
+
+function findGitHubReferences(text: string): string[] {
+  const references = [...text.matchAll(GITHUB_REFERENCE)].map((match) => match[1]);
+  const urls = [...text.matchAll(GITHUB_ISSUE_URL)].map((match) => `${match[1]}#${match[2]}`);
+  return [...references, ...urls];
+}
+
+/**
+ * Collects issue and ticket references from a branch name and commit messages.
+ *
+ * - GitHub: `#42`, `owner/repo#42`, issue/PR URLs, and the `42-fix-login` branch naming
+ * - Tickets: Jira/Linear-style keys (`PROJ-1234`), see getTicketPattern
+ *
+ * References are closing when a commit says so (`Closes #42`, `Fixes: owner/repo#3`). Branch
+ * names only link issues, from a number leading their last segment that doesn't look like a year
+ * ("release/2024-q1").
+ */
+export function collectIssueReferences(
+  branch: string,
+  commits: Pick<CommitInfo, "message" | "body">[],
+  ticketPattern: string = getTicketPattern()
+): IssueReference[] {
+  const references = new Map<string, IssueReference>();
+
+  const add = (id: string, kind: IssueReference["kind"], source: IssueReference["source"], closing = false) => {
+    const existing = references.get(id);
+    if (existing) {
+      existing.closing = existing.closing || closing;
+      return;
+    }
+    references.set(id, { id, kind, source, closing });
+  };
+
+  // Branch: "feat/PROJ-1234-add-login", "42-fix-login", "fix/42-login"
+  for (const key of findTickets(branch, ticketPattern)) {
+    add(key, "ticket", "branch");
+  }
+  const issueBranch = branch.split("/").pop()!.match(/^(\d+)-[a-zA-Z]/);
+  if (issueBranch && !YEAR.test(issueBranch[1])) {
+    add(`#${issueBranch[1]}`, "github", "branch");
+  }
+
+  for (const commit of commits) {
+    const text = commit.body ? `${commit.message}\n\n${commit.body}` : commit.message;
+    const parsed = parseCommitMessage(commit.message, commit.body);
+    const closing = new Set([
+      ...parsed.closes,
+      ...[...text.matchAll(CLOSING_KEYWORD)].map((match) => match[1]),
+    ]);
+
+    for (const id of findGitHubReferences(text)) {
+      add(id, "github", "commit", closing.has(id));
+    }
+    for (const key of findTickets(text, ticketPattern)) {
+      add(key, "ticket", "commit", closing.has(key));
+    }
+    // Footer values such as "Closes: 42" are not caught by the patterns above
+    for (const id of closing) {
+      if (/^([\w.-]+\/[\w.-]+)?#\d+$/.test(id)) {
+        add(id, "github", "commit", true);
+      }
+    }
+  }
+
+  return [...references.values()];
+}
+
+/**
+ * Ticket key to prefix titles with: the one from the branch name first
+ */
+export function primaryTicketKey(references: IssueReference[]): string | undefined {
+  const tickets = references.filter((r) => r.kind === "ticket");
+  return (tickets.find((r) => r.source === "branch") ?? tickets[0])?.id;
+}
+
+/**
+ * Prefixes a title with a ticket key ("[PROJ-1234] feat: add login"), unless it already mentions it
+ */
+export function prefixTitleWithTicket(title: string, ticketKey?: string): string {
+  if (!ticketKey || title.includes(ticketKey)) {
+    return title;
+  }
+  return `[${ticketKey}] ${title}`;
+}
+
+/**
+ * Appends GitHub closing keywords ("Closes #42") for closing references
+ * that the body does not already close
+ */
+export function appendClosingKeywords(body: string, references: IssueReference[]): string {
+  const alreadyClosed = new Set(
+    [...body.matchAll(CLOSING_KEYWORD)].map((match) => match[1].toLowerCase())
+  );
+  const lines = references
+    .filter((r) => r.kind === "github" && r.closing && !alreadyClosed.has(r.id.toLowerCase()))
+    .map((r) => `Closes ${r.id}`);
+
+  return lines.length > 0 ? `${body.trimEnd()}\n\n${lines.join("\n")}` : body;
+}
@@ -0,0 +1,160 @@
+import { inferTypeFromCommits, parseCommitMessage } from "./commit-parser.js";
+import { codeOwnersPatternToRegExp } from "./codeowners.js";
+import { AnalysisResult, LabelResult } from "./types.js";
+import type { GitProvider } from "../providers/types.js";
+
+/**
+ * Labels for the PR type, GitHub's default labels where there is one
+ */
+export const DEFAULT_TYPE_LABELS: Record<string, string> = {
+  feat: "enhancement",
+  fix: "bug",
+  docs: "documentation",
+  perf: "performance",
+  refactor: "refactor",
+  test: "tests",
+  build: "build",
+  ci: "ci",
+  chore: "chore",
+  style: "style",
+  revert: "revert",
+};
+
+/**
+ * Size buckets by changed lines (insertions + deletions), smallest first. The last one has no max.
+ */
+export const DEFAULT_SIZE_LABELS: SizeLabel[] = [
+  { label: "size/XS", max: 9 },
+  { label: "size/S", max: 29 },
+  { label: "size/M", max: 99 },
+  { label: "size/L", max: 499 },
+  { label: "size/XL", max: 999 },
+  { label: "size/XXL" },
+];
+
+export const DEFAULT_SCOPE_LABEL = "scope: {scope}";
+export const DEFAULT_BREAKING_LABEL = "breaking change";
+
+export interface SizeLabel {
+  label: string;
+  max?: number;
+}
+
+/**
+ * Label inference settings, under "labels" in the repository config. Empty strings disable a label.
+ */
+export interface LabelRules {
+  // Conventional type → label, on top of DEFAULT_TYPE_LABELS
+  types?: Record<string, string>;
+  // Label for each commit scope, "{scope}" is replaced
+  scope?: string;
+  // CODEOWNERS-style pattern → label(s), for the files the PR touches
+  paths?: Record<string, string | string[]>;
+  // Replace DEFAULT_SIZE_LABELS ([] disables size labels)
+  sizes?: SizeLabel[];
+  breaking?: string;
+}
+
+export interface InferredLabel {
+  label: string;
+  // "type feat", "scope auth", "path docs/**", "42 changed lines", "breaking change"
+  reason: string;
+}
+
+/**
+ * Labels for a PR: its conventional type and scopes, the paths it touches, its size and breaking changes.
+ * Each label appears once (case-insensitively), with the first reason found.
+ */
+export function inferLabels(
+  analysis: Pick<AnalysisResult, "commits" | "filesList" | "insertions" | "deletions">,
+  rules: LabelRules = {}
+): InferredLabel[] {
+  const commits = analysis.commits.map((commit) => parseCommitMessage(commit.message, commit.body));
+  const inferred: InferredLabel[] = [];
+
+  const type = inferTypeFromCommits(analysis.commits.map((commit) => commit.message));
+  const typeLabel = { ...DEFAULT_TYPE_LABELS, ...rules.types }[type];
+  if (typeLabel) inferred.push({ label: typeLabel, reason: `type ${type}` });
+
+  const scopeLabel = rules.scope ?? DEFAULT_SCOPE_LABEL;
+  if (scopeLabel) {
+    for (const scope of new Set(commits.flatMap((commit) => (commit.scope ? [commit.scope.trim()] : [])))) {
+      if (scope) inferred.push({ label: scopeLabel.replace(/\{scope\}/g, scope), reason: `scope ${scope}` });
+    }
+  }
+
+  for (const [pattern, labels] of Object.entries(rules.paths ?? {})) {
+    const regex = codeOwnersPatternToRegExp(pattern);
+    if (analysis.filesList.some((file) => regex.test(file.file))) {
+      for (const label of [labels].flat().filter(Boolean)) {
+        inferred.push({ label, reason: `path ${pattern}` });
+      }
+    }
+  }
+
+  const changedLines = analysis.insertions + analysis.deletions;
+  const size = (rules.sizes ?? DEFAULT_SIZE_LABELS).find((bucket) => bucket.max === undefined || changedLines <= bucket.max);
+  if (size?.label) inferred.push({ label: size.label, reason: `${changedLines} changed lines` });
+
+  const breakingLabel = rules.breaking ?? DEFAULT_BREAKING_LABEL;
+  if (breakingLabel && commits.some((commit) => commit.breaking)) {
+    inferred.push({ label: breakingLabel, reason: "breaking change" });
+  }
+
+  const seen = new Set<string>();
+  return inferred.filter(({ label }) => {
+    const key = label.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Adds inferred labels to a PR. Labels missing from the repository are created when asked, skipped
+ * otherwise. A dry run (or a PR not created yet) only reports what would happen.
+ */
+export async function applyLabels(
+  provider: GitProvider,
+  number: number | undefined,
+  labels: InferredLabel[],
+  { createMissing = false, dryRun = false }: { createMissing?: boolean; dryRun?: boolean } = {}
+): Promise<LabelResult[]> {
+  if (labels.length === 0) return [];
+
+  // Labels are matched case-insensitively, and added under the repository's spelling
+  let existing: Map<string, string>;
+  try {
+    existing = new Map((await provider.listLabels()).map((name) => [name.toLowerCase(), name]));
+  } catch (error) {
+    const note = `Could not list the repository's labels: ${error instanceof Error ? error.message : String(error)}`;
+    return labels.map(({ label, reason }) => ({ label, reason, status: "failed", note }));
+  }
+  const results: LabelResult[] = labels.map(({ label, reason }) => {
+    const name = existing.get(label.toLowerCase());
+    if (name) return { label: name, reason, status: "applied" };
+    return createMissing
+      ? { label, reason, status: "created" }
+      : { label, reason, status: "skipped", note: "Not a label of the repository (set createMissingLabels to create it)" };
+  });
+  if (dryRun || number === undefined) return results;
+
+  for (const result of results.filter((r) => r.status === "created")) {
+    try {
+      await provider.createLabel(result.label);
+    } catch (error) {
+      Object.assign(result, { status: "failed", note: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const toAdd = results.filter((r) => r.status === "applied" || r.status === "created");
+  if (toAdd.length > 0) {
+    try {
+      await provider.addLabels(number, toAdd.map((r) => r.label));
+    } catch (error) {
+      const note = error instanceof Error ? error.message : String(error);
+      toAdd.forEach((result) => Object.assign(result, { status: "failed", note }));
+    }
+  }
+  return results;
+}
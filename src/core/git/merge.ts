@@ -0,0 +1,49 @@
+import type { GitProvider, MergeMethod, MergeStatus } from "../providers/types.js";
+
+/**
+ * Outcome of the autoMerge option of the create tools
+ */
+export interface AutoMergeResult {
+  method: MergeMethod;
+  status: "enabled" | "failed";
+  note?: string;
+}
+
+/**
+ * Why a PR can't be merged yet: its state, conflicts, failing or pending required checks and
+ * missing approvals. Checks the service doesn't mark as required or optional count as required.
+ */
+export function mergeBlockers(status: MergeStatus, requiredApprovals: number = 0): string[] {
+  const blockers: string[] = [];
+
+  if (status.state !== "open") blockers.push(`PR is ${status.state}`);
+  if (status.draft) blockers.push("PR is a draft");
+  if (status.mergeable === false) blockers.push("PR has conflicts with its base branch");
+  if (status.mergeable === undefined) blockers.push("Mergeability is still being computed, try again shortly");
+
+  for (const check of status.checks.filter((c) => c.required !== false)) {
+    if (check.status === "failure") blockers.push(`Check "${check.name}" failed`);
+    if (check.status === "pending") blockers.push(`Check "${check.name}" is pending`);
+  }
+
+  if (status.reviewDecision === "changes_requested") blockers.push("Changes were requested");
+  if (status.reviewDecision === "review_required") blockers.push("Required approvals are missing");
+  if (status.approvals < requiredApprovals) {
+    blockers.push(`${status.approvals} approval(s), ${requiredApprovals} required`);
+  }
+
+  return blockers;
+}
+
+/**
+ * Turns on auto-merge for a PR. Repositories without auto-merge, and PRs that could already be
+ * merged (GitHub), are reported as failed rather than thrown.
+ */
+export async function enableAutoMerge(provider: GitProvider, number: number, method: MergeMethod): Promise<AutoMergeResult> {
+  try {
+    await provider.enableAutoMerge(number, method);
+    return { method, status: "enabled" };
+  } catch (error) {
+    return { method, status: "failed", note: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,81 @@
+import { SimpleGit } from "simple-git";
+import { PushResult } from "./types.js";
+
+/**
+ * Commits localRef has that remoteRef hasn't (ahead), and the other way around (behind)
+ */
+export async function aheadBehind(
+  git: SimpleGit,
+  localRef: string,
+  remoteRef: string
+): Promise<{ ahead: number; behind: number }> {
+  const output = await git.raw(["rev-list", "--left-right", "--count", `${remoteRef}...${localRef}`]);
+  const [behind, ahead] = output.trim().split(/\s+/).map(Number);
+  return { ahead, behind };
+}
+
+async function hasCommit(git: SimpleGit, sha: string): Promise<boolean> {
+  try {
+    return !!(await git.raw(["rev-parse", "--verify", "--quiet", `${sha}^{commit}`]) || "").trim();
+  } catch {
+    return false;
+  }
+}
+
+export interface PushOptions {
+  // Overwrite remote commits the local branch hasn't
+  force?: boolean;
+  // Only report what would be pushed
+  dryRun?: boolean;
+}
+
+/**
+ * Pushes a local branch with upstream tracking. The remote branch is fetched first: when it has
+ * commits the local branch hasn't (behind or diverged), it is only overwritten with force, and
+ * then with a lease on the fetched commit. A dry run fetches nothing: it compares with the remote
+ * commit when it is already known locally, and reports "unknown" otherwise.
+ */
+export async function pushBranch(
+  git: SimpleGit,
+  remote: string,
+  branch: string,
+  { force = false, dryRun = false }: PushOptions = {}
+): Promise<PushResult> {
+  const refspec = `${branch}:refs/heads/${branch}`;
+  const remoteHead = await git.raw(["ls-remote", "--heads", remote, `refs/heads/${branch}`]);
+  const remoteSha = remoteHead.trim().split(/\s+/)[0];
+
+  if (!remoteSha) {
+    const commits = Number((await git.raw(["rev-list", "--count", branch, "--not", `--remotes=${remote}`])).trim());
+    if (!dryRun) await git.raw(["push", "--set-upstream", remote, refspec]);
+    return { remote, branch, action: "created", commits };
+  }
+
+  let remoteRef = remoteSha;
+  if (dryRun) {
+    if (!(await hasCommit(git, remoteSha))) {
+      return { remote, branch, action: "unknown", commits: 0, note: `${remote}/${branch} has commits that weren't fetched` };
+    }
+  } else {
+    remoteRef = `refs/remotes/${remote}/${branch}`;
+    await git.raw(["fetch", remote, `+refs/heads/${branch}:${remoteRef}`]);
+  }
+  const { ahead, behind } = await aheadBehind(git, branch, remoteRef);
+
+  if (ahead === 0 && behind === 0) {
+    return { remote, branch, action: "up-to-date", commits: 0 };
+  }
+  if (behind > 0 && !force) {
+    throw new Error(
+      `${remote}/${branch} has ${behind} commit(s) that "${branch}" doesn't have` +
+      `${ahead > 0 ? ` (the branches have diverged, ${ahead} local commit(s) not pushed)` : ""}. ` +
+      "Pull or rebase first, or set forcePush to overwrite them."
+    );
+  }
+
+  const lease = behind > 0 ? [`--force-with-lease=refs/heads/${branch}:${remoteSha}`] : [];
+  if (!dryRun) await git.raw(["push", "--set-upstream", ...lease, remote, refspec]);
+  return behind > 0
+    ? { remote, branch, action: "forced", commits: ahead, overwritten: behind }
+    : { remote, branch, action: "pushed", commits: ahead };
+}
@@ -0,0 +1,198 @@
+import { parseCommitHeader, parseCommitMessage } from "./commit-parser.js";
+import { CommitInfo } from "./types.js";
+
+/**
+ * Keep-a-Changelog section headings, in the order they are rendered
+ */
+export type ChangelogSection = "Added" | "Changed" | "Deprecated" | "Removed" | "Fixed" | "Security";
+
+const SECTION_ORDER: ChangelogSection[] = ["Added", "Changed", "Deprecated", "Removed", "Fixed", "Security"];
+
+const SECTION_BY_TYPE: Record<string, ChangelogSection> = {
+  feat: "Added",
+  fix: "Fixed",
+  perf: "Changed",
+  refactor: "Changed",
+  revert: "Changed",
+  deprecate: "Deprecated",
+  remove: "Removed",
+  security: "Security",
+};
+
+// Housekeeping commits, left out of release notes unless explicitly requested
+const INTERNAL_TYPES = ["docs", "style", "test", "build", "ci", "chore"];
+
+export interface ReleasePullRequest {
+  number: number;
+  title?: string;
+  url?: string;
+}
+
+export interface ReleaseEntry {
+  type?: string;
+  scope?: string;
+  breaking: boolean;
+  subject: string;
+  hashes: string[];
+  pullRequest?: ReleasePullRequest;
+}
+
+export interface ReleaseNotesOptions {
+  version: string;
+  date?: string;
+  // Include docs/test/ci/chore... commits under "Changed"
+  includeAll?: boolean;
+}
+
+/**
+ * Finds the PR number GitHub adds to squash merges ("subject (#123)")
+ * or merge commits ("Merge pull request #123 from ...")
+ */
+export function extractPullRequestNumber(message: string): number | undefined {
+  const match = message.match(/\(#(\d+)\)\s*$/m) || message.match(/^Merge pull request #(\d+)/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Turns commits into release entries. Commits that belong to the same pull request
+ * are collapsed into a single entry described by the PR title when it is known.
+ */
+export function buildReleaseEntries(
+  commits: CommitInfo[],
+  pullRequests: Map<string, ReleasePullRequest> = new Map()
+): ReleaseEntry[] {
+  const entries: ReleaseEntry[] = [];
+  const byPullRequest = new Map<number, ReleaseEntry>();
+
+  for (const commit of commits) {
+    let pullRequest = pullRequests.get(commit.hash);
+    if (!pullRequest) {
+      const number = extractPullRequestNumber(commit.message);
+      pullRequest = number !== undefined ? { number } : undefined;
+    }
+
+    // A BREAKING CHANGE footer in any commit makes the whole entry breaking
+    const breaking = parseCommitMessage(commit.message, commit.body).breaking;
+
+    if (pullRequest && byPullRequest.has(pullRequest.number)) {
+      const existing = byPullRequest.get(pullRequest.number)!;
+      existing.hashes.push(commit.hash);
+      existing.breaking = existing.breaking || breaking;
+      continue;
+    }
+
+    const header = (pullRequest?.title ?? commit.message.split("\n")[0])
+      .replace(/\s*\(#\d+\)\s*$/, "");
+    const parsed = parseCommitHeader(header);
+    const entry: ReleaseEntry = {
+      ...parsed,
+      breaking: parsed.breaking || breaking,
+      hashes: [commit.hash],
+      pullRequest,
+    };
+
+    entries.push(entry);
+    if (pullRequest) {
+      byPullRequest.set(pullRequest.number, entry);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Keep-a-Changelog section an entry belongs to, or undefined when it should be left out
+ */
+export function changelogSectionFor(entry: ReleaseEntry, includeAll: boolean = false): ChangelogSection | undefined {
+  if (entry.scope?.toLowerCase() === "security") return "Security";
+  if (!entry.type) return "Changed";
+  if (SECTION_BY_TYPE[entry.type]) return SECTION_BY_TYPE[entry.type];
+  if (INTERNAL_TYPES.includes(entry.type)) return includeAll ? "Changed" : undefined;
+  return "Changed";
+}
+
+function formatEntry(entry: ReleaseEntry): string {
+  const scope = entry.scope ? `**${entry.scope}:** ` : "";
+  let reference: string;
+  if (entry.pullRequest) {
+    const label = `#${entry.pullRequest.number}`;
+    reference = entry.pullRequest.url ? `[${label}](${entry.pullRequest.url})` : label;
+  } else {
+    reference = entry.hashes[0].substring(0, 7);
+  }
+  return `- ${scope}${entry.subject} (${reference})`;
+}
+
+/**
+ * Sorts entries by scope so that related changes end up next to each other,
+ * unscoped entries first
+ */
+function byScope(a: ReleaseEntry, b: ReleaseEntry): number {
+  return (a.scope ?? "").localeCompare(b.scope ?? "");
+}
+
+/**
+ * Renders a Keep-a-Changelog release section ("## [1.2.0] - 2024-05-01")
+ */
+export function formatReleaseNotes(entries: ReleaseEntry[], options: ReleaseNotesOptions): string {
+  const heading = options.version === "Unreleased" || !options.date
+    ? `## [${options.version}]`
+    : `## [${options.version}] - ${options.date}`;
+  const output: string[] = [heading];
+
+  const breaking = entries.filter((e) => e.breaking);
+  if (breaking.length > 0) {
+    output.push("", "### ⚠ BREAKING CHANGES", "", ...[...breaking].sort(byScope).map(formatEntry));
+  }
+
+  for (const section of SECTION_ORDER) {
+    const sectionEntries = entries.filter(
+      (e) => !e.breaking && changelogSectionFor(e, options.includeAll) === section
+    );
+    if (sectionEntries.length === 0) continue;
+    output.push("", `### ${section}`, "", ...[...sectionEntries].sort(byScope).map(formatEntry));
+  }
+
+  if (output.length === 1) {
+    output.push("", "_No notable changes._");
+  }
+
+  return output.join("\n") + "\n";
+}
+
+const CHANGELOG_HEADER = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/),
+and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
+`;
+
+/**
+ * Inserts a release section into an existing CHANGELOG.md (or a new one),
+ * above the latest release and below the [Unreleased] section if there is one
+ */
+export function prependChangelogSection(existing: string | undefined, section: string, version: string): string {
+  if (!existing || existing.trim() === "") {
+    return `${CHANGELOG_HEADER}\n${section}`;
+  }
+
+  const lines = existing.split("\n");
+  const headings = lines
+    .map((line, index) => ({ line, index }))
+    .filter(({ line }) => /^## \[?[^\]\s]+\]?/.test(line));
+
+  const escaped = version.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (headings.some(({ line }) => new RegExp(`^## \\[?${escaped}\\]?(\\s|$)`, "i").test(line))) {
+    throw new Error(`CHANGELOG already contains a section for ${version}`);
+  }
+
+  const unreleased = headings.findIndex(({ line }) => /^## \[?Unreleased\]?/i.test(line));
+  const insertAt = version !== "Unreleased" && unreleased !== -1
+    ? headings[unreleased + 1]?.index ?? lines.length
+    : headings[0]?.index ?? lines.length;
+
+  const before = lines.slice(0, insertAt).join("\n").replace(/\n*$/, "");
+  const after = lines.slice(insertAt).join("\n");
+  return `${before}\n\n${section}${after ? `\n${after}` : ""}`;
+}
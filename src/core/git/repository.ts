@@ -1,6 +1,7 @@
 import { simpleGit, SimpleGit } from "simple-git";
 import { existsSync } from "fs";
 import { join } from "path";
+import { resolveRemoteRepository } from "../providers/hosts.js";
 
 function findGitRoot(startDir: string = process.cwd()): string {
   let currentDir = startDir;
@@ -74,10 +75,12 @@ export function createGitInstance(workingDir: string): SimpleGit {
 export interface GitHubRepoInfo {
   owner: string;
   repo: string;
+  // REST API base URL, https://api.github.com or https://<host>/api/v3 for GitHub Enterprise Server
+  apiUrl: string;
 }
 
 /**
- * Extracts GitHub owner and repository name from git remote URL
+ * Extracts GitHub owner, repository name and API base URL from git remote URL
  */
 export async function getGitHubRepoInfo(workingDir?: string): Promise<GitHubRepoInfo> {
   try {
@@ -89,28 +92,13 @@ export async function getGitHubRepoInfo(workingDir?: string): Promise<GitHubRepo
       throw new Error("No remote URL found for 'origin'");
     }
     const url = remoteUrl.trim();
-    
-    // Match patterns like:
-    // - git@github.com:owner/repo.git
-    // - https://github.com/owner/repo.git
-    // - https://github.com/owner/repo
-    const sshMatch = url.match(/git@github\.com:(.+)\/(.+)\.git$/);
-    if (sshMatch) {
-      return {
-        owner: sshMatch[1],
-        repo: sshMatch[2].replace(/\.git$/, ""),
-      };
-    }
-    
-    const httpsMatch = url.match(/https?:\/\/github\.com\/(.+)\/(.+?)(?:\.git)?$/);
-    if (httpsMatch) {
-      return {
-        owner: httpsMatch[1],
-        repo: httpsMatch[2].replace(/\.git$/, ""),
-      };
+
+    // github.com, GitHub Enterprise Server hosts and SSH aliases of either
+    const { provider, owner, repo, apiUrl } = await resolveRemoteRepository(url);
+    if (provider !== "github") {
+      throw new Error(`Not a GitHub repository: ${url}`);
     }
-    
-    throw new Error(`Unable to parse GitHub repository from remote URL: ${url}`);
+    return { owner, repo, apiUrl };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     throw new Error(`Error getting GitHub repo info: ${errorMessage}`);
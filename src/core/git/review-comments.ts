@@ -0,0 +1,98 @@
+import type { PullRequestFile, ReviewCommentInput } from "../providers/types.js";
+
+export type FindingSeverity = "critical" | "warning" | "suggestion";
+
+/**
+ * A review finding on a line of the new version of a file
+ */
+export interface ReviewFinding {
+  file: string;
+  line: number;
+  severity: FindingSeverity;
+  message: string;
+  // Replacement for the line, posted as a suggestion block
+  suggestion?: string;
+}
+
+export interface PlacedFindings {
+  comments: ReviewCommentInput[];
+  // Findings on lines the PR diff doesn't show, which can't be commented inline
+  outsideDiff: ReviewFinding[];
+}
+
+const HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+const SEVERITY_LABELS: Record<FindingSeverity, string> = {
+  critical: "🔴 Critical",
+  warning: "🟠 Warning",
+  suggestion: "🔵 Suggestion",
+};
+
+/**
+ * Diff position of each line of the new file a patch shows (added and context lines). Positions count
+ * the lines below the first hunk header, later hunk headers included, as GitHub review comments expect.
+ */
+export function patchPositions(patch: string): Map<number, number> {
+  const positions = new Map<number, number>();
+  let position = 0;
+  let newLine = 0;
+  let started = false;
+
+  for (const line of patch.split("\n")) {
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      if (started) position++;
+      started = true;
+      newLine = Number(header[1]);
+      continue;
+    }
+    if (!started) continue;
+
+    position++;
+    if (line.startsWith("+") || line.startsWith(" ")) {
+      positions.set(newLine, position);
+      newLine++;
+    }
+  }
+  return positions;
+}
+
+/**
+ * Comment body of a finding, with its suggestion as a suggestion block
+ */
+export function formatFinding(finding: ReviewFinding): string {
+  const body = `**${SEVERITY_LABELS[finding.severity]}:** ${finding.message.trim()}`;
+  return finding.suggestion !== undefined ? `${body}\n\n\`\`\`suggestion\n${finding.suggestion.replace(/\n$/, "")}\n\`\`\`` : body;
+}
+
+/**
+ * Places findings on the diff positions of the PR's files. Findings on files without a patch (binary,
+ * too large) or on lines outside the hunks are returned apart.
+ */
+export function placeFindings(findings: ReviewFinding[], files: PullRequestFile[]): PlacedFindings {
+  const positions = new Map(files.map((file) => [file.file, file.patch ? patchPositions(file.patch) : new Map<number, number>()]));
+  const placed: PlacedFindings = { comments: [], outsideDiff: [] };
+
+  for (const finding of findings) {
+    const path = finding.file.replace(/^\.?\//, "");
+    const position = positions.get(path)?.get(finding.line);
+    if (position === undefined) {
+      placed.outsideDiff.push(finding);
+    } else {
+      placed.comments.push({ path, position, body: formatFinding(finding) });
+    }
+  }
+  return placed;
+}
+
+/**
+ * Review body: the summary, then the findings that couldn't be commented inline
+ */
+export function reviewBody(summary: string | undefined, outsideDiff: ReviewFinding[]): string {
+  const sections = summary?.trim() ? [summary.trim()] : [];
+  if (outsideDiff.length > 0) {
+    const findings = outsideDiff.map((finding) => `- \`${finding.file}:${finding.line}\` ${formatFinding({ ...finding, suggestion: undefined })}`);
+    sections.push(`**Outside the diff:**\n${findings.join("\n")}`);
+  }
+  return sections.join("\n\n");
+}
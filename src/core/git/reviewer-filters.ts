@@ -0,0 +1,118 @@
+import { Octokit } from "@octokit/rest";
+import { getGitHubRepoInfo, GitHubRepoInfo } from "./repository.js";
+
+/**
+ * Accounts that commit but don't review: GitHub apps, dependency bots, CI and service accounts.
+ * Matched (case-insensitively) against names, emails and logins.
+ */
+export const DEFAULT_BOT_PATTERNS = [
+  "\\[bot\\]",
+  "^(dependabot|renovate|greenkeeper|snyk-bot|github-actions|semantic-release-bot|codecov|mergify|pre-commit-ci|allcontributors|imgbot|netlify|vercel)\\b",
+  "(^|[-_.])bot($|[-_.@])",
+  "^(jenkins|buildkite|circleci|travis|teamcity|gitlab-ci)\\b",
+  "^(ci|build|deploy|automation|release)([-_.]?(user|account|bot))?@",
+  "^noreply@github\\.com$",
+];
+
+export interface ReviewerExclusionRules {
+  // Logins, emails or names that are never suggested (people who left, shared accounts...)
+  exclude?: string[];
+  // Extra regular expressions for bot and service accounts, on top of DEFAULT_BOT_PATTERNS
+  botPatterns?: string[];
+  // Only suggest members of one of these organizations or teams ("acme", "acme/backend")
+  onlyMembersOf?: string[];
+}
+
+export interface ReviewerCandidate {
+  name?: string;
+  email?: string;
+  login?: string;
+}
+
+/**
+ * Tells whether a login belongs to an organization or team ("acme", "acme/backend")
+ */
+export type MembershipCheck = (login: string, group: string) => Promise<boolean>;
+
+/**
+ * Compiles the rules into a function giving the reason a candidate is excluded, if any
+ */
+export function createExclusionFilter(
+  rules: ReviewerExclusionRules
+): (candidate: ReviewerCandidate) => string | undefined {
+  const denied = new Set((rules.exclude ?? []).map((entry) => entry.replace(/^@/, "").toLowerCase()));
+  const botPatterns = [...DEFAULT_BOT_PATTERNS, ...(rules.botPatterns ?? [])].map((pattern) => {
+    try {
+      return new RegExp(pattern, "i");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid bot pattern "${pattern}": ${errorMessage}`);
+    }
+  });
+
+  return (candidate) => {
+    const values = [candidate.login, candidate.email, candidate.name].filter((v): v is string => !!v);
+
+    const deniedValue = values.find((value) => denied.has(value.toLowerCase()));
+    if (deniedValue) {
+      return `Excluded by the deny list (${deniedValue})`;
+    }
+
+    for (const pattern of botPatterns) {
+      const botValue = values.find((value) => pattern.test(value));
+      if (botValue) {
+        return `Bot or service account (${botValue} matches ${pattern.source})`;
+      }
+    }
+
+    return undefined;
+  };
+}
+
+/**
+ * Checks organization and team membership through the GitHub API, caching answers per call.
+ * Organizations are looked up on the GitHub host of the repository (the origin's by default, github.com
+ * outside GitHub repositories).
+ */
+export function createGitHubMembershipCheck(
+  token: string,
+  repository: () => Promise<GitHubRepoInfo> = () => getGitHubRepoInfo()
+): MembershipCheck {
+  let client: Promise<Octokit> | undefined;
+  const getOctokit = () =>
+    (client ??= repository().then(
+      ({ apiUrl }) => new Octokit({ auth: token, baseUrl: apiUrl }),
+      () => new Octokit({ auth: token })
+    ));
+  const cache = new Map<string, Promise<boolean>>();
+
+  const check = async (login: string, group: string): Promise<boolean> => {
+    const [org, team] = group.replace(/^@/, "").split("/");
+    const octokit = await getOctokit();
+    try {
+      if (team) {
+        const { data } = await octokit.rest.teams.getMembershipForUserInOrg({ org, team_slug: team, username: login });
+        return data.state === "active";
+      }
+      await octokit.rest.orgs.checkMembershipForUser({ org, username: login });
+      return true;
+    } catch (error: unknown) {
+      const errorStatus = error && typeof error === "object" && "status" in error ? error.status : null;
+      if (errorStatus === 404) {
+        return false;
+      }
+      if (errorStatus === 302) {
+        throw new Error(`the token can't see the members of ${org}`);
+      }
+      throw error;
+    }
+  };
+
+  return (login, group) => {
+    const key = `${group}|${login}`.toLowerCase();
+    if (!cache.has(key)) {
+      cache.set(key, check(login, group));
+    }
+    return cache.get(key)!;
+  };
+}
@@ -0,0 +1,66 @@
+import { Octokit } from "@octokit/rest";
+import { GitHubRepoInfo } from "./repository.js";
+import { ReviewerSuggestion } from "./types.js";
+
+/**
+ * Number of open review requests at which a reviewer's score counts half
+ */
+export const REVIEW_LOAD_HALF_POINT = 3;
+
+// Candidates considered per suggested reviewer when balancing, best scores first
+export const LOAD_BALANCING_POOL = 2;
+
+/**
+ * Open review requests per login (lowercased) across the open PRs of a repository
+ */
+export async function fetchOpenReviewRequests(token: string, { owner, repo, apiUrl }: GitHubRepoInfo): Promise<Map<string, number>> {
+  const octokit = new Octokit({ auth: token, baseUrl: apiUrl });
+
+  const pulls = await octokit.paginate(octokit.rest.pulls.list, { owner, repo, state: "open", per_page: 100 });
+  const requests = new Map<string, number>();
+  for (const pull of pulls) {
+    for (const reviewer of pull.requested_reviewers ?? []) {
+      const login = reviewer.login.toLowerCase();
+      requests.set(login, (requests.get(login) ?? 0) + 1);
+    }
+  }
+  return requests;
+}
+
+/**
+ * Multiplier applied to a score: 1 without open requests, 0.5 at REVIEW_LOAD_HALF_POINT, 0.25 at three times that
+ */
+export function loadPenalty(openReviews: number): number {
+  return 1 / (1 + openReviews / REVIEW_LOAD_HALF_POINT);
+}
+
+/**
+ * Re-ranks candidates by their score times loadPenalty, recording each one's open review requests.
+ * Ties keep their original order.
+ */
+export function balanceByLoad(candidates: ReviewerSuggestion[], openReviews: Map<string, number>): ReviewerSuggestion[] {
+  return candidates
+    .map((candidate, index) => {
+      const open = openReviews.get(candidate.author.toLowerCase()) ?? 0;
+      return { candidate: { ...candidate, openReviews: open }, index, weight: (candidate.score?.total ?? 0) * loadPenalty(open) };
+    })
+    .sort((a, b) => b.weight - a.weight || a.index - b.index)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Rotates candidates by an offset derived from the key (e.g. the branch name): the same branch
+ * always gets the same reviewers, different branches spread over the pool
+ */
+export function rotateCandidates<T>(candidates: T[], key: string): T[] {
+  if (candidates.length === 0) return candidates;
+
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  const offset = hash % candidates.length;
+  return [...candidates.slice(offset), ...candidates.slice(0, offset)];
+}
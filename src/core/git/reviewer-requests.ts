@@ -0,0 +1,127 @@
+import { ReviewerRequest, ReviewerRequestResult, ReviewerSuggestion } from "./types.js";
+
+export interface ExplicitReviewers {
+  reviewers?: string[];
+  teamReviewers?: string[];
+}
+
+/**
+ * Slug of a team reviewer: "@acme/backend", "acme/backend" and "backend" are all "backend"
+ */
+export function teamSlug(team: string): string {
+  return team.replace(/^@/, "").split("/").pop()!.toLowerCase();
+}
+
+/**
+ * Reviewers to request: explicit reviewers and teams first, then suggestions (CODEOWNERS teams included).
+ * Each reviewer is requested once.
+ */
+export function reviewerRequests(explicit: ExplicitReviewers, suggestions: ReviewerSuggestion[] = []): ReviewerRequest[] {
+  const requests: ReviewerRequest[] = [
+    ...(explicit.reviewers ?? []).map((reviewer) => ({ reviewer, team: false, source: "explicit" as const })),
+    ...(explicit.teamReviewers ?? []).map((reviewer) => ({ reviewer, team: true, source: "explicit" as const })),
+    ...suggestions.map((suggestion) => ({
+      reviewer: suggestion.author,
+      team: suggestion.team ?? false,
+      source: suggestion.source ?? "history",
+    })),
+  ];
+
+  const seen = new Set<string>();
+  return requests
+    .map((request) => ({ ...request, reviewer: request.reviewer.trim().replace(/^@/, "") }))
+    .filter((request) => {
+      const key = request.team ? `team:${teamSlug(request.reviewer)}` : request.reviewer.toLowerCase();
+      if (!request.reviewer || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Sends one request to the hosting service. Returns the users and team slugs requested on the PR
+ * afterwards: those missing were silently dropped.
+ */
+export type ReviewerRequestSender = (users: string[], teams: string[]) => Promise<{ users: string[]; teams: string[] }>;
+
+/**
+ * Requests reviewers and teams on a PR and reports the outcome per reviewer. Services reject the whole
+ * request when one reviewer is invalid, so a failed request is retried one reviewer at a time.
+ */
+export async function requestReviewers(
+  send: ReviewerRequestSender,
+  requests: ReviewerRequest[],
+  prAuthor: string,
+  supportsTeams: boolean = true
+): Promise<ReviewerRequestResult[]> {
+  const results = new Map<ReviewerRequest, ReviewerRequestResult>();
+  const pending: ReviewerRequest[] = [];
+
+  for (const request of requests) {
+    if (request.team && !supportsTeams) {
+      results.set(request, { ...request, status: "skipped", reason: "Team reviewers are not supported by this service" });
+    } else if (!request.team && request.reviewer.includes("@")) {
+      results.set(request, { ...request, status: "skipped", reason: "Email owner from CODEOWNERS, not a login" });
+    } else if (!request.team && request.reviewer.toLowerCase() === prAuthor.toLowerCase()) {
+      results.set(request, { ...request, status: "skipped", reason: "PR author" });
+    } else {
+      pending.push(request);
+    }
+  }
+
+  const sendBatch = async (batch: ReviewerRequest[]) => {
+    const requested = await send(
+      batch.filter((r) => !r.team).map((r) => r.reviewer),
+      batch.filter((r) => r.team).map((r) => teamSlug(r.reviewer))
+    );
+
+    const requestedUsers = new Set(requested.users.map((login) => login.toLowerCase()));
+    const requestedTeams = new Set(requested.teams.map((slug) => slug.toLowerCase()));
+    for (const request of batch) {
+      const added = request.team
+        ? requestedTeams.has(teamSlug(request.reviewer))
+        : requestedUsers.has(request.reviewer.toLowerCase());
+      results.set(
+        request,
+        added
+          ? { ...request, status: "requested" }
+          : { ...request, status: "failed", reason: "Not added (not a collaborator, or already reviewed the PR)" }
+      );
+    }
+  };
+
+  const fail = (request: ReviewerRequest, error: unknown) => {
+    results.set(request, { ...request, status: "failed", reason: error instanceof Error ? error.message : String(error) });
+  };
+
+  if (pending.length > 0) {
+    try {
+      await sendBatch(pending);
+    } catch (error) {
+      if (pending.length === 1) {
+        fail(pending[0], error);
+      } else {
+        for (const request of pending) {
+          try {
+            await sendBatch([request]);
+          } catch (requestError) {
+            fail(request, requestError);
+          }
+        }
+      }
+    }
+  }
+
+  return requests.map((request) => results.get(request)!);
+}
+
+/**
+ * Outcome of requestReviewers if every request went through, for dry runs: nothing is sent
+ */
+export function planReviewerRequests(
+  requests: ReviewerRequest[],
+  prAuthor: string,
+  supportsTeams: boolean = true
+): Promise<ReviewerRequestResult[]> {
+  return requestReviewers(async (users, teams) => ({ users, teams }), requests, prAuthor, supportsTeams);
+}
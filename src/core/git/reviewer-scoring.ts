@@ -0,0 +1,162 @@
+import { DiffFile, ReviewerScore } from "./types.js";
+
+/**
+ * Age at which a contribution counts half as much as one made today
+ */
+export const RECENCY_HALF_LIFE_DAYS = 180;
+
+// Share of a file's score coming from the touched lines vs the file's commit history
+const BLAME_WEIGHT = 0.7;
+const HISTORY_WEIGHT = 0.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A commit to a file, or a touched line last changed by someone (from git blame)
+ */
+export interface Contribution {
+  name: string;
+  email: string;
+  date?: Date;
+  hash?: string;
+}
+
+export interface FileContributions {
+  file: string;
+  blame: Contribution[];
+  commits: Contribution[];
+}
+
+export interface ContributorScore {
+  name: string;
+  email: string;
+  // Their latest commit among the contributions, to look up their GitHub login
+  hash?: string;
+  score: ReviewerScore;
+}
+
+/**
+ * Exponential decay: 1 today, 0.5 after RECENCY_HALF_LIFE_DAYS, 0.25 after twice that.
+ * Contributions without a date are not decayed.
+ */
+export function recencyWeight(date: Date | undefined, now: Date, halfLifeDays: number = RECENCY_HALF_LIFE_DAYS): number {
+  if (!date || isNaN(date.getTime())) return 1;
+  const ageDays = Math.max(0, (now.getTime() - date.getTime()) / DAY_MS);
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Line ranges of the base version touched by the diff (hunks include their context lines),
+ * as 1-based inclusive [start, end] pairs for `git blame -L`
+ */
+export function touchedLineRanges(file: DiffFile): Array<[number, number]> {
+  if (file.status === "added" || file.isBinary) return [];
+
+  return file.hunks
+    .map((hunk): [number, number] | undefined => {
+      if (hunk.oldLines > 0) return [hunk.oldStart, hunk.oldStart + hunk.oldLines - 1];
+      // Pure insertion without context: blame the line it was inserted after
+      return hunk.oldStart > 0 ? [hunk.oldStart, hunk.oldStart] : undefined;
+    })
+    .filter((range): range is [number, number] => range !== undefined);
+}
+
+/**
+ * Parses `git blame --line-porcelain` output into one contribution per line.
+ * Uncommitted lines are skipped.
+ */
+export function parseBlamePorcelain(output: string): Contribution[] {
+  const lines: Contribution[] = [];
+  let name = "";
+  let email = "";
+  let time: number | undefined;
+  let hash = "";
+
+  for (const line of output.split("\n")) {
+    if (line.startsWith("\t")) {
+      // Content line: end of this line's headers
+      if (name && !/^0+$/.test(hash)) {
+        lines.push({ name, email, date: time !== undefined ? new Date(time * 1000) : undefined, hash });
+      }
+      name = "";
+      email = "";
+      time = undefined;
+      hash = "";
+    } else if (/^[0-9a-f]{40} /.test(line)) {
+      hash = line.slice(0, 40);
+    } else if (line.startsWith("author ")) {
+      name = line.slice("author ".length);
+    } else if (line.startsWith("author-mail ")) {
+      email = line.slice("author-mail ".length).replace(/^<|>$/g, "");
+    } else if (line.startsWith("author-time ")) {
+      time = Number(line.slice("author-time ".length));
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Scores contributors over the modified files. Each file is worth at most one point, split between
+ * the people who last changed its touched lines (70%) and who committed to it (30%).
+ * Every line and commit is decayed by recencyWeight, so a file only owned by people
+ * who stopped working on it years ago is worth almost nothing. Sorted by score, best first.
+ */
+export function scoreContributors(files: FileContributions[], now: Date = new Date()): ContributorScore[] {
+  const contributors = new Map<string, ContributorScore & { lastActive?: Date; touchedFiles: Set<string> }>();
+
+  const contributor = (c: Contribution) => {
+    const key = (c.email || c.name).toLowerCase();
+    let entry = contributors.get(key);
+    if (!entry) {
+      entry = {
+        name: c.name,
+        email: c.email,
+        score: { total: 0, blame: 0, history: 0, blamedLines: 0, commits: 0, files: 0 },
+        touchedFiles: new Set(),
+      };
+      contributors.set(key, entry);
+    }
+    if (c.date && !isNaN(c.date.getTime()) && (!entry.lastActive || c.date > entry.lastActive)) {
+      entry.lastActive = c.date;
+      entry.hash = c.hash ?? entry.hash;
+    } else if (!entry.hash) {
+      entry.hash = c.hash;
+    }
+    return entry;
+  };
+
+  // Adds each contributor's share of a file's lines or commits, decayed by age
+  const addShares = (file: string, contributions: Contribution[], kind: "blame" | "history", weight: number) => {
+    contributions.forEach((c) => {
+      const entry = contributor(c);
+      entry.score[kind] += (weight * recencyWeight(c.date, now)) / contributions.length;
+      if (kind === "blame") entry.score.blamedLines++;
+      else entry.score.commits++;
+      entry.touchedFiles.add(file);
+    });
+  };
+
+  for (const file of files) {
+    addShares(file.file, file.blame, "blame", BLAME_WEIGHT);
+    addShares(file.file, file.commits, "history", HISTORY_WEIGHT);
+  }
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return Array.from(contributors.values())
+    .map(({ name, email, hash, score, lastActive, touchedFiles }) => ({
+      name,
+      email,
+      hash,
+      score: {
+        total: round(score.blame + score.history),
+        blame: round(score.blame),
+        history: round(score.history),
+        blamedLines: score.blamedLines,
+        commits: score.commits,
+        files: touchedFiles.size,
+        lastActive: lastActive?.toISOString(),
+      },
+    }))
+    .sort((a, b) => b.score.total - a.score.total || b.score.commits - a.score.commits);
+}
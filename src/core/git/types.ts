@@ -1,6 +1,8 @@
 export interface CommitInfo {
   hash: string;
+  // Subject line
   message: string;
+  body?: string;
   author: string;
   date: string;
 }
@@ -12,9 +14,36 @@ export interface FileChange {
   deletions: number;
 }
 
+/**
+ * What to compare:
+ * - branch: commits of the current branch since it diverged from the base branch
+ * - staged: changes in the index (what is about to be committed)
+ * - working-tree: staged and unstaged changes compared to HEAD
+ * - range: an explicit fromRef...toRef comparison
+ */
+export type AnalysisSource = "branch" | "staged" | "working-tree" | "range";
+
+export interface AnalysisScope {
+  source?: AnalysisSource;
+  fromRef?: string;
+  toRef?: string;
+}
+
+export interface IssueReference {
+  // "#42", "owner/repo#42" or a ticket key such as "PROJ-1234"
+  id: string;
+  kind: "github" | "ticket";
+  // Where it was first found
+  source: "branch" | "commit";
+  // Referenced with a closing keyword (Closes/Fixes/Resolves)
+  closing: boolean;
+}
+
 export interface AnalysisResult {
   currentBranch: string;
   baseBranch: string;
+  source?: AnalysisSource;
+  mergeBase?: string;
   totalCommits: number;
   commits: CommitInfo[];
   filesChanged: number;
@@ -25,16 +54,178 @@ export interface AnalysisResult {
   diffStats: string;
   hasBreakingChanges?: boolean;
   hasTests?: boolean;
+  diffFiles?: DiffFile[];
+  issueReferences?: IssueReference[];
+}
+
+/**
+ * Where a GitHub login comes from: the repository mapping file, a noreply email, or the GitHub commits API
+ */
+export type IdentitySource = "mapping" | "noreply" | "github";
+
+/**
+ * How a history-based reviewer was ranked, see reviewer-scoring.ts
+ */
+export interface ReviewerScore {
+  total: number;
+  // Recency-weighted share of the touched lines they last changed, summed over files
+  blame: number;
+  // Recency-weighted share of the commits to the modified files, summed over files
+  history: number;
+  blamedLines: number;
+  commits: number;
+  files: number;
+  lastActive?: string;
 }
 
 export interface ReviewerSuggestion {
   author: string;
   contributions: number;
   reason: string;
+  source?: "codeowners" | "history";
+  // GitHub team ("org/backend"), requested as a team reviewer
+  team?: boolean;
+  // How the GitHub login of a history-based reviewer was found
+  resolvedBy?: IdentitySource;
+  score?: ReviewerScore;
+  // Open PRs already waiting for their review, when balancing by load
+  openReviews?: number;
+}
+
+/**
+ * A reviewer or team to request on a PR
+ */
+export interface ReviewerRequest {
+  // GitHub login, or team ("org/backend" or "backend")
+  reviewer: string;
+  team: boolean;
+  source: "explicit" | "codeowners" | "history";
+}
+
+/**
+ * What happened to a reviewer request: requested, rejected by GitHub, or not sent (PR author, email owner)
+ */
+export interface ReviewerRequestResult extends ReviewerRequest {
+  status: "requested" | "failed" | "skipped";
+  reason?: string;
+}
+
+/**
+ * What happened to an inferred label: added, created then added, skipped (not a label of the
+ * repository), or failed
+ */
+export interface LabelResult {
+  label: string;
+  // Why it was inferred, see inferLabels
+  reason: string;
+  status: "applied" | "created" | "skipped" | "failed";
+  note?: string;
+}
+
+/**
+ * Assignees and milestone of a PR created or updated by the create tools
+ */
+export interface AssignmentResult {
+  // Assignees of the PR afterwards (those that would be added, for dry runs)
+  assignees: string[];
+  milestone?: string;
+  // "title", "nearest due date" or the linked issue it was inherited from ("issue #42")
+  milestoneSource?: string;
+  // Assignees and milestones that couldn't be resolved or set
+  notes?: string[];
+}
+
+/**
+ * What the push option did with the head branch before the PR was created
+ */
+export interface PushResult {
+  remote: string;
+  branch: string;
+  // "created" for a branch new to the remote, "forced" when remote commits were overwritten,
+  // "unknown" for dry runs that would need to fetch the remote branch
+  action: "created" | "pushed" | "forced" | "up-to-date" | "unknown";
+  // Commits sent to the remote (0 when unknown)
+  commits: number;
+  // Remote commits dropped by a force push
+  overwritten?: number;
+  // Why the outcome is unknown
+  note?: string;
+}
+
+/**
+ * A candidate left out by the exclusion rules (bots, deny list, organization/team membership)
+ */
+export interface ExcludedReviewer {
+  name?: string;
+  email?: string;
+  login?: string;
+  reason: string;
+}
+
+/**
+ * A contributor who would have been suggested but whose GitHub login is unknown
+ */
+export interface UnresolvedIdentity {
+  name: string;
+  email: string;
+  score: number;
+}
+
+export interface FileOwnership {
+  file: string;
+  owners: string[];
 }
 
 export interface ReviewersResult {
   suggestedReviewers: ReviewerSuggestion[];
   basedOn: string;
   error?: string;
+  // Path of the CODEOWNERS file used, when the repository has one
+  codeOwnersFile?: string;
+  // Required owners of every modified file, per CODEOWNERS
+  codeOwners?: FileOwnership[];
+  unresolvedIdentities?: UnresolvedIdentity[];
+  excludedReviewers?: ExcludedReviewer[];
+}
+
+export type DiffLineType = "add" | "delete" | "context";
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldLineNumber?: number;
+  newLineNumber?: number;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  section?: string;
+  lines: DiffLine[];
+}
+
+export type DiffFileStatus = "added" | "deleted" | "modified" | "renamed" | "copied";
+
+export interface DiffFile {
+  path: string;
+  oldPath?: string;
+  status: DiffFileStatus;
+  isBinary: boolean;
+  modeChanged: boolean;
+  oldMode?: string;
+  newMode?: string;
+  similarity?: number;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+export interface DiffResult {
+  currentBranch: string;
+  baseBranch: string;
+  source: AnalysisSource;
+  files: DiffFile[];
 }
@@ -0,0 +1,88 @@
+import { ConventionalCommit } from "./commit-parser.js";
+
+export type VersionBump = "major" | "minor" | "patch" | "none";
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease?: string;
+}
+
+const BUMP_RANK: Record<VersionBump, number> = { none: 0, patch: 1, minor: 2, major: 3 };
+
+const PATCH_TYPES = ["fix", "perf", "revert"];
+
+/**
+ * Release impact of a single commit: breaking → major, feat → minor, fix/perf/revert → patch
+ */
+export function bumpForCommit(commit: ConventionalCommit): VersionBump {
+  if (commit.breaking) return "major";
+  if (commit.type === "feat") return "minor";
+  if (commit.type && PATCH_TYPES.includes(commit.type)) return "patch";
+  return "none";
+}
+
+/**
+ * Highest bump among several
+ */
+export function maxBump(bumps: VersionBump[]): VersionBump {
+  return bumps.reduce<VersionBump>((max, bump) => (BUMP_RANK[bump] > BUMP_RANK[max] ? bump : max), "none");
+}
+
+/**
+ * Parses "1.2.3", "v1.2.3" or "1.2.3-beta.1+build" (build metadata is dropped)
+ */
+export function parseSemVer(version: string): SemVer | undefined {
+  const match = version.trim().match(/^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/);
+  if (!match) return undefined;
+
+  return {
+    major: parseInt(match[1], 10),
+    minor: parseInt(match[2], 10),
+    patch: parseInt(match[3], 10),
+    prerelease: match[4],
+  };
+}
+
+/**
+ * Bump actually applied to a version. While in initial development (0.y.z),
+ * breaking changes bump the minor version and features the patch version.
+ */
+export function effectiveBump(version: SemVer, bump: VersionBump): VersionBump {
+  if (version.major > 0 || bump === "none") return bump;
+  if (bump === "major") return "minor";
+  if (bump === "minor") return "patch";
+  return bump;
+}
+
+/**
+ * Computes the next version. A prerelease is released as-is when it already
+ * contains the bump (1.1.0-rc.1 + minor → 1.1.0).
+ */
+export function incrementVersion(version: SemVer, bump: VersionBump): string {
+  const { major, minor, patch, prerelease } = version;
+
+  if (bump === "none") {
+    return formatSemVer(version);
+  }
+
+  if (prerelease) {
+    const coversBump =
+      bump === "patch" ||
+      (bump === "minor" && patch === 0) ||
+      (bump === "major" && minor === 0 && patch === 0);
+    if (coversBump) {
+      return `${major}.${minor}.${patch}`;
+    }
+  }
+
+  if (bump === "major") return `${major + 1}.0.0`;
+  if (bump === "minor") return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+export function formatSemVer(version: SemVer): string {
+  const base = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease ? `${base}-${version.prerelease}` : base;
+}
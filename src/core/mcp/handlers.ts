@@ -1,21 +1,36 @@
 import { z } from "zod";
 import { executeAnalyzeBranch } from "../../tools/analyze-branch.tool.js";
+import { executeGetDiff } from "../../tools/get-diff.tool.js";
 import { executeGeneratePR } from "../../tools/generate-pr-description.tool.js";
 import { executeSuggestReviewers } from "../../tools/suggest-reviewers.tool.js";
 import { executeGenerateTitle } from "../../tools/generate-pr-title.tool.js";
+import { executeGenerateCommitMessage } from "../../tools/generate-commit-message.tool.js";
 import { executeReview } from "../../tools/review.tool.js";
 import { executeGenerateComplete } from "../../tools/generate-pr-complete.tool.js";
+import { executeGenerateReleaseNotes } from "../../tools/generate-release-notes.tool.js";
+import { executeRecommendVersionBump } from "../../tools/recommend-version-bump.tool.js";
 import { executeCreatePR } from "../../tools/create-pr.tool.js";
 import { executeCreatePRComplete } from "../../tools/create-pr-complete.tool.js";
+import { executeMergePR } from "../../tools/merge-pr.tool.js";
+import { executeMarkPRReady } from "../../tools/mark-pr-ready.tool.js";
+import { executeConvertPRToDraft } from "../../tools/convert-pr-to-draft.tool.js";
+import { executeSubmitReview } from "../../tools/submit-review.tool.js";
 import {
   AnalyzeBranchSchema,
+  GetDiffSchema,
   GeneratePRSchema,
   SuggestReviewersSchema,
   TitleSchema,
+  CommitMessageSchema,
   ReviewSchema,
   GenerateCompleteSchema,
+  ReleaseNotesSchema,
+  VersionBumpSchema,
   CreatePRSchema,
   CreatePRCompleteSchema,
+  MergePRSchema,
+  DraftStateSchema,
+  SubmitReviewSchema,
 } from "../../validation/schemas.js";
 
 /**
@@ -32,7 +47,33 @@ export async function handleToolRequest(
         const validated = AnalyzeBranchSchema.parse(args);
         const result = await executeAnalyzeBranch(
           validated.baseBranch,
-          validated.detailed
+          validated.detailed,
+          {
+            source: validated.source,
+            fromRef: validated.fromRef,
+            toRef: validated.toRef,
+          }
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "get_diff": {
+        const validated = GetDiffSchema.parse(args ?? {});
+        const result = await executeGetDiff(
+          validated.baseBranch,
+          validated.paths,
+          {
+            source: validated.source,
+            fromRef: validated.fromRef,
+            toRef: validated.toRef,
+          }
         );
         return {
           content: [
@@ -51,7 +92,13 @@ export async function handleToolRequest(
           validated.template,
           validated.language,
           validated.includeStats,
-          validated.baseBranch
+          validated.baseBranch,
+          validated.maxDiffTokens,
+          {
+            source: validated.source,
+            fromRef: validated.fromRef,
+            toRef: validated.toRef,
+          }
         );
         return {
           content: [
@@ -67,7 +114,18 @@ export async function handleToolRequest(
         const validated = SuggestReviewersSchema.parse(args ?? {});
         const reviewers = await executeSuggestReviewers(
           validated.limit,
-          validated.baseBranch
+          validated.baseBranch,
+          {
+            source: validated.source,
+            fromRef: validated.fromRef,
+            toRef: validated.toRef,
+          },
+          {
+            githubToken: validated.githubToken,
+            exclude: validated.exclude,
+            onlyMembersOf: validated.onlyMembersOf,
+            balanceLoad: validated.balanceLoad,
+          }
         );
         return {
           content: [
@@ -83,7 +141,14 @@ export async function handleToolRequest(
         const validated = TitleSchema.parse(args ?? {});
         const title = await executeGenerateTitle(
           validated.maxLength,
-          validated.baseBranch
+          validated.baseBranch,
+          validated.maxDiffTokens,
+          {
+            source: validated.source,
+            fromRef: validated.fromRef,
+            toRef: validated.toRef,
+          },
+          validated.ticketPrefix
         );
         return {
           content: [
@@ -95,9 +160,33 @@ export async function handleToolRequest(
         };
       }
 
+      case "generate_commit_message": {
+        const validated = CommitMessageSchema.parse(args ?? {});
+        const prompt = await executeGenerateCommitMessage(
+          validated.maxLength,
+          validated.maxDiffTokens
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: prompt,
+            },
+          ],
+        };
+      }
+
       case "review": {
         const validated = ReviewSchema.parse(args ?? {});
-        const review = await executeReview(validated.baseBranch);
+        const review = await executeReview(
+          validated.baseBranch,
+          validated.maxDiffTokens,
+          {
+            source: validated.source,
+            fromRef: validated.fromRef,
+            toRef: validated.toRef,
+          }
+        );
         return {
           content: [
             {
@@ -115,7 +204,51 @@ export async function handleToolRequest(
           validated.language,
           validated.includeStats,
           validated.maxTitleLength,
-          validated.baseBranch
+          validated.baseBranch,
+          {
+            source: validated.source,
+            fromRef: validated.fromRef,
+            toRef: validated.toRef,
+          },
+          validated.ticketPrefix
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "generate_release_notes": {
+        const validated = ReleaseNotesSchema.parse(args ?? {});
+        const result = await executeGenerateReleaseNotes(
+          validated.fromRef,
+          validated.toRef,
+          validated.version,
+          validated.writeChangelog,
+          validated.changelogPath,
+          validated.includeAll,
+          validated.githubToken
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "recommend_version_bump": {
+        const validated = VersionBumpSchema.parse(args ?? {});
+        const result = await executeRecommendVersionBump(
+          validated.fromRef,
+          validated.toRef,
+          validated.currentVersion
         );
         return {
           content: [
@@ -140,7 +273,28 @@ export async function handleToolRequest(
           validated.addReviewers,
           validated.maxReviewers,
           validated.title,
-          validated.description
+          validated.description,
+          {
+            fromRef: validated.fromRef,
+            toRef: validated.toRef,
+            ticketPrefix: validated.ticketPrefix,
+            balanceReviewers: validated.balanceReviewers,
+            reviewers: validated.reviewers,
+            teamReviewers: validated.teamReviewers,
+            headRemote: validated.headRemote,
+            baseRemote: validated.baseRemote,
+            push: validated.push,
+            forcePush: validated.forcePush,
+            dryRun: validated.dryRun,
+            keepEditedTitle: validated.keepEditedTitle,
+            addLabels: validated.addLabels,
+            createMissingLabels: validated.createMissingLabels,
+            assignees: validated.assignees,
+            milestone: validated.milestone,
+            inheritMilestone: validated.inheritMilestone,
+            autoMerge: validated.autoMerge,
+            mergeMethod: validated.mergeMethod,
+          }
         );
         return {
           content: [
@@ -167,7 +321,111 @@ export async function handleToolRequest(
           validated.includeAIReview,
           validated.aiReviewText,
           validated.title,
-          validated.description
+          validated.description,
+          {
+            fromRef: validated.fromRef,
+            toRef: validated.toRef,
+            ticketPrefix: validated.ticketPrefix,
+            balanceReviewers: validated.balanceReviewers,
+            reviewers: validated.reviewers,
+            teamReviewers: validated.teamReviewers,
+            headRemote: validated.headRemote,
+            baseRemote: validated.baseRemote,
+            push: validated.push,
+            forcePush: validated.forcePush,
+            dryRun: validated.dryRun,
+            keepEditedTitle: validated.keepEditedTitle,
+            addLabels: validated.addLabels,
+            createMissingLabels: validated.createMissingLabels,
+            assignees: validated.assignees,
+            milestone: validated.milestone,
+            inheritMilestone: validated.inheritMilestone,
+            autoMerge: validated.autoMerge,
+            mergeMethod: validated.mergeMethod,
+          }
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "merge_pr": {
+        const validated = MergePRSchema.parse(args ?? {});
+        const result = await executeMergePR(
+          validated.number,
+          validated.mergeMethod,
+          validated.deleteBranch,
+          validated.githubToken,
+          {
+            baseBranch: validated.baseBranch,
+            headRemote: validated.headRemote,
+            baseRemote: validated.baseRemote,
+            requiredApprovals: validated.requiredApprovals,
+            dryRun: validated.dryRun,
+          }
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "mark_pr_ready": {
+        const validated = DraftStateSchema.parse(args ?? {});
+        const result = await executeMarkPRReady(validated.number, validated.githubToken, {
+          baseBranch: validated.baseBranch,
+          headRemote: validated.headRemote,
+          baseRemote: validated.baseRemote,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "convert_pr_to_draft": {
+        const validated = DraftStateSchema.parse(args ?? {});
+        const result = await executeConvertPRToDraft(validated.number, validated.githubToken, {
+          baseBranch: validated.baseBranch,
+          headRemote: validated.headRemote,
+          baseRemote: validated.baseRemote,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "submit_review": {
+        const validated = SubmitReviewSchema.parse(args ?? {});
+        const result = await executeSubmitReview(
+          validated.findings,
+          validated.event,
+          validated.summary,
+          validated.number,
+          validated.githubToken,
+          {
+            baseBranch: validated.baseBranch,
+            headRemote: validated.headRemote,
+            baseRemote: validated.baseRemote,
+          }
         );
         return {
           content: [
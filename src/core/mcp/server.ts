@@ -38,9 +38,56 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
           },
           detailed: {
             type: "boolean",
-            description: "Include detailed analysis",
+            description: "Include detailed analysis (breaking changes, tests). The diff itself is returned by get_diff",
             default: true,
           },
+          source: {
+            type: "string",
+            enum: ["branch", "staged", "working-tree", "range"],
+            description: "What to analyze: the current branch vs its base (default), staged changes, all uncommitted changes (working-tree), or an explicit fromRef/toRef range",
+            default: "branch",
+          },
+          fromRef: {
+            type: "string",
+            description: "Base ref to compare from: branch, tag, SHA or remote branch (overrides baseBranch; required when source is 'range'). Diffs start at the merge base of fromRef and toRef",
+          },
+          toRef: {
+            type: "string",
+            description: "Ref to analyze: branch, tag, SHA or remote branch, no checkout needed (default: current branch, or HEAD for 'range')",
+          },
+        },
+      },
+    },
+    {
+      name: "get_diff",
+      description:
+        "Returns the parsed diff between the current Git branch and a base branch as structured JSON: files (path, old path, status added/deleted/modified/renamed/copied, binary and mode-change flags, additions/deletions) → hunks (old/new ranges) → lines (add/delete/context with old/new line numbers). Use this when you need to inspect exact changed lines instead of a truncated raw diff.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          baseBranch: {
+            type: "string",
+            description: "Base branch for comparison (auto-detected if not provided)",
+          },
+          paths: {
+            type: "array",
+            items: { type: "string" },
+            description: "Restrict the diff to these paths (optional)",
+          },
+          source: {
+            type: "string",
+            enum: ["branch", "staged", "working-tree", "range"],
+            description: "What to analyze: the current branch vs its base (default), staged changes, all uncommitted changes (working-tree), or an explicit fromRef/toRef range",
+            default: "branch",
+          },
+          fromRef: {
+            type: "string",
+            description: "Base ref to compare from: branch, tag, SHA or remote branch (overrides baseBranch; required when source is 'range'). Diffs start at the merge base of fromRef and toRef",
+          },
+          toRef: {
+            type: "string",
+            description: "Ref to analyze: branch, tag, SHA or remote branch, no checkout needed (default: current branch, or HEAD for 'range')",
+          },
         },
       },
     },
@@ -72,13 +119,31 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             description: "Include statistics",
             default: true,
           },
+          maxDiffTokens: {
+            type: "number",
+            description: "Token budget for the diff included in the prompt (default: 2500). Source files are prioritised over lockfiles/generated files; files that don't fit are listed with their stats",
+          },
+          source: {
+            type: "string",
+            enum: ["branch", "staged", "working-tree", "range"],
+            description: "What to analyze: the current branch vs its base (default), staged changes, all uncommitted changes (working-tree), or an explicit fromRef/toRef range",
+            default: "branch",
+          },
+          fromRef: {
+            type: "string",
+            description: "Base ref to compare from: branch, tag, SHA or remote branch (overrides baseBranch; required when source is 'range'). Diffs start at the merge base of fromRef and toRef",
+          },
+          toRef: {
+            type: "string",
+            description: "Ref to analyze: branch, tag, SHA or remote branch, no checkout needed (default: current branch, or HEAD for 'range')",
+          },
         },
       },
     },
     {
       name: "suggest_reviewers",
       description:
-        "Suggests code reviewers based on Git contribution history of modified files in the current branch. Automatically analyzes the working directory's Git repository. Use this when the user asks who should review the PR or to suggest reviewers.",
+        "Suggests code reviewers based on CODEOWNERS (required owners of every modified file, including teams) and recency-weighted ownership of the modified lines (git blame) and files (commit history), with a score breakdown per reviewer. Git authors are matched to GitHub logins through .mailmap, .github/pr-mcp.json, noreply emails and the GitHub commits API, never guessed. Bots, denied accounts and non-members of the configured organizations/teams are excluded before ranking. Automatically analyzes the working directory's Git repository. Use this when the user asks who should review the PR or to suggest reviewers.",
       inputSchema: {
         type: "object",
         properties: {
@@ -87,6 +152,39 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             description: "Maximum number of reviewers to suggest",
             default: 3,
           },
+          githubToken: {
+            type: "string",
+            description: "GitHub token used to find the login of commit authors and check organization membership (optional, defaults to GITHUB_TOKEN env var). Contributors without a known login are reported in unresolvedIdentities",
+          },
+          exclude: {
+            type: "array",
+            items: { type: "string" },
+            description: "Logins, emails or names never to suggest, on top of the deny list in .github/pr-mcp.json. Bots are always excluded; excluded candidates are reported in excludedReviewers",
+          },
+          onlyMembersOf: {
+            type: "array",
+            items: { type: "string" },
+            description: "Only suggest members of one of these organizations or teams, e.g. [\"acme/backend\"] (overrides .github/pr-mcp.json; needs a token)",
+          },
+          balanceLoad: {
+            type: "boolean",
+            description: "Favor candidates with fewer open PRs awaiting their review (needs a token; without one, candidates are rotated by branch name)",
+            default: false,
+          },
+          source: {
+            type: "string",
+            enum: ["branch", "staged", "working-tree", "range"],
+            description: "What to analyze: the current branch vs its base (default), staged changes, all uncommitted changes (working-tree), or an explicit fromRef/toRef range",
+            default: "branch",
+          },
+          fromRef: {
+            type: "string",
+            description: "Base ref to compare from: branch, tag, SHA or remote branch (overrides baseBranch; required when source is 'range'). Diffs start at the merge base of fromRef and toRef",
+          },
+          toRef: {
+            type: "string",
+            description: "Ref to analyze: branch, tag, SHA or remote branch, no checkout needed (default: current branch, or HEAD for 'range')",
+          },
         },
       },
     },
@@ -101,6 +199,48 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             type: "number",
             description: "Maximum length for the title (optional, e.g., 72)",
           },
+          maxDiffTokens: {
+            type: "number",
+            description: "Token budget for the diff included in the prompt (default: 2000). Source files are prioritised over lockfiles/generated files; files that don't fit are listed with their stats",
+          },
+          ticketPrefix: {
+            type: "boolean",
+            description: "Prefix the title with the ticket key found in the branch name or commits, e.g. '[PROJ-1234] feat: ...' (ticket keys match TICKET_PATTERN, default Jira/Linear style)",
+            default: false,
+          },
+          source: {
+            type: "string",
+            enum: ["branch", "staged", "working-tree", "range"],
+            description: "What to analyze: the current branch vs its base (default), staged changes, all uncommitted changes (working-tree), or an explicit fromRef/toRef range",
+            default: "branch",
+          },
+          fromRef: {
+            type: "string",
+            description: "Base ref to compare from: branch, tag, SHA or remote branch (overrides baseBranch; required when source is 'range'). Diffs start at the merge base of fromRef and toRef",
+          },
+          toRef: {
+            type: "string",
+            description: "Ref to analyze: branch, tag, SHA or remote branch, no checkout needed (default: current branch, or HEAD for 'range')",
+          },
+        },
+      },
+    },
+    {
+      name: "generate_commit_message",
+      description:
+        "⚠️ CRITICAL: This tool returns an ANALYSIS PROMPT for YOU (Claude) to write a commit message, NOT a final message. OUTPUT: You receive the staged changes (files, packed diff) and project context formatted as a prompt. YOUR JOB: Analyze the staged diff and write a conventional commit message (e.g., 'fix(api): handle empty responses'), with a body and BREAKING CHANGE footer when needed. DO NOT return the prompt - write YOUR message. Use when the user asks for a commit message for what they are about to commit.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          maxLength: {
+            type: "number",
+            description: "Maximum length of the subject line",
+            default: 72,
+          },
+          maxDiffTokens: {
+            type: "number",
+            description: "Token budget for the staged diff included in the prompt (default: 2000)",
+          },
         },
       },
     },
@@ -115,6 +255,24 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             type: "string",
             description: "Base branch for comparison (auto-detected if not provided)",
           },
+          maxDiffTokens: {
+            type: "number",
+            description: "Token budget for the diff included in the prompt (default: 3750). Source files are prioritised over lockfiles/generated files; files that don't fit are listed with their stats",
+          },
+          source: {
+            type: "string",
+            enum: ["branch", "staged", "working-tree", "range"],
+            description: "What to analyze: the current branch vs its base (default), staged changes, all uncommitted changes (working-tree), or an explicit fromRef/toRef range",
+            default: "branch",
+          },
+          fromRef: {
+            type: "string",
+            description: "Base ref to compare from: branch, tag, SHA or remote branch (overrides baseBranch; required when source is 'range'). Diffs start at the merge base of fromRef and toRef",
+          },
+          toRef: {
+            type: "string",
+            description: "Ref to analyze: branch, tag, SHA or remote branch, no checkout needed (default: current branch, or HEAD for 'range')",
+          },
         },
       },
     },
@@ -150,13 +308,97 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             type: "string",
             description: "Base branch for comparison (auto-detected if not provided)",
           },
+          ticketPrefix: {
+            type: "boolean",
+            description: "Prefix the title with the ticket key found in the branch name or commits, e.g. '[PROJ-1234] feat: ...' (ticket keys match TICKET_PATTERN, default Jira/Linear style)",
+            default: false,
+          },
+          source: {
+            type: "string",
+            enum: ["branch", "staged", "working-tree", "range"],
+            description: "What to analyze: the current branch vs its base (default), staged changes, all uncommitted changes (working-tree), or an explicit fromRef/toRef range",
+            default: "branch",
+          },
+          fromRef: {
+            type: "string",
+            description: "Base ref to compare from: branch, tag, SHA or remote branch (overrides baseBranch; required when source is 'range'). Diffs start at the merge base of fromRef and toRef",
+          },
+          toRef: {
+            type: "string",
+            description: "Ref to analyze: branch, tag, SHA or remote branch, no checkout needed (default: current branch, or HEAD for 'range')",
+          },
+        },
+      },
+    },
+    {
+      name: "generate_release_notes",
+      description:
+        "Generates release notes for a tag range in Keep-a-Changelog format. Commits are grouped by conventional type (feat → Added, fix → Fixed, ...) and scope, breaking changes are listed first. Defaults to the commits since the latest tag. With a GitHub token, merged PR titles and numbers are used instead of individual commits. Returns the markdown section, and can prepend it to CHANGELOG.md (writeChangelog). Use when user asks for release notes, a changelog entry or what changed since the last release.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          fromRef: {
+            type: "string",
+            description: "Start of the range, usually the previous release tag (default: latest tag before toRef)",
+          },
+          toRef: {
+            type: "string",
+            description: "End of the range, a tag or branch (default: HEAD)",
+            default: "HEAD",
+          },
+          version: {
+            type: "string",
+            description: "Version used in the section heading (default: toRef's tag without 'v', or 'Unreleased')",
+          },
+          writeChangelog: {
+            type: "boolean",
+            description: "Prepend the section to the changelog file instead of only returning it",
+            default: false,
+          },
+          changelogPath: {
+            type: "string",
+            description: "Changelog path relative to the repository root (paths outside it are refused)",
+            default: "CHANGELOG.md",
+          },
+          includeAll: {
+            type: "boolean",
+            description: "Also include docs/test/ci/chore/build/style commits (under 'Changed')",
+            default: false,
+          },
+          githubToken: {
+            type: "string",
+            description: "GitHub token used to fetch merged PRs (optional, defaults to GITHUB_TOKEN env var)",
+          },
+        },
+      },
+    },
+    {
+      name: "recommend_version_bump",
+      description:
+        "Recommends the next semantic version from the conventional commits since the latest tag: breaking changes ('!' after the type or a 'BREAKING CHANGE:' footer) → major, feat → minor, fix/perf/revert → patch. The current version is read from package.json, Cargo.toml, pyproject.toml, composer.json, etc. (or the latest tag). Returns the next version and the commits that justify it. Use when user asks which version to release next.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          fromRef: {
+            type: "string",
+            description: "Start of the range (default: latest tag)",
+          },
+          toRef: {
+            type: "string",
+            description: "End of the range (default: HEAD)",
+            default: "HEAD",
+          },
+          currentVersion: {
+            type: "string",
+            description: "Current version, overrides the version detected from the project manifest",
+          },
         },
       },
     },
     {
       name: "create_pr",
       description:
-        "Creates a Pull Request on GitHub WITHOUT AI review. **RECOMMENDED WORKFLOW**: (1) Call 'generate_pr_title' → get prompt, (2) YOU analyze and generate title, (3) Call 'generate_pr_description' → get prompt, (4) YOU analyze and generate description, (5) Call THIS tool with 'title' and 'description' parameters. If not provided, simple versions are auto-generated from commits/templates. NOTE: This tool does NOT include AI code review. For complete PR WITH AI review, use 'create_pr_complete' instead. This tool: analyzes branch, creates/updates PR, adds reviewers automatically. Requires GITHUB_TOKEN. Use when user asks to create a simple PR without code review.",
+        "Creates a Pull Request on GitHub or Gitea (Merge Request on GitLab) WITHOUT AI review. **RECOMMENDED WORKFLOW**: (1) Call 'generate_pr_title' → get prompt, (2) YOU analyze and generate title, (3) Call 'generate_pr_description' → get prompt, (4) YOU analyze and generate description, (5) Call THIS tool with 'title' and 'description' parameters. If not provided, simple versions are auto-generated from commits/templates. NOTE: This tool does NOT include AI code review. For complete PR WITH AI review, use 'create_pr_complete' instead. This tool: analyzes branch, creates/updates PR, adds reviewers automatically. Requires GITHUB_TOKEN (GITLAB_TOKEN or GITEA_TOKEN for GitLab and Gitea). Use when user asks to create a simple PR without code review.",
       inputSchema: {
         type: "object",
         properties: {
@@ -195,16 +437,15 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
           },
           draft: {
             type: "boolean",
-            description: "Create the PR as a draft",
-            default: false,
+            description: "Create the PR as a draft (default: false). When given, an existing PR is also marked ready for review (false) or converted to a draft (true)",
           },
           githubToken: {
             type: "string",
-            description: "GitHub token for authentication (optional, defaults to GITHUB_TOKEN env var)",
+            description: "Token for the hosting service of the repository: GitHub, GitLab or Gitea (optional, defaults to GITHUB_TOKEN, GITLAB_TOKEN or GITEA_TOKEN env var)",
           },
           addReviewers: {
             type: "boolean",
-            description: "Automatically suggest and add reviewers based on Git history",
+            description: "Automatically suggest and add reviewers based on CODEOWNERS (teams included) and Git history",
             default: true,
           },
           maxReviewers: {
@@ -212,13 +453,104 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             description: "Maximum number of reviewers to add (1-20)",
             default: 3,
           },
+          balanceReviewers: {
+            type: "boolean",
+            description: "Spread review requests: favor candidates with fewer open PRs awaiting their review",
+            default: false,
+          },
+          reviewers: {
+            type: "array",
+            items: { type: "string" },
+            description: "GitHub logins to request as reviewers, on top of the suggested ones (requested even when addReviewers is false)",
+          },
+          teamReviewers: {
+            type: "array",
+            items: { type: "string" },
+            description: "Teams to request as reviewers, as 'backend' or 'org/backend'. CODEOWNERS teams are added automatically with addReviewers",
+          },
+          headRemote: {
+            type: "string",
+            description: "Remote the branch is pushed to (default: origin). With a fork, your fork's remote",
+          },
+          baseRemote: {
+            type: "string",
+            description: "Remote the PR is opened on (default: upstream when that remote exists, otherwise the head remote)",
+          },
+          push: {
+            type: "boolean",
+            description: "Push the branch to the head remote (with upstream tracking) before creating the PR. Refuses to overwrite remote commits unless forcePush is true, and remote branches given as toRef (origin/feature)",
+            default: false,
+          },
+          forcePush: {
+            type: "boolean",
+            description: "With push, overwrite remote commits the local branch doesn't have (force-with-lease)",
+            default: false,
+          },
+          dryRun: {
+            type: "boolean",
+            description: "Perform every check and lookup, and return the planned action (create/update/reopen), final title and body, push and reviewers without writing anything",
+            default: false,
+          },
+          keepEditedTitle: {
+            type: "boolean",
+            description: "When updating an existing PR, keep its title if it was edited by hand since it was generated. The description's generated sections are always replaced and the rest of it kept",
+            default: false,
+          },
+          addLabels: {
+            type: "boolean",
+            description: "Add labels inferred from the conventional type and scopes, touched paths (labels.paths in .github/pr-mcp.json), PR size and breaking changes. Only labels the repository has are added, unless createMissingLabels is true",
+            default: true,
+          },
+          createMissingLabels: {
+            type: "boolean",
+            description: "Create inferred labels the repository doesn't have yet",
+            default: false,
+          },
+          assignees: {
+            type: "array",
+            items: { type: "string" },
+            description: "Logins to assign the PR to, 'self' for the token's owner. Added to the current assignees of an existing PR",
+          },
+          milestone: {
+            type: "string",
+            description: "Open milestone to attach the PR to, by title, or 'nearest' for the open milestone with the nearest upcoming due date",
+          },
+          inheritMilestone: {
+            type: "boolean",
+            description: "Without a milestone, attach the PR to the milestone of the first linked issue that has one (issues the PR closes first)",
+            default: true,
+          },
+          autoMerge: {
+            type: "boolean",
+            description: "Enable auto-merge once the PR exists: it is merged with mergeMethod when its required checks and approvals are in. Repositories that don't allow auto-merge are reported without failing",
+            default: false,
+          },
+          mergeMethod: {
+            type: "string",
+            enum: ["squash", "merge", "rebase"],
+            description: "Merge method for autoMerge (on GitLab, merge and rebase must match the project's merge method)",
+            default: "squash",
+          },
+          ticketPrefix: {
+            type: "boolean",
+            description: "Prefix the title with the ticket key found in the branch name or commits, e.g. '[PROJ-1234] feat: ...' (ticket keys match TICKET_PATTERN, default Jira/Linear style)",
+            default: false,
+          },
+          fromRef: {
+            type: "string",
+            description: "Base branch of the PR, local or remote (origin/main stands for main; tags and SHAs are refused). Overrides baseBranch",
+          },
+          toRef: {
+            type: "string",
+            description: "Head branch of the PR, local or remote (origin/feature stands for feature; tags and SHAs are refused), which doesn't need to be checked out (default: current branch)",
+          },
         },
       },
     },
     {
       name: "create_pr_complete",
       description:
-        "🚀 UNIFIED PR CREATION WORKFLOW - **WHEN USER SAYS 'Create a PR', YOU MUST FOLLOW THESE STEPS IN ORDER**: (1) Call 'generate_pr_title' → get prompt, (2) YOU analyze and generate intelligent title, (3) Call 'generate_pr_description' → get prompt, (4) YOU analyze and generate intelligent description, (5) Call 'review' → get context/diff prompt, (6) YOU analyze and write code review, (7) Call THIS tool with 'title', 'description', and 'aiReviewText' parameters. IMPORTANT: ALL 3 parameters (title, description, aiReviewText) should be YOUR generated content, NOT the tool outputs (which are prompts). If any are omitted, simple fallbacks are auto-generated. This creates a professional PR with: YOUR intelligent title, YOUR comprehensive description, YOUR AI code review, smart GIF, automatic reviewer assignment. Works for ANY language/framework. Requires GITHUB_TOKEN.",
+        "🚀 UNIFIED PR CREATION WORKFLOW - **WHEN USER SAYS 'Create a PR', YOU MUST FOLLOW THESE STEPS IN ORDER**: (1) Call 'generate_pr_title' → get prompt, (2) YOU analyze and generate intelligent title, (3) Call 'generate_pr_description' → get prompt, (4) YOU analyze and generate intelligent description, (5) Call 'review' → get context/diff prompt, (6) YOU analyze and write code review, (7) Call THIS tool with 'title', 'description', and 'aiReviewText' parameters. IMPORTANT: ALL 3 parameters (title, description, aiReviewText) should be YOUR generated content, NOT the tool outputs (which are prompts). If any are omitted, simple fallbacks are auto-generated. This creates a professional PR with: YOUR intelligent title, YOUR comprehensive description, YOUR AI code review, smart GIF, automatic reviewer assignment. Works for ANY language/framework. Requires GITHUB_TOKEN (GITLAB_TOKEN or GITEA_TOKEN for GitLab and Gitea).",
       inputSchema: {
         type: "object",
         properties: {
@@ -261,16 +593,15 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
           },
           draft: {
             type: "boolean",
-            description: "Create the PR as a draft",
-            default: false,
+            description: "Create the PR as a draft (default: false). When given, an existing PR is also marked ready for review (false) or converted to a draft (true)",
           },
           githubToken: {
             type: "string",
-            description: "GitHub token for authentication (optional, defaults to GITHUB_TOKEN env var)",
+            description: "Token for the hosting service of the repository: GitHub, GitLab or Gitea (optional, defaults to GITHUB_TOKEN, GITLAB_TOKEN or GITEA_TOKEN env var)",
           },
           addReviewers: {
             type: "boolean",
-            description: "Automatically suggest and add reviewers based on Git history",
+            description: "Automatically suggest and add reviewers based on CODEOWNERS (teams included) and Git history",
             default: true,
           },
           maxReviewers: {
@@ -278,6 +609,263 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             description: "Maximum number of reviewers to add (1-20)",
             default: 3,
           },
+          balanceReviewers: {
+            type: "boolean",
+            description: "Spread review requests: favor candidates with fewer open PRs awaiting their review",
+            default: false,
+          },
+          reviewers: {
+            type: "array",
+            items: { type: "string" },
+            description: "GitHub logins to request as reviewers, on top of the suggested ones (requested even when addReviewers is false)",
+          },
+          teamReviewers: {
+            type: "array",
+            items: { type: "string" },
+            description: "Teams to request as reviewers, as 'backend' or 'org/backend'. CODEOWNERS teams are added automatically with addReviewers",
+          },
+          headRemote: {
+            type: "string",
+            description: "Remote the branch is pushed to (default: origin). With a fork, your fork's remote",
+          },
+          baseRemote: {
+            type: "string",
+            description: "Remote the PR is opened on (default: upstream when that remote exists, otherwise the head remote)",
+          },
+          push: {
+            type: "boolean",
+            description: "Push the branch to the head remote (with upstream tracking) before creating the PR. Refuses to overwrite remote commits unless forcePush is true, and remote branches given as toRef (origin/feature)",
+            default: false,
+          },
+          forcePush: {
+            type: "boolean",
+            description: "With push, overwrite remote commits the local branch doesn't have (force-with-lease)",
+            default: false,
+          },
+          dryRun: {
+            type: "boolean",
+            description: "Perform every check and lookup, and return the planned action (create/update/reopen), final title and body, push and reviewers without writing anything",
+            default: false,
+          },
+          keepEditedTitle: {
+            type: "boolean",
+            description: "When updating an existing PR, keep its title if it was edited by hand since it was generated. The description's generated sections are always replaced and the rest of it kept",
+            default: false,
+          },
+          addLabels: {
+            type: "boolean",
+            description: "Add labels inferred from the conventional type and scopes, touched paths (labels.paths in .github/pr-mcp.json), PR size and breaking changes. Only labels the repository has are added, unless createMissingLabels is true",
+            default: true,
+          },
+          createMissingLabels: {
+            type: "boolean",
+            description: "Create inferred labels the repository doesn't have yet",
+            default: false,
+          },
+          assignees: {
+            type: "array",
+            items: { type: "string" },
+            description: "Logins to assign the PR to, 'self' for the token's owner. Added to the current assignees of an existing PR",
+          },
+          milestone: {
+            type: "string",
+            description: "Open milestone to attach the PR to, by title, or 'nearest' for the open milestone with the nearest upcoming due date",
+          },
+          inheritMilestone: {
+            type: "boolean",
+            description: "Without a milestone, attach the PR to the milestone of the first linked issue that has one (issues the PR closes first)",
+            default: true,
+          },
+          autoMerge: {
+            type: "boolean",
+            description: "Enable auto-merge once the PR exists: it is merged with mergeMethod when its required checks and approvals are in. Repositories that don't allow auto-merge are reported without failing",
+            default: false,
+          },
+          mergeMethod: {
+            type: "string",
+            enum: ["squash", "merge", "rebase"],
+            description: "Merge method for autoMerge (on GitLab, merge and rebase must match the project's merge method)",
+            default: "squash",
+          },
+          ticketPrefix: {
+            type: "boolean",
+            description: "Prefix the title with the ticket key found in the branch name or commits, e.g. '[PROJ-1234] feat: ...' (ticket keys match TICKET_PATTERN, default Jira/Linear style)",
+            default: false,
+          },
+          fromRef: {
+            type: "string",
+            description: "Base branch of the PR, local or remote (origin/main stands for main; tags and SHAs are refused). Overrides baseBranch",
+          },
+          toRef: {
+            type: "string",
+            description: "Head branch of the PR, local or remote (origin/feature stands for feature; tags and SHAs are refused), which doesn't need to be checked out (default: current branch)",
+          },
+        },
+      },
+    },
+    {
+      name: "merge_pr",
+      description:
+        "Merges a pull/merge request on GitHub, GitLab or Gitea (the one of the current branch by default) after checking that it is open, not a draft, free of conflicts, with its required checks passed and its approvals in. Returns the blockers instead of merging when it isn't ready. Only the checked head commit is merged. Can delete the head branch afterwards. Use when user asks to merge a PR.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          number: {
+            type: "number",
+            description: "PR (or merge request IID) to merge (default: the PR of the current branch)",
+          },
+          mergeMethod: {
+            type: "string",
+            enum: ["squash", "merge", "rebase"],
+            description: "Merge method (on GitLab, merge and rebase must match the project's merge method)",
+            default: "squash",
+          },
+          deleteBranch: {
+            type: "boolean",
+            description: "Delete the head branch after merging (branches of forks are left in place)",
+            default: false,
+          },
+          requiredApprovals: {
+            type: "number",
+            description: "Approvals required on top of the repository's own review rules",
+            default: 0,
+          },
+          dryRun: {
+            type: "boolean",
+            description: "Only check whether the PR could be merged",
+            default: false,
+          },
+          baseBranch: {
+            type: "string",
+            description: "Base branch of the current branch's PR, when no number is given (default: main branch)",
+          },
+          headRemote: {
+            type: "string",
+            description: "Remote the branch was pushed to (default: origin)",
+          },
+          baseRemote: {
+            type: "string",
+            description: "Remote the PR was opened on (default: upstream if it exists, origin otherwise)",
+          },
+          githubToken: {
+            type: "string",
+            description: "Token for the hosting service of the repository: GitHub, GitLab or Gitea (optional, defaults to GITHUB_TOKEN, GITLAB_TOKEN or GITEA_TOKEN env var)",
+          },
+        },
+      },
+    },
+    {
+      name: "mark_pr_ready",
+      description:
+        "Marks a draft pull/merge request on GitHub, GitLab or Gitea (the one of the current branch by default) as ready for review. Use when user asks to mark a PR as ready or to take it out of draft.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          number: {
+            type: "number",
+            description: "PR (or merge request IID) (default: the PR of the current branch)",
+          },
+          baseBranch: {
+            type: "string",
+            description: "Base branch of the current branch's PR, when no number is given (default: main branch)",
+          },
+          headRemote: {
+            type: "string",
+            description: "Remote the branch was pushed to (default: origin)",
+          },
+          baseRemote: {
+            type: "string",
+            description: "Remote the PR was opened on (default: upstream if it exists, origin otherwise)",
+          },
+          githubToken: {
+            type: "string",
+            description: "Token for the hosting service of the repository: GitHub, GitLab or Gitea (optional, defaults to GITHUB_TOKEN, GITLAB_TOKEN or GITEA_TOKEN env var)",
+          },
+        },
+      },
+    },
+    {
+      name: "convert_pr_to_draft",
+      description:
+        "Converts an open pull/merge request on GitHub, GitLab or Gitea (the one of the current branch by default) back to a draft. Use when user asks to put a PR back in draft.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          number: {
+            type: "number",
+            description: "PR (or merge request IID) (default: the PR of the current branch)",
+          },
+          baseBranch: {
+            type: "string",
+            description: "Base branch of the current branch's PR, when no number is given (default: main branch)",
+          },
+          headRemote: {
+            type: "string",
+            description: "Remote the branch was pushed to (default: origin)",
+          },
+          baseRemote: {
+            type: "string",
+            description: "Remote the PR was opened on (default: upstream if it exists, origin otherwise)",
+          },
+          githubToken: {
+            type: "string",
+            description: "Token for the hosting service of the repository: GitHub, GitLab or Gitea (optional, defaults to GITHUB_TOKEN, GITLAB_TOKEN or GITEA_TOKEN env var)",
+          },
+        },
+      },
+    },
+    {
+      name: "submit_review",
+      description:
+        "Submits a code review as a single GitHub pull request review (the PR of the current branch by default). Pass the review as structured findings: each one on a line of the new version of a file, with a severity, a message and optionally a suggested replacement for the line. Findings on lines of the PR diff become inline comments, the others are listed in the review body after the summary. The event approves, requests changes or only comments. Use after the 'review' tool, when user asks to post the review on the PR.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          findings: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                file: { type: "string", description: "Path from the repository root" },
+                line: { type: "number", description: "Line in the new version of the file" },
+                severity: { type: "string", enum: ["critical", "warning", "suggestion"] },
+                message: { type: "string" },
+                suggestion: { type: "string", description: "Replacement for the line, posted as a suggestion block" },
+              },
+              required: ["file", "line", "severity", "message"],
+            },
+            description: "Findings of the review",
+          },
+          event: {
+            type: "string",
+            enum: ["COMMENT", "APPROVE", "REQUEST_CHANGES"],
+            description: "Review verdict",
+            default: "COMMENT",
+          },
+          summary: {
+            type: "string",
+            description: "Review body, above the findings that are outside the diff",
+          },
+          number: {
+            type: "number",
+            description: "PR to review (default: the PR of the current branch)",
+          },
+          baseBranch: {
+            type: "string",
+            description: "Base branch of the current branch's PR, when no number is given (default: main branch)",
+          },
+          headRemote: {
+            type: "string",
+            description: "Remote the branch was pushed to (default: origin)",
+          },
+          baseRemote: {
+            type: "string",
+            description: "Remote the PR was opened on (default: upstream if it exists, origin otherwise)",
+          },
+          githubToken: {
+            type: "string",
+            description: "GitHub token (optional, defaults to GITHUB_TOKEN env var)",
+          },
         },
       },
     },
@@ -0,0 +1,252 @@
+import { requestReviewers } from "../git/reviewer-requests.js";
+import { createHttpClient, paginate } from "./http.js";
+import { GitProvider, MergeCheck, MergeStatus, Milestone, PullRequest, RemoteRepository } from "./types.js";
+
+interface GiteaPull {
+  number: number;
+  html_url: string;
+  title: string;
+  body?: string;
+  state: "open" | "closed";
+  merged?: boolean;
+  draft?: boolean;
+  mergeable?: boolean;
+  head: { ref: string; sha?: string; repo?: { full_name: string } | null };
+  base: { ref: string };
+  assignees?: Array<{ login: string }> | null;
+}
+
+interface GiteaMilestone {
+  id: number;
+  title: string;
+  due_on?: string | null;
+}
+
+// Gitea marks pull requests as work in progress through their title
+const DRAFT_PREFIX = "WIP: ";
+// Every prefix Gitea recognises, in any case
+const DRAFT_TITLE = /^\s*(?:WIP:|\[WIP\])\s*/i;
+
+// Pages of pull requests searched for an existing one
+const MAX_PULL_PAGES = 10;
+// Largest page Gitea returns by default
+const PAGE_SIZE = 50;
+
+// Color of the labels created for inferred labels
+const NEW_LABEL_COLOR = "#ededed";
+
+function toMergeCheck(status: { context: string; status: string }): MergeCheck {
+  return {
+    name: status.context,
+    status: status.status === "success" || status.status === "warning" ? "success" : status.status === "pending" ? "pending" : "failure",
+  };
+}
+
+function toMilestone(milestone: GiteaMilestone): Milestone {
+  return { id: milestone.id, title: milestone.title, dueOn: milestone.due_on ?? undefined };
+}
+
+function toPullRequest(pull: GiteaPull): PullRequest {
+  return {
+    number: pull.number,
+    url: pull.html_url,
+    title: pull.title.replace(DRAFT_TITLE, ""),
+    body: pull.body,
+    state: pull.merged ? "merged" : pull.state,
+    // Older Gitea versions leave the draft field out
+    draft: pull.draft ?? DRAFT_TITLE.test(pull.title),
+    headBranch: pull.head.ref,
+    baseBranch: pull.base.ref,
+  };
+}
+
+/**
+ * Gitea (and Forgejo) pull requests through the REST API (v1)
+ */
+export function createGiteaProvider(repository: RemoteRepository, token: string): GitProvider {
+  const request = createHttpClient(repository.apiUrl, { Authorization: `token ${token}` });
+  const repoPath = (target: RemoteRepository) => `/repos/${encodeURIComponent(target.owner)}/${encodeURIComponent(target.repo)}`;
+  const repo = repoPath(repository);
+  const fullName = (target: RemoteRepository) => `${target.owner}/${target.repo}`.toLowerCase();
+
+  const currentUser = async () => (await request<{ login: string }>("GET", "/user")).login;
+  const listLabels = () => paginate<{ id: number; name: string }>(request, `${repo}/labels`, "limit", PAGE_SIZE);
+
+  return {
+    name: "gitea",
+    label: "Gitea",
+    repository,
+
+    async getRepository() {
+      const data = await request<{ full_name: string; default_branch: string; html_url: string }>("GET", repo);
+      return { fullName: data.full_name, defaultBranch: data.default_branch, webUrl: data.html_url };
+    },
+
+    async branchExists(branch, target = repository) {
+      try {
+        await request("GET", `${repoPath(target)}/branches/${branch.split("/").map(encodeURIComponent).join("/")}`);
+        return true;
+      } catch (error: unknown) {
+        const errorStatus = error && typeof error === "object" && "status" in error ? error.status : null;
+        if (errorStatus === 404) return false;
+        throw error;
+      }
+    },
+
+    async findPullRequest(head, base, headRepository = repository) {
+      // The list can't be filtered by branch, most recently updated first
+      for (let page = 1; page <= MAX_PULL_PAGES; page++) {
+        const pulls = await request<GiteaPull[]>("GET", `${repo}/pulls?state=all&sort=recentupdate&limit=${PAGE_SIZE}&page=${page}`);
+        const match = pulls.find(
+          (pull) =>
+            pull.head.ref === head &&
+            pull.base.ref === base &&
+            (pull.head.repo?.full_name ?? fullName(repository)).toLowerCase() === fullName(headRepository)
+        );
+        if (match) return toPullRequest(match);
+        if (pulls.length < PAGE_SIZE) break;
+      }
+      return undefined;
+    },
+
+    async getPullRequest(number) {
+      return toPullRequest(await request<GiteaPull>("GET", `${repo}/pulls/${number}`));
+    },
+
+    async createPullRequest({ title, body, head, base, draft, headRepository }) {
+      const pull = await request<GiteaPull>("POST", `${repo}/pulls`, {
+        title: draft ? `${DRAFT_PREFIX}${title}` : title,
+        body,
+        // Branches of forks are named owner:branch
+        head: headRepository && fullName(headRepository) !== fullName(repository) ? `${headRepository.owner}:${head}` : head,
+        base,
+      });
+      return toPullRequest(pull);
+    },
+
+    async updatePullRequest(number, { title, body, state }) {
+      // A new title would drop the work in progress prefix
+      const current = await request<GiteaPull>("GET", `${repo}/pulls/${number}`);
+      const pull = await request<GiteaPull>("PATCH", `${repo}/pulls/${number}`, {
+        title: title !== undefined && toPullRequest(current).draft ? `${DRAFT_PREFIX}${title}` : title,
+        body,
+        state,
+      });
+      return toPullRequest(pull);
+    },
+
+    async setDraft(number, draft) {
+      const { title } = toPullRequest(await request<GiteaPull>("GET", `${repo}/pulls/${number}`));
+      const pull = await request<GiteaPull>("PATCH", `${repo}/pulls/${number}`, { title: draft ? `${DRAFT_PREFIX}${title}` : title });
+      return toPullRequest(pull);
+    },
+
+    currentUser,
+    supportsTeamReviewers: true,
+
+    async requestReviewers(number, requests) {
+      const send = async (reviewers: string[], teamReviewers: string[]) => {
+        const reviews = await request<Array<{ user?: { login: string } | null; team?: { name: string } | null }>>(
+          "POST",
+          `${repo}/pulls/${number}/requested_reviewers`,
+          { reviewers, team_reviewers: teamReviewers }
+        );
+        return {
+          users: reviews.flatMap((review) => (review.user ? [review.user.login] : [])),
+          teams: reviews.flatMap((review) => (review.team ? [review.team.name] : [])),
+        };
+      };
+      return requestReviewers(send, requests, await currentUser());
+    },
+
+    async listLabels() {
+      return (await listLabels()).map((label) => label.name);
+    },
+
+    async createLabel(name) {
+      await request("POST", `${repo}/labels`, { name, color: NEW_LABEL_COLOR });
+    },
+
+    async addLabels(number, labels) {
+      // Labels are added by ID
+      const ids = new Map((await listLabels()).map((label) => [label.name.toLowerCase(), label.id]));
+      const unknown = labels.filter((label) => !ids.has(label.toLowerCase()));
+      const known = labels.filter((label) => ids.has(label.toLowerCase())).map((label) => ids.get(label.toLowerCase())!);
+
+      if (known.length > 0) {
+        await request("POST", `${repo}/issues/${number}/labels`, { labels: known });
+      }
+      if (unknown.length > 0) {
+        throw new Error(`Unknown label(s) on Gitea: ${unknown.join(", ")}`);
+      }
+    },
+
+    async listMilestones() {
+      const milestones = await paginate<GiteaMilestone>(request, `${repo}/milestones?state=open`, "limit", PAGE_SIZE);
+      return milestones.map(toMilestone);
+    },
+
+    async issueMilestone(issueNumber) {
+      const issue = await request<{ milestone?: GiteaMilestone | null }>("GET", `${repo}/issues/${issueNumber}`);
+      return issue.milestone ? toMilestone(issue.milestone) : undefined;
+    },
+
+    async addAssignees(number, logins) {
+      // assignees replaces the assignees: keep the current ones
+      const current = await request<GiteaPull>("GET", `${repo}/pulls/${number}`);
+      const pull = await request<GiteaPull>("PATCH", `${repo}/pulls/${number}`, {
+        assignees: [...new Set([...(current.assignees ?? []).map((a) => a.login), ...logins])],
+      });
+      return (pull.assignees ?? []).map((a) => a.login);
+    },
+
+    async setMilestone(number, milestone) {
+      await request("PATCH", `${repo}/pulls/${number}`, { milestone: milestone.id });
+    },
+
+    async enableAutoMerge(number, method) {
+      await request("POST", `${repo}/pulls/${number}/merge`, { Do: method, merge_when_checks_succeed: true });
+    },
+
+    async getMergeStatus(number): Promise<MergeStatus> {
+      const pull = await request<GiteaPull>("GET", `${repo}/pulls/${number}`);
+      const headSha = pull.head.sha ?? "";
+      const [status, reviews] = await Promise.all([
+        request<{ statuses?: Array<{ context: string; status: string }> | null }>("GET", `${repo}/commits/${headSha}/status`),
+        request<Array<{ state: string; stale?: boolean; dismissed?: boolean; user?: { login: string } | null }>>("GET", `${repo}/pulls/${number}/reviews`),
+      ]);
+      // Latest approval or change request of each reviewer (reviews are listed oldest first). Reviews of
+      // older commits and dismissed ones no longer count.
+      const latest = new Map<string, string>();
+      for (const review of reviews) {
+        if (review.stale || review.dismissed || !["APPROVED", "REQUEST_CHANGES"].includes(review.state)) continue;
+        latest.set(review.user?.login.toLowerCase() ?? "", review.state);
+      }
+      const current = [...latest.values()];
+      const approvals = current.filter((state) => state === "APPROVED").length;
+      const { state, draft } = toPullRequest(pull);
+      return {
+        state,
+        url: pull.html_url,
+        draft: !!draft,
+        mergeable: pull.mergeable,
+        headBranch: pull.head.ref,
+        headSha,
+        headInRepository: (pull.head.repo?.full_name ?? fullName(repository)).toLowerCase() === fullName(repository),
+        checks: (status.statuses ?? []).map(toMergeCheck),
+        approvals,
+        reviewDecision: current.includes("REQUEST_CHANGES") ? "changes_requested" : undefined,
+      };
+    },
+
+    async mergePullRequest(number, method, sha) {
+      // The merge commit isn't returned
+      await request("POST", `${repo}/pulls/${number}/merge`, { Do: method, head_commit_id: sha });
+      return {};
+    },
+
+    async deleteBranch(branch) {
+      await request("DELETE", `${repo}/branches/${branch.split("/").map(encodeURIComponent).join("/")}`);
+    },
+  };
+}
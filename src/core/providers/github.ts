@@ -0,0 +1,282 @@
+import { Octokit } from "@octokit/rest";
+import { requestReviewers } from "../git/reviewer-requests.js";
+import { GitProvider, MergeCheck, MergeStatus, Milestone, PullRequest, RemoteRepository } from "./types.js";
+
+interface GitHubPull {
+  number: number;
+  html_url: string;
+  title: string;
+  body?: string | null;
+  state: string;
+  draft?: boolean;
+  merged_at: string | null;
+  head: { ref: string };
+  base: { ref: string };
+}
+
+// Color of the labels created for inferred labels
+const NEW_LABEL_COLOR = "ededed";
+
+// Auto-merge and required checks are only available through GraphQL
+const ENABLE_AUTO_MERGE = `
+  mutation($pullRequestId: ID!, $mergeMethod: PullRequestMergeMethod!) {
+    enablePullRequestAutoMerge(input: { pullRequestId: $pullRequestId, mergeMethod: $mergeMethod }) {
+      clientMutationId
+    }
+  }`;
+
+const MARK_READY = `
+  mutation($pullRequestId: ID!) {
+    markPullRequestReadyForReview(input: { pullRequestId: $pullRequestId }) { clientMutationId }
+  }`;
+
+const CONVERT_TO_DRAFT = `
+  mutation($pullRequestId: ID!) {
+    convertPullRequestToDraft(input: { pullRequestId: $pullRequestId }) { clientMutationId }
+  }`;
+
+const MERGE_STATUS = `
+  query($owner: String!, $repo: String!, $number: Int!) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        state
+        url
+        isDraft
+        mergeable
+        reviewDecision
+        headRefName
+        headRefOid
+        isCrossRepository
+        latestOpinionatedReviews(first: 100) { nodes { state } }
+        commits(last: 1) {
+          nodes {
+            commit {
+              statusCheckRollup {
+                contexts(first: 100) {
+                  nodes {
+                    __typename
+                    ... on CheckRun { name status conclusion isRequired(pullRequestNumber: $number) }
+                    ... on StatusContext { context state isRequired(pullRequestNumber: $number) }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }`;
+
+type GitHubCheckContext =
+  | { __typename: "CheckRun"; name: string; status: string; conclusion: string | null; isRequired: boolean }
+  | { __typename: "StatusContext"; context: string; state: string; isRequired: boolean };
+
+interface GitHubMergeStatus {
+  repository: {
+    pullRequest: {
+      state: "OPEN" | "CLOSED" | "MERGED";
+      url: string;
+      isDraft: boolean;
+      mergeable: "MERGEABLE" | "CONFLICTING" | "UNKNOWN";
+      reviewDecision: "APPROVED" | "CHANGES_REQUESTED" | "REVIEW_REQUIRED" | null;
+      headRefName: string;
+      headRefOid: string;
+      isCrossRepository: boolean;
+      // One review per reviewer, their latest approval or change request
+      latestOpinionatedReviews: { nodes: { state: string }[] };
+      commits: {
+        nodes: Array<{
+          commit: {
+            statusCheckRollup: { contexts: { nodes: GitHubCheckContext[] } } | null;
+          };
+        }>;
+      };
+    };
+  };
+}
+
+function toMergeCheck(context: GitHubCheckContext): MergeCheck {
+  if (context.__typename === "StatusContext") {
+    const status = context.state === "SUCCESS" ? "success" : context.state === "PENDING" || context.state === "EXPECTED" ? "pending" : "failure";
+    return { name: context.context, status, required: context.isRequired };
+  }
+  const status =
+    context.status !== "COMPLETED" ? "pending"
+    : context.conclusion === "SUCCESS" || context.conclusion === "NEUTRAL" ? "success"
+    : context.conclusion === "SKIPPED" ? "skipped"
+    : "failure";
+  return { name: context.name, status, required: context.isRequired };
+}
+
+// Milestones are set by number
+function toMilestone(milestone: { number: number; title: string; due_on?: string | null }): Milestone {
+  return { id: milestone.number, title: milestone.title, dueOn: milestone.due_on ?? undefined };
+}
+
+function toPullRequest(pull: GitHubPull): PullRequest {
+  return {
+    number: pull.number,
+    url: pull.html_url,
+    title: pull.title,
+    body: pull.body ?? undefined,
+    state: pull.merged_at ? "merged" : pull.state === "closed" ? "closed" : "open",
+    draft: pull.draft,
+    headBranch: pull.head.ref,
+    baseBranch: pull.base.ref,
+  };
+}
+
+/**
+ * GitHub and GitHub Enterprise Server pull requests through Octokit
+ */
+export function createGitHubProvider(repository: RemoteRepository, token: string): GitProvider {
+  const octokit = new Octokit({ auth: token, baseUrl: repository.apiUrl });
+  const { owner, repo } = repository;
+
+  const currentUser = async () => (await octokit.rest.users.getAuthenticated()).data.login;
+
+  return {
+    name: "github",
+    label: "GitHub",
+    repository,
+
+    async getRepository() {
+      const { data } = await octokit.rest.repos.get({ owner, repo });
+      return { fullName: data.full_name, defaultBranch: data.default_branch, webUrl: data.html_url };
+    },
+
+    async branchExists(branch, target = repository) {
+      try {
+        await octokit.rest.repos.getBranch({ owner: target.owner, repo: target.repo, branch });
+        return true;
+      } catch (error: unknown) {
+        const errorStatus = error && typeof error === "object" && "status" in error ? error.status : null;
+        if (errorStatus === 404) return false;
+        throw error;
+      }
+    },
+
+    async findPullRequest(head, base, headRepository = repository) {
+      const { data } = await octokit.rest.pulls.list({ owner, repo, head: `${headRepository.owner}:${head}`, base, state: "all" });
+      return data.length > 0 ? toPullRequest(data[0]) : undefined;
+    },
+
+    async getPullRequest(number) {
+      const { data } = await octokit.rest.pulls.get({ owner, repo, pull_number: number });
+      return toPullRequest(data);
+    },
+
+    async createPullRequest({ title, body, head, base, draft, headRepository }) {
+      // Branches of forks are named owner:branch
+      const fork = headRepository && headRepository.owner !== owner ? `${headRepository.owner}:${head}` : head;
+      const { data } = await octokit.rest.pulls.create({ owner, repo, title, body, head: fork, base, draft });
+      return toPullRequest(data);
+    },
+
+    async updatePullRequest(number, { title, body, state }) {
+      const { data } = await octokit.rest.pulls.update({ owner, repo, pull_number: number, title, body, state });
+      return toPullRequest(data);
+    },
+
+    async setDraft(number, draft) {
+      const { data } = await octokit.rest.pulls.get({ owner, repo, pull_number: number });
+      await octokit.graphql(draft ? CONVERT_TO_DRAFT : MARK_READY, { pullRequestId: data.node_id });
+      return { ...toPullRequest(data), draft };
+    },
+
+    currentUser,
+    supportsTeamReviewers: true,
+
+    async requestReviewers(number, requests) {
+      const send = async (reviewers: string[], teamReviewers: string[]) => {
+        const { data } = await octokit.rest.pulls.requestReviewers({
+          owner,
+          repo,
+          pull_number: number,
+          reviewers,
+          team_reviewers: teamReviewers,
+        });
+        return {
+          users: (data.requested_reviewers ?? []).map((r) => r.login),
+          teams: (data.requested_teams ?? []).map((t) => t.slug),
+        };
+      };
+      return requestReviewers(send, requests, await currentUser());
+    },
+
+    async listLabels() {
+      const labels = await octokit.paginate(octokit.rest.issues.listLabelsForRepo, { owner, repo, per_page: 100 });
+      return labels.map((label) => label.name);
+    },
+
+    async createLabel(name) {
+      await octokit.rest.issues.createLabel({ owner, repo, name, color: NEW_LABEL_COLOR });
+    },
+
+    async addLabels(number, labels) {
+      await octokit.rest.issues.addLabels({ owner, repo, issue_number: number, labels });
+    },
+
+    async listMilestones() {
+      const milestones = await octokit.paginate(octokit.rest.issues.listMilestones, { owner, repo, state: "open", per_page: 100 });
+      return milestones.map(toMilestone);
+    },
+
+    async issueMilestone(issueNumber) {
+      const { data } = await octokit.rest.issues.get({ owner, repo, issue_number: issueNumber });
+      return data.milestone ? toMilestone(data.milestone) : undefined;
+    },
+
+    async addAssignees(number, logins) {
+      const { data } = await octokit.rest.issues.addAssignees({ owner, repo, issue_number: number, assignees: logins });
+      return (data.assignees ?? []).map((assignee) => assignee.login);
+    },
+
+    async setMilestone(number, milestone) {
+      await octokit.rest.issues.update({ owner, repo, issue_number: number, milestone: milestone.id });
+    },
+
+    async enableAutoMerge(number, method) {
+      const { data } = await octokit.rest.pulls.get({ owner, repo, pull_number: number });
+      await octokit.graphql(ENABLE_AUTO_MERGE, { pullRequestId: data.node_id, mergeMethod: method.toUpperCase() });
+    },
+
+    async getMergeStatus(number): Promise<MergeStatus> {
+      const { repository: { pullRequest: pull } } = await octokit.graphql<GitHubMergeStatus>(MERGE_STATUS, { owner, repo, number });
+      const rollup = pull.commits.nodes[0]?.commit.statusCheckRollup;
+      return {
+        state: pull.state === "MERGED" ? "merged" : pull.state === "CLOSED" ? "closed" : "open",
+        url: pull.url,
+        draft: pull.isDraft,
+        mergeable: pull.mergeable === "UNKNOWN" ? undefined : pull.mergeable === "MERGEABLE",
+        headBranch: pull.headRefName,
+        headSha: pull.headRefOid,
+        headInRepository: !pull.isCrossRepository,
+        checks: (rollup?.contexts.nodes ?? []).map(toMergeCheck),
+        approvals: pull.latestOpinionatedReviews.nodes.filter((review) => review.state === "APPROVED").length,
+        reviewDecision: pull.reviewDecision
+          ? (pull.reviewDecision.toLowerCase() as MergeStatus["reviewDecision"])
+          : undefined,
+      };
+    },
+
+    async mergePullRequest(number, method, sha) {
+      const { data } = await octokit.rest.pulls.merge({ owner, repo, pull_number: number, merge_method: method, sha });
+      return { sha: data.sha };
+    },
+
+    async deleteBranch(branch) {
+      await octokit.rest.git.deleteRef({ owner, repo, ref: `heads/${branch}` });
+    },
+
+    async listPullRequestFiles(number) {
+      const files = await octokit.paginate(octokit.rest.pulls.listFiles, { owner, repo, pull_number: number, per_page: 100 });
+      return files.map((file) => ({ file: file.filename, patch: file.patch }));
+    },
+
+    async submitReview(number, { event, body, comments }) {
+      const { data } = await octokit.rest.pulls.createReview({ owner, repo, pull_number: number, event, body: body || undefined, comments });
+      return { id: data.id, url: data.html_url };
+    },
+  };
+}
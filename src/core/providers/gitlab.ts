@@ -0,0 +1,256 @@
+import { requestReviewers } from "../git/reviewer-requests.js";
+import { createHttpClient, paginate } from "./http.js";
+import { GitProvider, MergeCheck, MergeMethod, MergeStatus, Milestone, PullRequest, RemoteRepository } from "./types.js";
+
+interface GitLabMergeRequest {
+  iid: number;
+  web_url: string;
+  title: string;
+  description?: string | null;
+  state: "opened" | "closed" | "locked" | "merged";
+  draft?: boolean;
+  work_in_progress?: boolean;
+  source_branch: string;
+  target_branch: string;
+  source_project_id?: number;
+  target_project_id?: number;
+  reviewers?: Array<{ id: number; username: string }>;
+  assignees?: Array<{ id: number; username: string }>;
+  sha?: string;
+  has_conflicts?: boolean;
+  merge_status?: string;
+  head_pipeline?: { status: string } | null;
+  merge_commit_sha?: string | null;
+  squash_commit_sha?: string | null;
+}
+
+interface GitLabMilestone {
+  id: number;
+  title: string;
+  due_date?: string | null;
+}
+
+// GitLab marks merge requests as drafts through their title
+const DRAFT_PREFIX = "Draft: ";
+// Every prefix GitLab recognises, in any case
+const DRAFT_TITLE = /^\s*(?:Draft:|\[Draft\]|\(Draft\)|Draft\s+-)\s*/i;
+
+// Largest page GitLab returns
+const PAGE_SIZE = 100;
+
+// Color of the labels created for inferred labels
+const NEW_LABEL_COLOR = "#ededed";
+
+// Merge method giving the same history as each project merge method ("ff" merges without a merge commit)
+const PROJECT_MERGE_METHODS: Record<string, MergeMethod> = { merge: "merge", rebase_merge: "merge", ff: "rebase" };
+
+// Merge statuses GitLab hasn't finished computing
+const UNCHECKED_MERGE_STATUSES = ["unchecked", "checking", "cannot_be_merged_recheck"];
+
+function toMergeCheck(pipeline: { status: string }): MergeCheck {
+  const status =
+    pipeline.status === "success" ? "success"
+    : pipeline.status === "failed" || pipeline.status === "canceled" ? "failure"
+    : pipeline.status === "skipped" ? "skipped"
+    : "pending";
+  return { name: "pipeline", status };
+}
+
+function toMilestone(milestone: GitLabMilestone): Milestone {
+  return { id: milestone.id, title: milestone.title, dueOn: milestone.due_date ?? undefined };
+}
+
+function toPullRequest(mr: GitLabMergeRequest): PullRequest {
+  return {
+    number: mr.iid,
+    url: mr.web_url,
+    title: mr.title.replace(DRAFT_TITLE, ""),
+    body: mr.description ?? undefined,
+    state: mr.state === "merged" ? "merged" : mr.state === "opened" ? "open" : "closed",
+    draft: mr.draft ?? mr.work_in_progress ?? DRAFT_TITLE.test(mr.title),
+    headBranch: mr.source_branch,
+    baseBranch: mr.target_branch,
+  };
+}
+
+/**
+ * GitLab merge requests through the REST API (v4). Reviewers are users only: GitLab has no team reviewers.
+ */
+export function createGitLabProvider(repository: RemoteRepository, token: string): GitProvider {
+  const request = createHttpClient(repository.apiUrl, { "PRIVATE-TOKEN": token });
+  const projectPath = (target: RemoteRepository) => `/projects/${encodeURIComponent(`${target.owner}/${target.repo}`)}`;
+  const project = projectPath(repository);
+  const projectId = async (target: RemoteRepository) => (await request<{ id: number }>("GET", projectPath(target))).id;
+  const isFork = (target?: RemoteRepository): target is RemoteRepository =>
+    target !== undefined && projectPath(target) !== project;
+  const mergeRequest = (iid: number) => `${project}/merge_requests/${iid}`;
+
+  // Merges follow the project's merge method, squash being the only choice left per merge request:
+  // other methods are refused rather than silently replaced
+  const mergeBody = async (method: MergeMethod) => {
+    if (method !== "squash") {
+      const { merge_method: projectMethod } = await request<{ merge_method: string }>("GET", project);
+      if (PROJECT_MERGE_METHODS[projectMethod] !== method) {
+        throw new Error(`The project merges with its "${projectMethod}" merge method, so "${method}" can't be used: use "squash" or change the project's setting`);
+      }
+    }
+    return { squash: method === "squash" };
+  };
+
+  const currentUser = async () => (await request<{ username: string }>("GET", "/user")).username;
+  const userId = async (username: string) => {
+    const users = await request<Array<{ id: number }>>("GET", `/users?username=${encodeURIComponent(username)}`);
+    if (users.length === 0) throw new Error(`No GitLab user named ${username}`);
+    return users[0].id;
+  };
+
+  return {
+    name: "gitlab",
+    label: "GitLab",
+    repository,
+
+    async getRepository() {
+      const data = await request<{ path_with_namespace: string; default_branch: string; web_url: string }>("GET", project);
+      return { fullName: data.path_with_namespace, defaultBranch: data.default_branch, webUrl: data.web_url };
+    },
+
+    async branchExists(branch, target = repository) {
+      try {
+        await request("GET", `${projectPath(target)}/repository/branches/${encodeURIComponent(branch)}`);
+        return true;
+      } catch (error: unknown) {
+        const errorStatus = error && typeof error === "object" && "status" in error ? error.status : null;
+        if (errorStatus === 404) return false;
+        throw error;
+      }
+    },
+
+    async findPullRequest(head, base, headRepository) {
+      const query = new URLSearchParams({ source_branch: head, target_branch: base, state: "all", order_by: "updated_at" });
+      const mergeRequests = await request<GitLabMergeRequest[]>("GET", `${project}/merge_requests?${query}`);
+      // Branches of the same name in forks are other merge requests
+      const sourceId = isFork(headRepository) ? await projectId(headRepository) : undefined;
+      const match = mergeRequests.find((mr) => mr.source_project_id === (sourceId ?? mr.target_project_id));
+      return match ? toPullRequest(match) : undefined;
+    },
+
+    async getPullRequest(number) {
+      return toPullRequest(await request<GitLabMergeRequest>("GET", mergeRequest(number)));
+    },
+
+    async createPullRequest({ title, body, head, base, draft, headRepository }) {
+      // Merge requests from forks are opened on the fork, targeting this project
+      const fork = isFork(headRepository);
+      const mr = await request<GitLabMergeRequest>("POST", `${fork ? projectPath(headRepository) : project}/merge_requests`, {
+        source_branch: head,
+        target_branch: base,
+        target_project_id: fork ? await projectId(repository) : undefined,
+        title: draft ? `${DRAFT_PREFIX}${title}` : title,
+        description: body,
+      });
+      return toPullRequest(mr);
+    },
+
+    async updatePullRequest(number, { title, body, state }) {
+      // A new title would drop the draft prefix
+      const current = await request<GitLabMergeRequest>("GET", mergeRequest(number));
+      const isDraft = current.draft ?? current.work_in_progress;
+      const mr = await request<GitLabMergeRequest>("PUT", mergeRequest(number), {
+        title: title !== undefined && isDraft ? `${DRAFT_PREFIX}${title}` : title,
+        description: body,
+        state_event: state === "open" ? "reopen" : undefined,
+      });
+      return toPullRequest(mr);
+    },
+
+    async setDraft(number, draft) {
+      const { title } = toPullRequest(await request<GitLabMergeRequest>("GET", mergeRequest(number)));
+      const mr = await request<GitLabMergeRequest>("PUT", mergeRequest(number), { title: draft ? `${DRAFT_PREFIX}${title}` : title });
+      return toPullRequest(mr);
+    },
+
+    currentUser,
+    supportsTeamReviewers: false,
+
+    async requestReviewers(number, requests) {
+      const send = async (usernames: string[]) => {
+        const ids = await Promise.all(usernames.map(userId));
+        // reviewer_ids replaces the reviewers: keep the current ones
+        const current = await request<GitLabMergeRequest>("GET", mergeRequest(number));
+        const mr = await request<GitLabMergeRequest>("PUT", mergeRequest(number), {
+          reviewer_ids: [...new Set([...(current.reviewers ?? []).map((r) => r.id), ...ids])],
+        });
+        return { users: (mr.reviewers ?? []).map((r) => r.username), teams: [] };
+      };
+      return requestReviewers(send, requests, await currentUser(), false);
+    },
+
+    async listLabels() {
+      const labels = await paginate<{ name: string }>(request, `${project}/labels`, "per_page", PAGE_SIZE);
+      return labels.map((label) => label.name);
+    },
+
+    async createLabel(name) {
+      await request("POST", `${project}/labels`, { name, color: NEW_LABEL_COLOR });
+    },
+
+    async addLabels(number, labels) {
+      await request("PUT", mergeRequest(number), { add_labels: labels.join(",") });
+    },
+
+    async listMilestones() {
+      const milestones = await paginate<GitLabMilestone>(request, `${project}/milestones?state=active`, "per_page", PAGE_SIZE);
+      return milestones.map(toMilestone);
+    },
+
+    async issueMilestone(issueNumber) {
+      const issue = await request<{ milestone?: GitLabMilestone | null }>("GET", `${project}/issues/${issueNumber}`);
+      return issue.milestone ? toMilestone(issue.milestone) : undefined;
+    },
+
+    async addAssignees(number, logins) {
+      const ids = await Promise.all(logins.map(userId));
+      // assignee_ids replaces the assignees: keep the current ones
+      const current = await request<GitLabMergeRequest>("GET", mergeRequest(number));
+      const mr = await request<GitLabMergeRequest>("PUT", mergeRequest(number), {
+        assignee_ids: [...new Set([...(current.assignees ?? []).map((a) => a.id), ...ids])],
+      });
+      return (mr.assignees ?? []).map((a) => a.username);
+    },
+
+    async setMilestone(number, milestone) {
+      await request("PUT", mergeRequest(number), { milestone_id: milestone.id });
+    },
+
+    async enableAutoMerge(number, method) {
+      await request("PUT", `${mergeRequest(number)}/merge`, { merge_when_pipeline_succeeds: true, ...(await mergeBody(method)) });
+    },
+
+    async getMergeStatus(number): Promise<MergeStatus> {
+      const mr = await request<GitLabMergeRequest>("GET", mergeRequest(number));
+      const approvals = await request<{ approvals_left?: number; approved_by?: unknown[] }>("GET", `${mergeRequest(number)}/approvals`);
+      const approvedBy = approvals.approved_by?.length ?? 0;
+      return {
+        state: toPullRequest(mr).state,
+        url: mr.web_url,
+        draft: !!(mr.draft ?? mr.work_in_progress),
+        mergeable: UNCHECKED_MERGE_STATUSES.includes(mr.merge_status ?? "") ? undefined : !mr.has_conflicts,
+        headBranch: mr.source_branch,
+        headSha: mr.sha ?? "",
+        headInRepository: mr.source_project_id === mr.target_project_id,
+        checks: mr.head_pipeline ? [toMergeCheck(mr.head_pipeline)] : [],
+        approvals: approvedBy,
+        reviewDecision: (approvals.approvals_left ?? 0) > 0 ? "review_required" : approvedBy > 0 ? "approved" : undefined,
+      };
+    },
+
+    async mergePullRequest(number, method, sha) {
+      const mr = await request<GitLabMergeRequest>("PUT", `${mergeRequest(number)}/merge`, { ...(await mergeBody(method)), sha });
+      return { sha: mr.merge_commit_sha ?? mr.squash_commit_sha ?? undefined };
+    },
+
+    async deleteBranch(branch) {
+      await request("DELETE", `${project}/repository/branches/${encodeURIComponent(branch)}`);
+    },
+  };
+}
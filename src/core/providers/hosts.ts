@@ -0,0 +1,208 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ProviderName, RemoteRepository } from "./types.js";
+
+export const GITHUB_API_URL = "https://api.github.com";
+
+const PROVIDER_NAMES: ProviderName[] = ["github", "gitlab", "gitea"];
+
+/**
+ * A self-hosted instance, configured in GIT_HOSTS
+ */
+export interface HostConfig {
+  provider?: ProviderName;
+  // REST API base URL ("https://github.corp.example/api/v3")
+  apiUrl?: string;
+}
+
+export interface ParsedRemoteUrl {
+  host: string;
+  protocol: "https" | "http";
+  owner: string;
+  repo: string;
+  // git@host:... and ssh:// remotes, whose host may be an alias from ~/.ssh/config
+  ssh: boolean;
+}
+
+/**
+ * Reads GIT_HOSTS, a JSON object of host → API base URL or { provider, apiUrl }:
+ * {"github.corp.example": "https://github.corp.example/api/v3", "git.corp.example": {"provider": "gitlab"}}
+ */
+export function loadHostConfig(value: string | undefined = process.env.GIT_HOSTS): Record<string, HostConfig> {
+  if (!value) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid GIT_HOSTS: ${errorMessage}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Invalid GIT_HOSTS: expected an object of host → API URL");
+  }
+
+  return Object.fromEntries(
+    Object.entries(parsed).map(([host, entry]) => {
+      const config: HostConfig = typeof entry === "string" ? { apiUrl: entry } : { ...(entry as HostConfig) };
+      if (config.provider && !PROVIDER_NAMES.includes(config.provider)) {
+        throw new Error(`Invalid GIT_HOSTS: unsupported provider "${config.provider}" for ${host}`);
+      }
+      return [host.toLowerCase(), { ...config, apiUrl: config.apiUrl?.replace(/\/+$/, "") }];
+    })
+  );
+}
+
+function hostConfig(hosts: Record<string, HostConfig>, host: string): HostConfig | undefined {
+  const lower = host.toLowerCase();
+  return hosts[lower] ?? hosts[lower.replace(/:\d+$/, "")];
+}
+
+/**
+ * Host, owner and repository of a remote URL:
+ * - git@host:owner/repo.git (host may be an SSH alias)
+ * - ssh://git@host:2222/owner/repo.git
+ * - https://host/group/subgroup/repo(.git)
+ */
+export function parseRemoteUrl(url: string): ParsedRemoteUrl | undefined {
+  const trimmed = url.trim();
+  let host: string;
+  let protocol: "https" | "http" = "https";
+  let path: string;
+  let ssh = true;
+
+  const urlMatch = trimmed.match(/^(ssh|git|https?):\/\/(?:[^@/]+@)?([^/:]+)(?::(\d+))?\/(.+)$/);
+  const scpMatch = trimmed.match(/^(?:[^@/]+@)?([^/:]+):(?!\/)(.+)$/);
+  if (urlMatch) {
+    const [, scheme, hostname, port, rest] = urlMatch;
+    // SSH ports say nothing about the web interface
+    ssh = scheme === "ssh" || scheme === "git";
+    host = !ssh && port ? `${hostname}:${port}` : hostname;
+    protocol = scheme === "http" ? "http" : "https";
+    path = rest;
+  } else if (scpMatch) {
+    [, host, path] = scpMatch;
+  } else {
+    return undefined;
+  }
+
+  const segments = path.replace(/\/+$/, "").replace(/\.git$/, "").split("/").filter(Boolean);
+  if (segments.length < 2) return undefined;
+
+  return { host, protocol, owner: segments.slice(0, -1).join("/"), repo: segments[segments.length - 1], ssh };
+}
+
+/**
+ * Real host name of an SSH alias, from the HostName of the first matching Host block of ~/.ssh/config
+ */
+export async function resolveSshAlias(
+  alias: string,
+  configPath: string = path.join(os.homedir(), ".ssh", "config")
+): Promise<string> {
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, "utf-8");
+  } catch {
+    return alias;
+  }
+
+  const matches = (pattern: string) =>
+    new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".")}$`, "i").test(alias);
+
+  let applies = false;
+  for (const line of content.split("\n")) {
+    const [keyword, ...args] = line.trim().split(/\s+|=/).filter(Boolean);
+    if (!keyword || keyword.startsWith("#")) continue;
+
+    if (/^host$/i.test(keyword)) {
+      const negated = args.filter((p) => p.startsWith("!")).some((p) => matches(p.slice(1)));
+      applies = !negated && args.some((p) => !p.startsWith("!") && matches(p));
+    } else if (/^match$/i.test(keyword)) {
+      applies = false;
+    } else if (applies && /^hostname$/i.test(keyword) && args[0]) {
+      return args[0].replace(/%h/g, alias);
+    }
+  }
+  return alias;
+}
+
+/**
+ * Hosting service of a host: GIT_PROVIDER wins, then GIT_HOSTS, then github.com and hosts
+ * named after GitHub (Enterprise Server), GitLab or Gitea
+ */
+export function detectProvider(host: string, hosts: Record<string, HostConfig> = loadHostConfig()): ProviderName | undefined {
+  const configured = process.env.GIT_PROVIDER?.toLowerCase();
+  if (configured) {
+    if (PROVIDER_NAMES.includes(configured as ProviderName)) return configured as ProviderName;
+    throw new Error(`Unsupported GIT_PROVIDER "${process.env.GIT_PROVIDER}" (expected github, gitlab or gitea)`);
+  }
+
+  const config = hostConfig(hosts, host);
+  if (config?.provider) return config.provider;
+  if (config?.apiUrl) {
+    if (/\/api\/v3$/.test(config.apiUrl) || config.apiUrl === GITHUB_API_URL) return "github";
+    if (/\/api\/v4$/.test(config.apiUrl)) return "gitlab";
+    if (/\/api\/v1$/.test(config.apiUrl)) return "gitea";
+  }
+
+  const hostname = host.toLowerCase().replace(/:\d+$/, "");
+  if (hostname.includes("github")) return "github";
+  if (hostname.includes("gitlab")) return "gitlab";
+  if (hostname.includes("gitea") || hostname.includes("forgejo") || hostname === "codeberg.org") return "gitea";
+  return undefined;
+}
+
+/**
+ * REST API base URL: GIT_HOSTS, api.github.com, or the instance's own API (/api/v3 for GitHub
+ * Enterprise Server, /api/v4 for GitLab, /api/v1 for Gitea)
+ */
+export function apiBaseUrl(
+  provider: ProviderName,
+  host: string,
+  protocol: "https" | "http",
+  hosts: Record<string, HostConfig> = loadHostConfig()
+): string {
+  const configured = hostConfig(hosts, host)?.apiUrl;
+  if (configured) return configured;
+
+  switch (provider) {
+    case "github":
+      return host.toLowerCase() === "github.com" ? GITHUB_API_URL : `${protocol}://${host}/api/v3`;
+    case "gitlab":
+      return `${protocol}://${host}/api/v4`;
+    case "gitea":
+      return `${protocol}://${host}/api/v1`;
+  }
+}
+
+/**
+ * Repository, hosting service and API of a remote URL
+ */
+export async function resolveRemoteRepository(
+  remoteUrl: string,
+  hosts: Record<string, HostConfig> = loadHostConfig()
+): Promise<RemoteRepository> {
+  const parsed = parseRemoteUrl(remoteUrl);
+  if (!parsed) {
+    throw new Error(`Unable to parse repository from remote URL: ${remoteUrl.trim()}`);
+  }
+
+  // Configured hosts are taken as they are, other SSH hosts may be aliases ("github-work" → github.com)
+  const host = parsed.ssh && !hostConfig(hosts, parsed.host) ? await resolveSshAlias(parsed.host) : parsed.host;
+  const provider = detectProvider(host, hosts);
+  if (!provider) {
+    throw new Error(
+      `Unknown Git hosting service for ${host}. Set GIT_PROVIDER to github, gitlab or gitea, or configure the host in GIT_HOSTS.`
+    );
+  }
+
+  return {
+    provider,
+    host,
+    protocol: parsed.protocol,
+    owner: parsed.owner,
+    repo: parsed.repo,
+    apiUrl: apiBaseUrl(provider, host, parsed.protocol, hosts),
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Minimal JSON client for the REST APIs without an SDK (GitLab, Gitea)
+ */
+export type HttpRequest = <T>(method: string, path: string, body?: unknown) => Promise<T>;
+
+/**
+ * Errors carry the response status, like Octokit's, so callers can check `error.status`
+ */
+export function createHttpClient(baseUrl: string, headers: Record<string, string>): HttpRequest {
+  return async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { Accept: "application/json", "Content-Type": "application/json", ...headers },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      let message = text;
+      try {
+        const json = JSON.parse(text);
+        const detail = json.message ?? json.error ?? text;
+        message = typeof detail === "string" ? detail : JSON.stringify(detail);
+      } catch {
+        // Not JSON: keep the text
+      }
+      throw Object.assign(new Error(`${method} ${path} failed (${response.status})${message ? `: ${message}` : ""}`), {
+        status: response.status,
+      });
+    }
+
+    // Some endpoints (Gitea's merge) answer 200 with an empty body
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  };
+}
+
+/**
+ * Every item of a paginated list, reading pages until one comes back short. `sizeParam` is the
+ * page size parameter of the API ("per_page" on GitLab, "limit" on Gitea).
+ */
+export async function paginate<T>(request: HttpRequest, path: string, sizeParam: string, pageSize: number): Promise<T[]> {
+  const items: T[] = [];
+  for (let page = 1; ; page++) {
+    const batch = await request<T[]>("GET", `${path}${path.includes("?") ? "&" : "?"}${sizeParam}=${pageSize}&page=${page}`);
+    items.push(...batch);
+    if (batch.length < pageSize) return items;
+  }
+}
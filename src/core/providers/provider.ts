@@ -0,0 +1,139 @@
+import { createGitInstance, detectMainBranch } from "../git/repository.js";
+import { createGitHubProvider } from "./github.js";
+import { createGitLabProvider } from "./gitlab.js";
+import { createGiteaProvider } from "./gitea.js";
+import { resolveRemoteRepository } from "./hosts.js";
+import { GitProvider, ProviderName, PullRequest, RemoteRepository } from "./types.js";
+
+const PROVIDERS: Record<ProviderName, { label: string; tokenVariable: string; create: typeof createGitHubProvider }> = {
+  github: { label: "GitHub", tokenVariable: "GITHUB_TOKEN", create: createGitHubProvider },
+  gitlab: { label: "GitLab", tokenVariable: "GITLAB_TOKEN", create: createGitLabProvider },
+  gitea: { label: "Gitea", tokenVariable: "GITEA_TOKEN", create: createGiteaProvider },
+};
+
+/**
+ * Remotes of a PR: the branch is pushed to head and the PR opened on base
+ */
+export interface PullRequestRemotes {
+  head: string;
+  base: string;
+}
+
+/**
+ * Explicit remotes win. Otherwise an upstream remote next to origin means a fork: the branch
+ * is pushed to origin and the PR opened on upstream.
+ */
+export async function detectPullRequestRemotes(
+  workingDir: string = process.cwd(),
+  options: { headRemote?: string; baseRemote?: string } = {}
+): Promise<PullRequestRemotes> {
+  const remotes = (await createGitInstance(workingDir).getRemotes()).map((remote) => remote.name);
+  const head = options.headRemote || "origin";
+  const base = options.baseRemote || (head !== "upstream" && remotes.includes("upstream") ? "upstream" : head);
+
+  for (const remote of new Set([head, base])) {
+    if (!remotes.includes(remote)) {
+      throw new Error(`No remote named '${remote}' (remotes: ${remotes.join(", ") || "none"})`);
+    }
+  }
+  return { head, base };
+}
+
+/**
+ * Repository, hosting service and API of a remote
+ */
+export async function getRemoteRepository(
+  workingDir: string = process.cwd(),
+  remote: string = "origin"
+): Promise<RemoteRepository> {
+  const remoteUrl = await createGitInstance(workingDir).remote(["get-url", remote]);
+  if (!remoteUrl) {
+    throw new Error(`No remote URL found for '${remote}'`);
+  }
+
+  return resolveRemoteRepository(remoteUrl);
+}
+
+/**
+ * Provider for a remote (origin by default). The token defaults to GITHUB_TOKEN, GITLAB_TOKEN or GITEA_TOKEN.
+ */
+export async function createProvider(
+  workingDir: string = process.cwd(),
+  token?: string,
+  remote: string = "origin"
+): Promise<GitProvider> {
+  const repository = await getRemoteRepository(workingDir, remote);
+  const { label, tokenVariable, create } = PROVIDERS[repository.provider];
+
+  const resolvedToken = token || process.env[tokenVariable];
+  if (!resolvedToken) {
+    throw new Error(
+      repository.provider === "github"
+        ? "GitHub token is required. Set GITHUB_TOKEN environment variable or pass it as parameter. " +
+          "Supports both personal access tokens (ghp_...) and enterprise tokens (github_pat_...)."
+        : `${label} token is required. Set ${tokenVariable} environment variable or pass it as parameter.`
+    );
+  }
+
+  return create(repository, resolvedToken);
+}
+
+/**
+ * Where a PR goes: the provider of the base remote, and the repository of the head remote
+ * (a fork when it isn't the provider's repository)
+ */
+export interface PullRequestTarget {
+  provider: GitProvider;
+  remotes: PullRequestRemotes;
+  headRepository: RemoteRepository;
+}
+
+export async function createPullRequestTarget(
+  workingDir: string = process.cwd(),
+  token?: string,
+  options: { headRemote?: string; baseRemote?: string } = {}
+): Promise<PullRequestTarget> {
+  const remotes = await detectPullRequestRemotes(workingDir, options);
+  const provider = await createProvider(workingDir, token, remotes.base);
+  const headRepository = remotes.head === remotes.base ? provider.repository : await getRemoteRepository(workingDir, remotes.head);
+
+  // Forks live on the same instance as the repository they were forked from
+  if (headRepository.provider !== provider.name || headRepository.host !== provider.repository.host) {
+    throw new Error(
+      `Remotes '${remotes.head}' (${headRepository.host}) and '${remotes.base}' (${provider.repository.host}) ` +
+      "are not on the same hosting service"
+    );
+  }
+  return { provider, remotes, headRepository };
+}
+
+/**
+ * Options of the tools acting on an existing PR
+ */
+export interface TargetPullRequestOptions {
+  // Base branch of the PR of the current branch, when no number is given
+  baseBranch?: string;
+  headRemote?: string;
+  baseRemote?: string;
+}
+
+/**
+ * The PR a tool acts on: the one given by number, or the most recent one from the checked out
+ * branch into baseBranch (the main branch by default)
+ */
+export async function findTargetPullRequest(
+  target: PullRequestTarget,
+  number?: number,
+  baseBranch?: string,
+  workingDir: string = process.cwd()
+): Promise<PullRequest> {
+  if (number !== undefined) return target.provider.getPullRequest(number);
+
+  const branch = (await createGitInstance(workingDir).revparse(["--abbrev-ref", "HEAD"])).trim();
+  const base = baseBranch || await detectMainBranch(workingDir);
+  const pr = await target.provider.findPullRequest(branch, base, target.headRepository);
+  if (!pr) {
+    throw new Error(`No pull request from "${branch}" into "${base}"`);
+  }
+  return pr;
+}
@@ -0,0 +1,169 @@
+import { ReviewerRequest, ReviewerRequestResult } from "../git/types.js";
+
+export type ProviderName = "github" | "gitlab" | "gitea";
+
+/**
+ * Repository the origin remote points to
+ */
+export interface RemoteRepository {
+  provider: ProviderName;
+  // Host, with its port for HTTP(S) remotes ("gitlab.example.com:8443")
+  host: string;
+  protocol: "https" | "http";
+  // User, organization or GitLab group path ("group/subgroup")
+  owner: string;
+  repo: string;
+  // REST API base URL ("https://api.github.com", "https://github.corp.example/api/v3")
+  apiUrl: string;
+}
+
+export interface RepositoryDetails {
+  fullName: string;
+  defaultBranch: string;
+  webUrl: string;
+}
+
+/**
+ * A GitHub/Gitea pull request or a GitLab merge request
+ */
+export interface PullRequest {
+  // PR number, or merge request IID on GitLab
+  number: number;
+  url: string;
+  // Without the draft prefix GitLab and Gitea put in titles
+  title: string;
+  body?: string;
+  state: "open" | "closed" | "merged";
+  draft?: boolean;
+  headBranch: string;
+  baseBranch: string;
+}
+
+/**
+ * An open milestone. id is what the provider's API takes: the milestone number on GitHub.
+ */
+export interface Milestone {
+  id: number;
+  title: string;
+  // ISO date ("2026-10-30"), milestones without one are never "nearest"
+  dueOn?: string;
+}
+
+export interface PullRequestInput {
+  title: string;
+  body: string;
+  head: string;
+  base: string;
+  draft?: boolean;
+  // Fork the head branch lives in, the provider's repository by default
+  headRepository?: RemoteRepository;
+}
+
+export interface PullRequestUpdate {
+  title?: string;
+  body?: string;
+  // Reopens a closed PR
+  state?: "open";
+}
+
+export type MergeMethod = "merge" | "squash" | "rebase";
+
+/**
+ * A CI check or commit status of a PR's head commit
+ */
+export interface MergeCheck {
+  name: string;
+  status: "success" | "pending" | "failure" | "skipped";
+  // Required by branch protection, undefined when the service doesn't tell
+  required?: boolean;
+}
+
+/**
+ * What decides whether a PR can be merged
+ */
+export interface MergeStatus {
+  state: PullRequest["state"];
+  url: string;
+  draft: boolean;
+  // false for conflicts, undefined while the service is still computing it
+  mergeable?: boolean;
+  headBranch: string;
+  // The commit the checks and approvals are for, and the only one merged
+  headSha: string;
+  // Head branch in the provider's repository rather than a fork
+  headInRepository: boolean;
+  checks: MergeCheck[];
+  approvals: number;
+  // Review requirement, when the service computes one
+  reviewDecision?: "approved" | "changes_requested" | "review_required";
+}
+
+export type ReviewEvent = "APPROVE" | "REQUEST_CHANGES" | "COMMENT";
+
+/**
+ * A file of a PR, with its patch (missing for binary and very large files)
+ */
+export interface PullRequestFile {
+  file: string;
+  patch?: string;
+}
+
+export interface ReviewCommentInput {
+  path: string;
+  // Position in the file's patch, see patchPositions
+  position: number;
+  body: string;
+}
+
+export interface ReviewInput {
+  event: ReviewEvent;
+  body: string;
+  comments: ReviewCommentInput[];
+}
+
+/**
+ * Operations the create tools need from a Git hosting service
+ */
+export interface GitProvider {
+  name: ProviderName;
+  // Display name ("GitHub", "GitLab", "Gitea")
+  label: string;
+  repository: RemoteRepository;
+  getRepository(): Promise<RepositoryDetails>;
+  // In the provider's repository, or in a fork of it
+  branchExists(branch: string, repository?: RemoteRepository): Promise<boolean>;
+  // Most recent PR from head (in headRepository, a fork, when given) into base, whatever its state
+  findPullRequest(head: string, base: string, headRepository?: RemoteRepository): Promise<PullRequest | undefined>;
+  getPullRequest(number: number): Promise<PullRequest>;
+  createPullRequest(input: PullRequestInput): Promise<PullRequest>;
+  updatePullRequest(number: number, update: PullRequestUpdate): Promise<PullRequest>;
+  // Marks a PR as ready for review (false) or converts it back to a draft (true)
+  setDraft(number: number, draft: boolean): Promise<PullRequest>;
+  // Login of the token's owner
+  currentUser(): Promise<string>;
+  // Whether teams can be requested as reviewers (not on GitLab)
+  supportsTeamReviewers: boolean;
+  // Requests reviewers and teams, skipping the token's owner, see reviewer-requests.ts
+  requestReviewers(number: number, requests: ReviewerRequest[]): Promise<ReviewerRequestResult[]>;
+  // Names of the repository's labels
+  listLabels(): Promise<string[]>;
+  createLabel(name: string): Promise<void>;
+  addLabels(number: number, labels: string[]): Promise<void>;
+  // Open milestones of the repository
+  listMilestones(): Promise<Milestone[]>;
+  // Milestone of an issue of the repository
+  issueMilestone(issueNumber: number): Promise<Milestone | undefined>;
+  // Adds assignees, returns the PR's assignees afterwards
+  addAssignees(number: number, logins: string[]): Promise<string[]>;
+  setMilestone(number: number, milestone: Milestone): Promise<void>;
+  // Merges the PR once its requirements are met
+  enableAutoMerge(number: number, method: MergeMethod): Promise<void>;
+  getMergeStatus(number: number): Promise<MergeStatus>;
+  // Merges the PR if its head is still sha, returns the merge commit when the service tells
+  mergePullRequest(number: number, method: MergeMethod, sha: string): Promise<{ sha?: string }>;
+  // Branch of the provider's repository
+  deleteBranch(branch: string): Promise<void>;
+  // Reviews with inline comments on diff positions, GitHub only
+  listPullRequestFiles?(number: number): Promise<PullRequestFile[]>;
+  submitReview?(number: number, review: ReviewInput): Promise<{ id: number; url: string }>;
+}
@@ -0,0 +1,100 @@
+import { CommitInfo } from "../core/git/types.js";
+import { CONVENTIONAL_TYPES, parseCommitMessage } from "../core/git/commit-parser.js";
+import { Language } from "../validation/types.js";
+
+// Imperative verbs commit subjects usually start with, and how a PR description says them
+const VERBS: Record<Language, Record<string, string>> = {
+  en: {
+    add: "Adds",
+    fix: "Fixes",
+    update: "Updates",
+    refactor: "Refactors",
+    remove: "Removes",
+    delete: "Removes",
+    implement: "Implements",
+    improve: "Improves",
+    enhance: "Enhances",
+    optimize: "Optimizes",
+  },
+  fr: {
+    add: "Ajoute",
+    fix: "Corrige",
+    update: "Met à jour",
+    refactor: "Refactorise",
+    remove: "Supprime",
+    delete: "Supprime",
+    implement: "Implémente",
+    improve: "Améliore",
+    enhance: "Améliore",
+    optimize: "Optimise",
+  },
+};
+
+// Commit types describing an action, used as a verb when the subject doesn't start with one
+const TYPE_VERBS: Record<Language, Record<string, string>> = {
+  en: {
+    feat: "Adds",
+    fix: "Fixes",
+    refactor: "Refactors",
+    perf: "Optimizes",
+    style: "Updates styling for",
+    revert: "Reverts",
+  },
+  fr: {
+    feat: "Ajoute",
+    fix: "Corrige",
+    refactor: "Refactorise",
+    perf: "Optimise",
+    style: "Met à jour le style de",
+    revert: "Annule",
+  },
+};
+
+// Commit types describing an area rather than an action, used as a label
+const TYPE_LABELS: Record<Language, Record<string, string>> = {
+  en: { docs: "Documentation", test: "Tests", chore: "Maintenance", build: "Build", ci: "CI" },
+  fr: { docs: "Documentation", test: "Tests", chore: "Maintenance", build: "Build", ci: "CI" },
+};
+
+const BREAKING_SUFFIX: Record<Language, string> = {
+  en: " (breaking change)",
+  fr: " (changement non rétrocompatible)",
+};
+
+/**
+ * Replaces a leading imperative verb ("add") with its descriptive form ("Adds")
+ */
+function conjugateLeadingVerb(text: string, language: Language): string | undefined {
+  const match = text.match(/^([a-zA-Z]+)\b\s*([\s\S]*)$/);
+  if (!match) return undefined;
+
+  const verb = VERBS[language][match[1].toLowerCase()];
+  return verb ? `${verb} ${match[2]}`.trimEnd() : undefined;
+}
+
+/**
+ * Turns a commit message into a sentence for a PR description:
+ * "feat(auth): add OAuth support" → "Adds OAuth support"
+ */
+export function describeCommit(commit: CommitInfo, language: Language): string {
+  const parsed = parseCommitMessage(commit.message, commit.body);
+  const suffix = parsed.breaking ? BREAKING_SUFFIX[language] : "";
+
+  // Unknown types ("fixture: ...") are not conventional prefixes, keep the whole header
+  if (!parsed.type || !CONVENTIONAL_TYPES.includes(parsed.type)) {
+    return (conjugateLeadingVerb(parsed.header, language) ?? parsed.header) + suffix;
+  }
+
+  const label = TYPE_LABELS[language][parsed.type];
+  if (label) {
+    return `${label}: ${parsed.subject}${suffix}`;
+  }
+
+  const conjugated = conjugateLeadingVerb(parsed.subject, language);
+  if (conjugated) {
+    return conjugated + suffix;
+  }
+
+  const typeVerb = TYPE_VERBS[language][parsed.type];
+  return `${typeVerb} ${parsed.subject}${suffix}`;
+}
@@ -0,0 +1,72 @@
+/**
+ * Generated content in PR bodies is wrapped in marker comments, so that updating a PR only
+ * replaces what was generated and keeps what authors and reviewers wrote around it:
+ *
+ * <!-- pr-mcp:start description -->
+ * ...
+ * <!-- pr-mcp:end description -->
+ */
+
+const SECTION = /<!-- pr-mcp:start ([\w-]+) -->\n?([\s\S]*?)\n?<!-- pr-mcp:end \1 -->/g;
+
+// The title as generated, to tell whether it was edited by hand since
+const TITLE_MARKER = /<!-- pr-mcp:title (\S*) -->\n?/g;
+
+/**
+ * Wraps generated content in start/end markers
+ */
+export function generatedSection(name: string, content: string): string {
+  return `<!-- pr-mcp:start ${name} -->\n${content.trim()}\n<!-- pr-mcp:end ${name} -->`;
+}
+
+/**
+ * Hidden comment recording the generated title
+ */
+export function titleMarker(title: string): string {
+  return `<!-- pr-mcp:title ${encodeURIComponent(title)} -->`;
+}
+
+/**
+ * Title recorded by titleMarker, if the body has one
+ */
+export function generatedTitle(body: string | undefined): string | undefined {
+  const [match] = [...(body ?? "").matchAll(TITLE_MARKER)];
+  if (!match) return undefined;
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a PR title differs from the one generated for it. Titles of PRs without a title marker
+ * weren't generated here, and count as edited.
+ */
+export function isTitleEdited(title: string, body: string | undefined): boolean {
+  const generated = generatedTitle(body);
+  return generated === undefined || generated.trim() !== title.trim();
+}
+
+/**
+ * Body of an existing PR with its generated sections replaced by those of generatedBody:
+ * - text outside the markers is kept as is
+ * - sections generatedBody no longer has are removed, new ones are appended
+ * - a body without markers (written by hand) is kept, with the generated sections appended
+ */
+export function mergeGeneratedSections(existingBody: string | undefined, generatedBody: string): string {
+  const sections = new Map([...generatedBody.matchAll(SECTION)].map((match) => [match[1], match[0]]));
+  const marker = [...generatedBody.matchAll(TITLE_MARKER)][0]?.[0].trim();
+
+  // Removed sections take the blank lines after them along
+  const merged = (existingBody ?? "")
+    .replace(TITLE_MARKER, "")
+    .replace(new RegExp(`${SECTION.source}(\\n*)`, "g"), (_, name: string, _content: string, spacing: string) => {
+      const section = sections.get(name);
+      sections.delete(name);
+      return section ? `${section}${spacing}` : "";
+    })
+    .trim();
+
+  return [merged, ...sections.values(), marker].filter(Boolean).join("\n\n");
+}
@@ -1,6 +1,23 @@
 import { CommitInfo, FileChange } from "../core/git/types.js";
-import { TemplateData, PRTemplates } from "../validation/types.js";
+import { TemplateData, PRTemplates, Language } from "../validation/types.js";
 import { selectGif } from "./gif-selector.js";
+import { describeCommit } from "./commit-descriptions.js";
+
+/**
+ * "Related issues" section listing the issues and tickets found in the branch name and commits
+ */
+function relatedIssuesSection(data: TemplateData, language: Language): string {
+  const references = data.issueReferences ?? [];
+  if (references.length === 0) {
+    return "";
+  }
+
+  const heading = language === "fr" ? "**Issues liées :**" : "**Related issues:**";
+  const closedNote = language === "fr" ? " (fermée par cette PR)" : " (closed by this PR)";
+  const items = references.map((r) => `- ${r.id}${r.closing ? closedNote : ""}`);
+
+  return `\n\n${heading}\n\n${items.join("\n")}`;
+}
 
 export const prTemplates: PRTemplates = {
   standard: {
@@ -11,31 +28,14 @@ export const prTemplates: PRTemplates = {
 ${data.commits
   .map((c: CommitInfo) => {
     // Convertir le message de commit en bullet point descriptif
-    let message = c.message;
-    
-    // Remplacer les préfixes de commit conventionnels par des descriptions plus naturelles
-    message = message.replace(/^feat(\(.+\))?:?\s*/i, 'Ajoute ');
-    message = message.replace(/^add(\(.+\))?:?\s*/i, 'Ajoute ');
-    message = message.replace(/^fix(\(.+\))?:?\s*/i, 'Corrige ');
-    message = message.replace(/^update(\(.+\))?:?\s*/i, 'Met à jour ');
-    message = message.replace(/^refactor(\(.+\))?:?\s*/i, 'Refactorise ');
-    message = message.replace(/^remove(\(.+\))?:?\s*/i, 'Supprime ');
-    message = message.replace(/^delete(\(.+\))?:?\s*/i, 'Supprime ');
-    message = message.replace(/^implement(\(.+\))?:?\s*/i, 'Implémente ');
-    message = message.replace(/^improve(\(.+\))?:?\s*/i, 'Améliore ');
-    message = message.replace(/^enhance(\(.+\))?:?\s*/i, 'Améliore ');
-    message = message.replace(/^optimize(\(.+\))?:?\s*/i, 'Optimise ');
-    message = message.replace(/^style(\(.+\))?:?\s*/i, 'Met à jour le style de ');
-    message = message.replace(/^chore(\(.+\))?:?\s*/i, 'Maintenance: ');
-    message = message.replace(/^docs(\(.+\))?:?\s*/i, 'Documentation: ');
-    message = message.replace(/^test(\(.+\))?:?\s*/i, 'Tests: ');
+    let message = describeCommit(c, 'fr');
     
     // Capitaliser la première lettre
     message = message.charAt(0).toLowerCase() + message.slice(1);
     
     return `- ${message}`;
   })
-  .join('\n') || `- Cette PR contient ${data.totalCommits} commits avec ${data.filesChanged} fichiers modifiés.`}
+  .join('\n') || `- Cette PR contient ${data.totalCommits} commits avec ${data.filesChanged} fichiers modifiés.`}${relatedIssuesSection(data, 'fr')}
 
 **Étapes nécessaires pour la tester ?**
 
@@ -207,31 +207,14 @@ ${(() => {
 ${data.commits
   .map((c: CommitInfo) => {
     // Convert commit message to descriptive bullet point
-    let message = c.message;
-    
-    // Replace conventional commit prefixes with more natural descriptions
-    message = message.replace(/^feat(\(.+\))?:?\s*/i, 'Adds ');
-    message = message.replace(/^add(\(.+\))?:?\s*/i, 'Adds ');
-    message = message.replace(/^fix(\(.+\))?:?\s*/i, 'Fixes ');
-    message = message.replace(/^update(\(.+\))?:?\s*/i, 'Updates ');
-    message = message.replace(/^refactor(\(.+\))?:?\s*/i, 'Refactors ');
-    message = message.replace(/^remove(\(.+\))?:?\s*/i, 'Removes ');
-    message = message.replace(/^delete(\(.+\))?:?\s*/i, 'Removes ');
-    message = message.replace(/^implement(\(.+\))?:?\s*/i, 'Implements ');
-    message = message.replace(/^improve(\(.+\))?:?\s*/i, 'Improves ');
-    message = message.replace(/^enhance(\(.+\))?:?\s*/i, 'Enhances ');
-    message = message.replace(/^optimize(\(.+\))?:?\s*/i, 'Optimizes ');
-    message = message.replace(/^style(\(.+\))?:?\s*/i, 'Updates styling for ');
-    message = message.replace(/^chore(\(.+\))?:?\s*/i, 'Maintenance: ');
-    message = message.replace(/^docs(\(.+\))?:?\s*/i, 'Documentation: ');
-    message = message.replace(/^test(\(.+\))?:?\s*/i, 'Tests: ');
+    let message = describeCommit(c, 'en');
     
     // Capitalize first letter
     message = message.charAt(0).toLowerCase() + message.slice(1);
     
     return `- ${message}`;
   })
-  .join('\n') || `- This PR contains ${data.totalCommits} commits with ${data.filesChanged} modified files.`}
+  .join('\n') || `- This PR contains ${data.totalCommits} commits with ${data.filesChanged} modified files.`}${relatedIssuesSection(data, 'en')}
 
 **Any steps needed to test it?**
 
@@ -281,7 +264,7 @@ ${(() => {
 
 ## ${data.title || data.currentBranch}
 
-${data.commits.map((c: CommitInfo) => `- ${c.message}`).join("\n")}
+${data.commits.map((c: CommitInfo) => `- ${c.message}`).join("\n")}${relatedIssuesSection(data, 'fr')}
 
 **Impact:** ${data.filesChanged} files | +${data.insertions} -${
       data.deletions
@@ -290,7 +273,7 @@ ${data.commits.map((c: CommitInfo) => `- ${c.message}`).join("\n")}
 
 ## ${data.title || data.currentBranch}
 
-${data.commits.map((c: CommitInfo) => `- ${c.message}`).join("\n")}
+${data.commits.map((c: CommitInfo) => `- ${c.message}`).join("\n")}${relatedIssuesSection(data, 'en')}
 
 **Impact:** ${data.filesChanged} files | +${data.insertions} -${
       data.deletions
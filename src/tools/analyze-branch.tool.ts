@@ -1,13 +1,17 @@
 import { analyzeBranch } from "../core/git/analyzer.js";
-import { AnalysisResult } from "../core/git/types.js";
+import { AnalysisResult, AnalysisScope } from "../core/git/types.js";
 
 /**
  * Tool: analyze_branch
- * Analyzes the differences between the current Git branch and a base branch
+ * Analyzes the differences between the current Git branch and a base branch,
+ * or the staged/working-tree changes or an explicit range. The hunks of the diff are left out
+ * (get_diff returns them), as they would flood the result.
  */
 export async function executeAnalyzeBranch(
   baseBranch?: string,
-  detailed: boolean = true
-): Promise<AnalysisResult> {
-  return analyzeBranch(baseBranch, detailed);
+  detailed: boolean = true,
+  scope?: AnalysisScope
+): Promise<Omit<AnalysisResult, "diffFiles">> {
+  const { diffFiles: _diffFiles, ...analysis } = await analyzeBranch(baseBranch, detailed, scope);
+  return analysis;
 }
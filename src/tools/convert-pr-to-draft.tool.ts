@@ -0,0 +1,27 @@
+import { createPullRequestTarget, findTargetPullRequest, TargetPullRequestOptions } from "../core/providers/provider.js";
+import { DraftStateResult } from "./mark-pr-ready.tool.js";
+
+/**
+ * Tool: convert_pr_to_draft
+ * Converts an open pull/merge request (the one of the current branch by default) back to a draft:
+ * through GraphQL on GitHub, by prefixing the title on GitLab ("Draft: ") and Gitea ("WIP: ").
+ */
+export async function executeConvertPRToDraft(
+  number?: number,
+  githubToken?: string,
+  options: TargetPullRequestOptions = {}
+): Promise<DraftStateResult> {
+  try {
+    const target = await createPullRequestTarget(process.cwd(), githubToken, options);
+    const pr = await findTargetPullRequest(target, number, options.baseBranch);
+    if (pr.state !== "open") {
+      throw new Error(`PR #${pr.number} is ${pr.state}`);
+    }
+
+    const updated = pr.draft ? pr : await target.provider.setDraft(pr.number, true);
+    return { number: pr.number, url: pr.url, title: updated.title, draft: !!updated.draft, changed: !pr.draft };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Error converting PR to draft: ${errorMessage}`);
+  }
+}
@@ -1,13 +1,24 @@
-import { Octokit } from "@octokit/rest";
-import { createGitInstance, getGitHubRepoInfo, detectMainBranch } from "../core/git/repository.js";
+import { createGitInstance, detectMainBranch } from "../core/git/repository.js";
 import { executeGenerateTitleSimple } from "./generate-pr-title.tool.js";
 import { executeSuggestReviewers } from "./suggest-reviewers.tool.js";
 import { Language, TemplateType } from "../validation/types.js";
 import { analyzeBranch } from "../core/git/analyzer.js";
+import { resolveBranchName } from "../core/git/comparison.js";
 import { prTemplates } from "../templates/pr-templates.js";
-import { CommitInfo } from "../core/git/types.js";
+import { AnalysisScope, AssignmentResult, CommitInfo, LabelResult, PushResult, ReviewerRequestResult, ReviewerSuggestion } from "../core/git/types.js";
 import { gatherProjectContext } from "../core/context/project-context.js";
 import { selectGif } from "../templates/gif-selector.js";
+import { describeCommit } from "../templates/commit-descriptions.js";
+import { appendClosingKeywords, prefixTitleWithTicket, primaryTicketKey } from "../core/git/issue-references.js";
+import { planReviewerRequests, reviewerRequests } from "../core/git/reviewer-requests.js";
+import { createPullRequestTarget } from "../core/providers/provider.js";
+import { pushBranch } from "../core/git/push.js";
+import { applyLabels, inferLabels } from "../core/git/labels.js";
+import { applyAssignment, resolveAssignment } from "../core/git/assignment.js";
+import { AutoMergeResult, enableAutoMerge } from "../core/git/merge.js";
+import { loadRepoConfig } from "../core/context/repo-config.js";
+import { generatedSection, isTitleEdited, mergeGeneratedSections, titleMarker } from "../templates/generated-sections.js";
+import { CreatePROptions, CreatePRPlan } from "./create-pr.tool.js";
 
 export interface CreatePRCompleteResult {
   url: string;
@@ -15,9 +26,20 @@ export interface CreatePRCompleteResult {
   title: string;
   state: string;
   action: 'created' | 'reopened' | 'updated';
+  draft?: boolean;
   reviewers?: string[];
+  teamReviewers?: string[];
   reviewersAdded?: number;
+  reviewerResults?: ReviewerRequestResult[];
   reviewerNote?: string;
+  // What the push option pushed
+  push?: PushResult;
+  // Labels added to the PR, and the outcome per inferred label
+  labels?: string[];
+  labelResults?: LabelResult[];
+  // Assignees and milestone of the PR
+  assignment?: AssignmentResult;
+  autoMerge?: AutoMergeResult;
   reviewPerformed: boolean;
 }
 
@@ -42,8 +64,10 @@ export interface CreatePRCompleteResult {
  * 4. Prepares the description
  * 5. Adds AI review section
  * 6. Adds relevant GIF at the end (after review)
- * 7. Creates/updates the PR on GitHub
- * 8. Assigns appropriate reviewers automatically
+ * 7. Suggests reviewers (CODEOWNERS teams included)
+ * 8. Creates/updates the PR on GitHub, GitLab or Gitea and requests explicit and suggested reviewers/teams
+ *
+ * With dryRun, stops before step 8 and returns what it would do.
  */
 export async function executeCreatePRComplete(
   template: TemplateType = "standard",
@@ -51,47 +75,53 @@ export async function executeCreatePRComplete(
   includeStats: boolean = true,
   maxTitleLength?: number,
   baseBranch?: string,
-  draft: boolean = false,
+  draft?: boolean,
   githubToken?: string,
   addReviewers: boolean = true,
   maxReviewers: number = 3,
   includeAIReview: boolean = false,
   aiReviewText?: string,
   title?: string,
-  description?: string
-): Promise<CreatePRCompleteResult> {
+  description?: string,
+  options: CreatePROptions = {}
+): Promise<CreatePRCompleteResult | CreatePRPlan> {
   try {
     console.error("=== UNIFIED PR CREATION WORKFLOW STARTING ===");
 
-    // Get GitHub token
-    const token = githubToken || process.env.GITHUB_TOKEN;
-    if (!token) {
-      throw new Error(
-        "GitHub token is required. Set GITHUB_TOKEN environment variable or pass it as parameter."
-      );
-    }
-
-    // Get repository info
+    // Hosting service of the base remote, upstream for forks (the token defaults to GITHUB_TOKEN, GITLAB_TOKEN or GITEA_TOKEN)
     const workingDir = process.cwd();
-    const repoInfo = await getGitHubRepoInfo(workingDir);
+    const { provider, remotes, headRepository } = await createPullRequestTarget(workingDir, githubToken, options);
 
-    // Get current branch and base branch
+    // Get head and base branches (explicit refs win over the checked out branch)
+    // Remote branches (origin/feature) are analyzed as given, the PR uses their name without the remote
     const workingGit = createGitInstance(workingDir);
-    const currentBranch = (await workingGit.revparse(["--abbrev-ref", "HEAD"])).trim();
-    const detectedBaseBranch = baseBranch || await detectMainBranch(workingDir);
+    const currentBranch = options.toRef
+      ? await resolveBranchName(workingGit, options.toRef)
+      : (await workingGit.revparse(["--abbrev-ref", "HEAD"])).trim();
+    const detectedBaseBranch = options.fromRef
+      ? await resolveBranchName(workingGit, options.fromRef)
+      : baseBranch || await detectMainBranch(workingDir);
+    const analysisScope: AnalysisScope = { fromRef: options.fromRef || detectedBaseBranch, toRef: options.toRef || currentBranch };
+    // A local branch of the same name may hold other commits than the remote one
+    if (options.push && options.toRef && options.toRef !== currentBranch) {
+      throw new Error(`push needs a local branch, "${options.toRef}" is a remote branch. Check out "${currentBranch}" or push it yourself.`);
+    }
 
     console.error(`📊 Branch: ${currentBranch} -> ${detectedBaseBranch}`);
 
     // STEP 1: Analyze changes & gather context
     console.error("🔍 STEP 1: Analyzing changes and gathering project context...");
-    const analysis = await analyzeBranch(detectedBaseBranch, true);
+    const analysis = await analyzeBranch(detectedBaseBranch, true, analysisScope);
     const projectContext = await gatherProjectContext();
     console.error(`   ✓ Found ${analysis.totalCommits} commits, ${analysis.filesChanged} files changed`);
     console.error(`   ✓ Project context: ${projectContext.hasTypeScript ? 'TypeScript' : 'JavaScript'}${projectContext.testingFramework ? `, ${projectContext.testingFramework}` : ''}${projectContext.stylingApproach ? `, ${projectContext.stylingApproach}` : ''}`);
 
     // STEP 2: Generate PR title if not provided
     console.error("📝 STEP 2: Generating PR title...");
-    const finalTitle = title || await executeGenerateTitleSimple(maxTitleLength, detectedBaseBranch);
+    const issueReferences = analysis.issueReferences ?? [];
+    const finalTitle = title
+      ? prefixTitleWithTicket(title, options.ticketPrefix ? primaryTicketKey(issueReferences) : undefined)
+      : await executeGenerateTitleSimple(maxTitleLength, detectedBaseBranch, analysisScope, options.ticketPrefix);
     console.error(`   ✓ Title: ${finalTitle}`);
 
     // STEP 3: Add AI review if provided
@@ -123,30 +153,8 @@ export async function executeCreatePRComplete(
       // Build enhanced description with commits in descriptive format
       const commitsList = analysis.commits
         .map((c: CommitInfo) => {
-          let message = c.message;
-
           // Transform commit messages to be more descriptive
-          if (language === "fr") {
-            message = message.replace(/^feat(\(.+\))?:?\s*/i, 'Ajoute ');
-            message = message.replace(/^add(\(.+\))?:?\s*/i, 'Ajoute ');
-            message = message.replace(/^fix(\(.+\))?:?\s*/i, 'Corrige ');
-            message = message.replace(/^update(\(.+\))?:?\s*/i, 'Met à jour ');
-            message = message.replace(/^refactor(\(.+\))?:?\s*/i, 'Refactorise ');
-            message = message.replace(/^remove(\(.+\))?:?\s*/i, 'Supprime ');
-            message = message.replace(/^implement(\(.+\))?:?\s*/i, 'Implémente ');
-            message = message.replace(/^improve(\(.+\))?:?\s*/i, 'Améliore ');
-            message = message.replace(/^enhance(\(.+\))?:?\s*/i, 'Améliore ');
-          } else {
-            message = message.replace(/^feat(\(.+\))?:?\s*/i, 'Adds ');
-            message = message.replace(/^add(\(.+\))?:?\s*/i, 'Adds ');
-            message = message.replace(/^fix(\(.+\))?:?\s*/i, 'Fixes ');
-            message = message.replace(/^update(\(.+\))?:?\s*/i, 'Updates ');
-            message = message.replace(/^refactor(\(.+\))?:?\s*/i, 'Refactors ');
-            message = message.replace(/^remove(\(.+\))?:?\s*/i, 'Removes ');
-            message = message.replace(/^implement(\(.+\))?:?\s*/i, 'Implements ');
-            message = message.replace(/^improve(\(.+\))?:?\s*/i, 'Improves ');
-            message = message.replace(/^enhance(\(.+\))?:?\s*/i, 'Enhances ');
-          }
+          let message = describeCommit(c, language);
 
           // Lowercase first letter to make it flow better
           message = message.charAt(0).toLowerCase() + message.slice(1);
@@ -172,176 +180,198 @@ export async function executeCreatePRComplete(
     const gifRegex = /!\[.*?\]\(.*?giphy\.com.*?\)/g;
     finalDescription = finalDescription.replace(gifRegex, '').trim();
 
+    // Make sure the PR closes the issues the commits say it fixes
+    // (each part is a generated section, replaced on updates, see generated-sections.ts)
+    finalDescription = generatedSection("description", appendClosingKeywords(finalDescription, issueReferences));
+
     // STEP 5: Add AI review section (if provided)
     if (reviewSection) {
-      finalDescription += reviewSection;
+      finalDescription += `\n\n${generatedSection("review", reviewSection)}`;
       console.error(`   ✓ Review section added`);
     }
 
     // STEP 6: Generate and add GIF at the very end (after review)
     console.error("🎬 STEP 6: Adding GIF...");
     const gifUrl = await selectGif(analysis);
-    finalDescription += `\n\n![PR GIF](${gifUrl})`;
+    finalDescription += `\n\n${generatedSection("gif", `![PR GIF](${gifUrl})`)}\n\n${titleMarker(finalTitle)}`;
     console.error(`   ✓ GIF added at the end`);
 
     console.error(`   ✓ Final description ready (${finalDescription.split('\n').length} lines)`);
 
-    // Verify branch exists on remote
-    const octokit = new Octokit({ auth: token });
+    // Push the branch first when asked (overwriting remote commits only with forcePush)
+    let push: PushResult | undefined;
+    if (options.push) {
+      push = await pushBranch(workingGit, remotes.head, currentBranch, { force: options.forcePush, dryRun: options.dryRun });
+      console.error(`   ✓ Push to ${push.remote}/${push.branch}: ${push.action} (${push.commits} commit(s))`);
+    }
 
-    try {
-      await octokit.rest.repos.getBranch({
-        owner: repoInfo.owner,
-        repo: repoInfo.repo,
-        branch: currentBranch,
-      });
-    } catch (error: unknown) {
-      const errorStatus = error && typeof error === 'object' && 'status' in error ? error.status : null;
-      if (errorStatus === 404) {
-        throw new Error(
-          `Branch "${currentBranch}" does not exist on remote. Please push your branch first:\n` +
-          `  git push -u origin ${currentBranch}`
-        );
-      }
-      throw error;
+    // Verify branch exists on remote (a dry run's push would create it)
+    if (push?.action !== 'created' && !(await provider.branchExists(currentBranch, headRepository))) {
+      throw new Error(
+        `Branch "${currentBranch}" does not exist on remote '${remotes.head}'. Please push your branch first (or set push):\n` +
+        `  git push -u ${remotes.head} ${currentBranch}`
+      );
     }
 
-    // STEP 7: Create or update PR on GitHub
-    console.error("🚀 STEP 7: Creating/updating PR on GitHub...");
+    // Check if a PR already exists for this branch (merged ones can't be reopened)
+    const existingPR = await provider.findPullRequest(currentBranch, detectedBaseBranch, headRepository);
+    const reusedPR = existingPR && existingPR.state !== 'merged' ? existingPR : undefined;
+
+    // Updates only replace the generated sections of the body, and keep hand-edited titles when asked
+    const body = reusedPR ? mergeGeneratedSections(reusedPR.body, finalDescription) : finalDescription;
+    const keepTitle = !!reusedPR && !!options.keepEditedTitle && isTitleEdited(reusedPR.title, reusedPR.body);
+
+    // STEP 7: Suggest reviewers
+    let suggestions: ReviewerSuggestion[] = [];
+    let reviewerNote: string | undefined;
+
+    if (addReviewers) {
+      console.error("👥 STEP 7: Suggesting reviewers based on CODEOWNERS and Git history...");
+      try {
+        const reviewersResult = await executeSuggestReviewers(maxReviewers, detectedBaseBranch, analysisScope, {
+          githubToken: provider.name === 'github' ? githubToken : undefined,
+          balanceLoad: options.balanceReviewers,
+          // The repository the PR targets, upstream for forks
+          repository: provider.name === 'github' ? provider.repository : undefined,
+        });
+        suggestions = reviewersResult.suggestedReviewers;
+
+        if (reviewersResult.error) {
+          reviewerNote = `${reviewersResult.basedOn}: ${reviewersResult.error}`;
+          console.error(`   ⚠️  Could not suggest reviewers: ${reviewerNote}`);
+        } else if (suggestions.length === 0) {
+          reviewerNote = `${reviewersResult.basedOn}. No reviewers could be suggested.`;
+          console.error(`   ⚠️  ${reviewerNote}`);
+        }
+      } catch (error) {
+        reviewerNote = `Unexpected error: ${error instanceof Error ? error.message : String(error)}`;
+        console.error(`   ⚠️  ${reviewerNote}`);
+      }
+    } else {
+      console.error("⏭️  STEP 7: Skipping reviewer suggestions (disabled)");
+    }
+    const requests = reviewerRequests(options, suggestions);
+
+    // Labels from the PR type and scopes, touched paths, size and breaking changes
+    const labels = options.addLabels === false ? [] : inferLabels(analysis, (await loadRepoConfig(workingDir)).labels);
+    const labelOptions = { createMissing: options.createMissingLabels };
+
+    // Assignees ("self" included) and the milestone given, due next or of a linked issue
+    const assignment = await resolveAssignment(provider, options, issueReferences);
+
+    if (options.dryRun) {
+      const action = reusedPR ? (reusedPR.state === 'closed' ? 'reopen' : 'update') : 'create';
+      console.error(`=== DRY RUN: would ${action} a PR on ${provider.label}, nothing was written ===`);
+      return {
+        dryRun: true,
+        action,
+        number: reusedPR?.number,
+        url: reusedPR?.url,
+        repository: `${provider.repository.owner}/${provider.repository.repo}`,
+        head: headRepository.owner === provider.repository.owner ? currentBranch : `${headRepository.owner}:${currentBranch}`,
+        base: detectedBaseBranch,
+        title: keepTitle && reusedPR ? reusedPR.title : finalTitle,
+        body,
+        draft: reusedPR ? (draft !== undefined && draft !== !!reusedPR.draft ? draft : undefined) : !!draft,
+        push,
+        reviewerResults: await planReviewerRequests(requests, await provider.currentUser(), provider.supportsTeamReviewers),
+        reviewerNote,
+        labelResults: await applyLabels(provider, reusedPR?.number, labels, { ...labelOptions, dryRun: true }),
+        assignment: await applyAssignment(provider, reusedPR?.number, assignment, { dryRun: true }),
+        autoMerge: options.autoMerge ? options.mergeMethod ?? 'squash' : undefined,
+      };
+    }
 
-    // Check if a PR already exists for this branch
-    const { data: existingPRs } = await octokit.rest.pulls.list({
-      owner: repoInfo.owner,
-      repo: repoInfo.repo,
-      head: `${repoInfo.owner}:${currentBranch}`,
-      base: detectedBaseBranch,
-      state: 'all',
-    });
+    // STEP 8: Create or update PR, then request reviewers
+    console.error(`🚀 STEP 8: Creating/updating PR on ${provider.label}...`);
 
     let pr;
     let action: 'created' | 'reopened' | 'updated';
 
-    if (existingPRs.length > 0) {
-      const existingPR = existingPRs[0];
-
-      if (existingPR.state === 'closed') {
-        console.error(`   ℹ️  Reopening closed PR #${existingPR.number}`);
-        const { data: reopenedPR } = await octokit.rest.pulls.update({
-          owner: repoInfo.owner,
-          repo: repoInfo.repo,
-          pull_number: existingPR.number,
-          title: finalTitle,
-          body: finalDescription,
-          state: 'open',
-        });
-        pr = reopenedPR;
+    if (reusedPR) {
+      if (reusedPR.state === 'closed') {
+        console.error(`   ℹ️  Reopening closed PR #${reusedPR.number}`);
         action = 'reopened';
       } else {
-        console.error(`   ℹ️  Updating existing PR #${existingPR.number}`);
-        const { data: updatedPR } = await octokit.rest.pulls.update({
-          owner: repoInfo.owner,
-          repo: repoInfo.repo,
-          pull_number: existingPR.number,
-          title: finalTitle,
-          body: finalDescription,
-        });
-        pr = updatedPR;
+        console.error(`   ℹ️  Updating existing PR #${reusedPR.number}`);
         action = 'updated';
       }
+      if (keepTitle) {
+        console.error(`   ℹ️  Keeping the title edited by hand: ${reusedPR.title}`);
+      }
+      pr = await provider.updatePullRequest(reusedPR.number, {
+        title: keepTitle ? undefined : finalTitle,
+        body,
+        state: reusedPR.state === 'closed' ? 'open' : undefined,
+      });
+      if (draft !== undefined && draft !== !!pr.draft) {
+        console.error(`   ℹ️  ${draft ? 'Converting to draft' : 'Marking as ready for review'}`);
+        pr = await provider.setDraft(pr.number, draft);
+      }
     } else {
       console.error(`   ℹ️  Creating new PR`);
-      const { data: newPR } = await octokit.rest.pulls.create({
-        owner: repoInfo.owner,
-        repo: repoInfo.repo,
+      pr = await provider.createPullRequest({
         title: finalTitle,
-        body: finalDescription,
+        body,
         head: currentBranch,
         base: detectedBaseBranch,
         draft,
+        headRepository,
       });
-      pr = newPR;
       action = 'created';
     }
 
     console.error(`   ✓ PR ${action}: #${pr.number}`);
 
-    // STEP 8: Assign reviewers automatically
-    let reviewersAdded: string[] = [];
-    let reviewerError: string | undefined;
-
-    if (addReviewers) {
-      console.error("👥 STEP 8: Assigning reviewers based on Git history...");
+    let reviewerResults: ReviewerRequestResult[] = [];
+    if (requests.length > 0) {
       try {
-        const reviewersResult = await executeSuggestReviewers(maxReviewers, detectedBaseBranch);
-
-        if (reviewersResult.error) {
-          reviewerError = `${reviewersResult.basedOn}: ${reviewersResult.error}`;
-          console.error(`   ⚠️  Could not add reviewers: ${reviewerError}`);
-        } else if (reviewersResult.suggestedReviewers.length === 0) {
-          reviewerError = `${reviewersResult.basedOn}. No reviewers could be suggested.`;
-          console.error(`   ⚠️  ${reviewerError}`);
-        } else {
-          // Filter out the PR author from reviewers
-          const currentUser = (await octokit.rest.users.getAuthenticated()).data.login;
-          const allSuggested = reviewersResult.suggestedReviewers.map(r => r.author);
-          const reviewerLogins = allSuggested.filter(
-            author => author.toLowerCase() !== currentUser.toLowerCase()
-          );
-
-          if (reviewerLogins.length === 0) {
-            reviewerError = `${reviewersResult.basedOn}. All suggested reviewers filtered out (you are the only contributor)`;
-            console.error(`   ⚠️  ${reviewerError}`);
-          } else {
-            try {
-              const response = await octokit.rest.pulls.requestReviewers({
-                owner: repoInfo.owner,
-                repo: repoInfo.repo,
-                pull_number: pr.number,
-                reviewers: reviewerLogins,
-              });
-
-              const actuallyAdded = response.data.requested_reviewers?.map(r => r.login) || [];
-
-              if (actuallyAdded.length === 0) {
-                reviewerError = `${reviewersResult.basedOn}. Attempted to add: ${reviewerLogins.join(', ')} - but GitHub couldn't add them.`;
-                console.error(`   ⚠️  ${reviewerError}`);
-              } else if (actuallyAdded.length < reviewerLogins.length) {
-                const notAdded = reviewerLogins.filter(r => !actuallyAdded.includes(r));
-                reviewersAdded = actuallyAdded;
-                reviewerError = `Partially successful: Added ${actuallyAdded.join(', ')} but couldn't add ${notAdded.join(', ')}`;
-                console.error(`   ⚠️  ${reviewerError}`);
-                console.error(`   ✓ Added ${reviewersAdded.length} reviewer(s): ${reviewersAdded.join(', ')}`);
-              } else {
-                reviewersAdded = actuallyAdded;
-                console.error(`   ✓ Added ${reviewersAdded.length} reviewer(s): ${reviewersAdded.join(', ')}`);
-              }
-            } catch (githubError: unknown) {
-              const errorMsg = githubError instanceof Error ? githubError.message : String(githubError);
-              reviewerError = `${reviewersResult.basedOn}. GitHub API error: ${errorMsg}`;
-              console.error(`   ⚠️  ${reviewerError}`);
-            }
-          }
+        reviewerResults = await provider.requestReviewers(pr.number, requests);
+        for (const result of reviewerResults) {
+          console.error(result.status === 'requested'
+            ? `   ✓ Requested ${result.team ? 'team ' : ''}${result.reviewer}`
+            : `   ⚠️  ${result.reviewer} ${result.status}: ${result.reason}`);
         }
       } catch (error) {
-        reviewerError = `Unexpected error: ${error instanceof Error ? error.message : String(error)}`;
-        console.error(`   ⚠️  ${reviewerError}`);
+        reviewerNote = `Unexpected error: ${error instanceof Error ? error.message : String(error)}`;
+        console.error(`   ⚠️  ${reviewerNote}`);
       }
-    } else {
-      console.error("⏭️  STEP 8: Skipping reviewer assignment (disabled)");
     }
 
+    const labelResults = await applyLabels(provider, pr.number, labels, labelOptions);
+    const assignmentResult = await applyAssignment(provider, pr.number, assignment);
+    const autoMerge = options.autoMerge ? await enableAutoMerge(provider, pr.number, options.mergeMethod ?? 'squash') : undefined;
+    if (autoMerge) {
+      console.error(autoMerge.status === 'enabled'
+        ? `   ✓ Auto-merge enabled (${autoMerge.method})`
+        : `   ⚠️  Could not enable auto-merge: ${autoMerge.note}`);
+    }
+    const appliedLabels = labelResults.filter(r => r.status === 'applied' || r.status === 'created').map(r => r.label);
+
+    const requested = reviewerResults.filter(r => r.status === 'requested');
+    const reviewers = requested.filter(r => !r.team).map(r => r.reviewer);
+    const teamReviewers = requested.filter(r => r.team).map(r => r.reviewer);
+
     console.error("=== WORKFLOW COMPLETE ===");
-    console.error(`✨ PR: ${pr.html_url}`);
+    console.error(`✨ PR: ${pr.url}`);
 
     return {
-      url: pr.html_url,
+      url: pr.url,
       number: pr.number,
       title: pr.title,
       state: pr.state,
       action,
-      reviewers: reviewersAdded.length > 0 ? reviewersAdded : undefined,
-      reviewersAdded: reviewersAdded.length,
-      reviewerNote: reviewerError || (reviewersAdded.length > 0 ? undefined : "No reviewers were automatically added"),
+      draft: pr.draft,
+      push,
+      reviewers: reviewers.length > 0 ? reviewers : undefined,
+      teamReviewers: teamReviewers.length > 0 ? teamReviewers : undefined,
+      reviewersAdded: requested.length,
+      reviewerResults: reviewerResults.length > 0 ? reviewerResults : undefined,
+      reviewerNote: reviewerNote || (requested.length > 0 ? undefined : "No reviewers were automatically added"),
+      labels: appliedLabels.length > 0 ? appliedLabels : undefined,
+      labelResults: labelResults.length > 0 ? labelResults : undefined,
+      assignment: assignmentResult,
+      autoMerge,
       reviewPerformed: includeAIReview,
     };
   } catch (error) {
@@ -1,9 +1,21 @@
-import { Octokit } from "@octokit/rest";
-import { createGitInstance, getGitHubRepoInfo, detectMainBranch } from "../core/git/repository.js";
+import { createGitInstance, detectMainBranch } from "../core/git/repository.js";
 import { executeGenerateTitleSimple } from "./generate-pr-title.tool.js";
 import { executeGeneratePRSimple } from "./generate-pr-description.tool.js";
 import { executeSuggestReviewers } from "./suggest-reviewers.tool.js";
 import { Language, TemplateType } from "../validation/types.js";
+import { AnalysisScope, AssignmentResult, LabelResult, PushResult, ReviewerRequestResult, ReviewerSuggestion } from "../core/git/types.js";
+import { analyzeBranch } from "../core/git/analyzer.js";
+import { resolveBranchName } from "../core/git/comparison.js";
+import { appendClosingKeywords, prefixTitleWithTicket, primaryTicketKey } from "../core/git/issue-references.js";
+import { planReviewerRequests, reviewerRequests } from "../core/git/reviewer-requests.js";
+import { createPullRequestTarget } from "../core/providers/provider.js";
+import { pushBranch } from "../core/git/push.js";
+import { applyLabels, inferLabels } from "../core/git/labels.js";
+import { applyAssignment, AssignmentOptions, resolveAssignment } from "../core/git/assignment.js";
+import { AutoMergeResult, enableAutoMerge } from "../core/git/merge.js";
+import { MergeMethod } from "../core/providers/types.js";
+import { loadRepoConfig } from "../core/context/repo-config.js";
+import { generatedSection, isTitleEdited, mergeGeneratedSections, titleMarker } from "../templates/generated-sections.js";
 
 export interface CreatePRResult {
   url: string;
@@ -11,14 +23,89 @@ export interface CreatePRResult {
   title: string;
   state: string;
   action: 'created' | 'reopened' | 'updated';
+  draft?: boolean;
   reviewers?: string[];
+  teamReviewers?: string[];
   reviewersAdded?: number;
+  // Outcome per reviewer and team
+  reviewerResults?: ReviewerRequestResult[];
+  // Why no reviewers could be suggested, when they couldn't
   reviewerNote?: string;
+  // What the push option pushed
+  push?: PushResult;
+  // Labels added to the PR, and the outcome per inferred label
+  labels?: string[];
+  labelResults?: LabelResult[];
+  // Assignees and milestone of the PR
+  assignment?: AssignmentResult;
+  autoMerge?: AutoMergeResult;
+}
+
+/**
+ * What create_pr and create_pr_complete would do, returned by dry runs instead of a result
+ */
+export interface CreatePRPlan {
+  dryRun: true;
+  action: 'create' | 'reopen' | 'update';
+  // The PR that would be reopened or updated
+  number?: number;
+  url?: string;
+  // Repository the PR would be opened on ("owner/repo")
+  repository: string;
+  // Branch, "owner:branch" from a fork
+  head: string;
+  base: string;
+  title: string;
+  body: string;
+  // Set for new PRs, and for existing ones whose draft state would change
+  draft?: boolean;
+  // What would be pushed
+  push?: PushResult;
+  // Outcome if every request went through: "requested" means would be requested
+  reviewerResults: ReviewerRequestResult[];
+  reviewerNote?: string;
+  // "applied" and "created" mean would be added (and created)
+  labelResults: LabelResult[];
+  assignment?: AssignmentResult;
+  // Merge method auto-merge would be enabled with
+  autoMerge?: MergeMethod;
+}
+
+/**
+ * Options shared by create_pr and create_pr_complete
+ */
+export interface CreatePROptions extends AssignmentOptions {
+  // Explicit comparison refs, see AnalysisScope
+  fromRef?: string;
+  toRef?: string;
+  // Prefix the title with the ticket key from the branch name or commits ("[PROJ-1234] ...")
+  ticketPrefix?: boolean;
+  // Favor reviewers with fewer open review requests, see SuggestReviewersOptions.balanceLoad
+  balanceReviewers?: boolean;
+  // Requested on top of the suggestions, even when addReviewers is off
+  reviewers?: string[];
+  teamReviewers?: string[];
+  // Remote the branch is pushed to (origin) and remote the PR is opened on (upstream when it exists)
+  headRemote?: string;
+  baseRemote?: string;
+  // Push the branch to the head remote first, see pushBranch
+  push?: boolean;
+  forcePush?: boolean;
+  // Perform every read and return a CreatePRPlan, without writing anything
+  dryRun?: boolean;
+  // Don't replace the title of an existing PR that was edited by hand
+  keepEditedTitle?: boolean;
+  // Add labels inferred by inferLabels (on unless false), creating those the repository doesn't have when asked
+  addLabels?: boolean;
+  createMissingLabels?: boolean;
+  // Merge the PR with mergeMethod (squash by default) once its requirements are met
+  autoMerge?: boolean;
+  mergeMethod?: MergeMethod;
 }
 
 /**
  * Tool: create_pr
- * Creates a Pull Request on GitHub.
+ * Creates a Pull Request on GitHub or Gitea, or a Merge Request on GitLab (on upstream for forks, origin otherwise).
  *
  * RECOMMENDED WORKFLOW FOR AI ASSISTANTS:
  * 1. Call 'generate_pr_title' tool to get an AI prompt
@@ -30,8 +117,11 @@ export interface CreatePRResult {
  * If title/description not provided, simple versions will be auto-generated.
  *
  * Smart handling: If a PR already exists for the branch (open or closed), it will be updated/reopened
- * instead of failing with a duplicate error.
- * Can automatically suggest and add reviewers based on Git history.
+ * instead of failing with a duplicate error. Updates only replace the generated sections of the description,
+ * keeping what was added around them, and draft, when given, marks them ready or converts them to drafts.
+ * With dryRun, returns what it would do without writing anything.
+ * Can automatically suggest and add reviewers based on Git history and CODEOWNERS (teams included),
+ * on top of explicit reviewers and teams, and reports the outcome per reviewer.
  */
 export async function executeCreatePR(
   template: TemplateType = "standard",
@@ -39,217 +129,203 @@ export async function executeCreatePR(
   includeStats: boolean = true,
   maxTitleLength?: number,
   baseBranch?: string,
-  draft: boolean = false,
+  draft?: boolean,
   githubToken?: string,
   addReviewers: boolean = true,
   maxReviewers: number = 3,
   title?: string,
-  description?: string
-): Promise<CreatePRResult> {
+  description?: string,
+  options: CreatePROptions = {}
+): Promise<CreatePRResult | CreatePRPlan> {
   try {
-    // Get GitHub token (supports both personal access tokens 'ghp_' and enterprise tokens 'github_pat_')
-    const token = githubToken || process.env.GITHUB_TOKEN;
-    if (!token) {
+    // Hosting service of the base remote, upstream for forks (the token defaults to GITHUB_TOKEN, GITLAB_TOKEN or GITEA_TOKEN)
+    const workingDir = process.cwd();
+    const { provider, remotes, headRepository } = await createPullRequestTarget(workingDir, githubToken, options);
+
+    // Get head and base branches (explicit refs win over the checked out branch)
+    // Remote branches (origin/feature) are analyzed as given, the PR uses their name without the remote
+    const workingGit = createGitInstance(workingDir);
+    const currentBranch = options.toRef
+      ? await resolveBranchName(workingGit, options.toRef)
+      : (await workingGit.revparse(["--abbrev-ref", "HEAD"])).trim();
+    const detectedBaseBranch = options.fromRef
+      ? await resolveBranchName(workingGit, options.fromRef)
+      : baseBranch || await detectMainBranch(workingDir);
+    const analysisScope: AnalysisScope = { fromRef: options.fromRef || detectedBaseBranch, toRef: options.toRef || currentBranch };
+    // A local branch of the same name may hold other commits than the remote one
+    if (options.push && options.toRef && options.toRef !== currentBranch) {
+      throw new Error(`push needs a local branch, "${options.toRef}" is a remote branch. Check out "${currentBranch}" or push it yourself.`);
+    }
+
+    // Push the branch first when asked (overwriting remote commits only with forcePush)
+    let push: PushResult | undefined;
+    if (options.push) {
+      push = await pushBranch(workingGit, remotes.head, currentBranch, { force: options.forcePush, dryRun: options.dryRun });
+    }
+
+    // Verify branch exists on remote (a dry run's push would create it)
+    if (push?.action !== 'created' && !(await provider.branchExists(currentBranch, headRepository))) {
       throw new Error(
-        "GitHub token is required. Set GITHUB_TOKEN environment variable or pass it as parameter. " +
-        "Supports both personal access tokens (ghp_...) and enterprise tokens (github_pat_...)."
+        `Branch "${currentBranch}" does not exist on remote '${remotes.head}'. Please push your branch first (or set push):\n` +
+        `  git push -u ${remotes.head} ${currentBranch}`
       );
     }
 
-    // Get repository info
-    const workingDir = process.cwd();
-    const repoInfo = await getGitHubRepoInfo(workingDir);
-    
-    // Get current branch and base branch
-    const workingGit = createGitInstance(workingDir);
-    const currentBranch = (await workingGit.revparse(["--abbrev-ref", "HEAD"])).trim();
-    const detectedBaseBranch = baseBranch || await detectMainBranch(workingDir);
+    // Commits and files of the PR, with the issues and tickets referenced by the branch name and commits
+    const analysis = await analyzeBranch(detectedBaseBranch, false, analysisScope);
+    const issueReferences = analysis.issueReferences ?? [];
 
-    // Verify branch exists on remote or push it
-    const octokit = new Octokit({ auth: token });
-    
-    try {
-      // Check if branch exists on remote
-      await octokit.rest.repos.getBranch({
-        owner: repoInfo.owner,
-        repo: repoInfo.repo,
-        branch: currentBranch,
-      });
-    } catch (error: unknown) {
-      // Branch doesn't exist on remote, need to push it
-      const errorStatus = error && typeof error === 'object' && 'status' in error ? error.status : null;
-      if (errorStatus === 404) {
-        throw new Error(
-          `Branch "${currentBranch}" does not exist on remote. Please push your branch first:\n` +
-          `  git push -u origin ${currentBranch}`
-        );
+    // Generate title if not provided (prefixed with the ticket key before it is shortened)
+    const finalTitle = title
+      ? prefixTitleWithTicket(title, options.ticketPrefix ? primaryTicketKey(issueReferences) : undefined)
+      : await executeGenerateTitleSimple(maxTitleLength, detectedBaseBranch, analysisScope, options.ticketPrefix);
+
+    // Generate description if not provided, then make sure it closes the issues it fixes
+    const finalDescription = appendClosingKeywords(
+      description || await executeGeneratePRSimple(
+        finalTitle,
+        template,
+        language,
+        includeStats,
+        detectedBaseBranch,
+        analysisScope
+      ),
+      issueReferences
+    );
+
+    // Check if a PR already exists for this branch (merged ones can't be reopened)
+    const existingPR = await provider.findPullRequest(currentBranch, detectedBaseBranch, headRepository);
+    const reusedPR = existingPR && existingPR.state !== 'merged' ? existingPR : undefined;
+
+    // Updates only replace the generated sections of the body, and keep hand-edited titles when asked
+    const generatedBody = `${generatedSection("description", finalDescription)}\n\n${titleMarker(finalTitle)}`;
+    const body = reusedPR ? mergeGeneratedSections(reusedPR.body, generatedBody) : generatedBody;
+    const keepTitle = !!reusedPR && !!options.keepEditedTitle && isTitleEdited(reusedPR.title, reusedPR.body);
+
+    // Explicit reviewers and teams, plus suggested ones if requested
+    let suggestions: ReviewerSuggestion[] = [];
+    let reviewerNote: string | undefined;
+
+    if (addReviewers) {
+      try {
+        const reviewersResult = await executeSuggestReviewers(maxReviewers, detectedBaseBranch, analysisScope, {
+          githubToken: provider.name === 'github' ? githubToken : undefined,
+          balanceLoad: options.balanceReviewers,
+          // The repository the PR targets, upstream for forks
+          repository: provider.name === 'github' ? provider.repository : undefined,
+        });
+        suggestions = reviewersResult.suggestedReviewers;
+
+        if (reviewersResult.error) {
+          reviewerNote = `${reviewersResult.basedOn}: ${reviewersResult.error}`;
+          console.warn(`Could not suggest reviewers: ${reviewerNote}`);
+        } else if (suggestions.length === 0) {
+          reviewerNote = `${reviewersResult.basedOn}. No reviewers could be suggested.`;
+          console.warn(reviewerNote);
+        }
+      } catch (error) {
+        // Don't fail the PR creation if reviewer suggestion fails
+        reviewerNote = `Unexpected error: ${error instanceof Error ? error.message : String(error)}`;
+        console.warn(`Could not suggest reviewers: ${reviewerNote}`);
       }
-      // Re-throw other errors
-      throw error;
     }
+    const requests = reviewerRequests(options, suggestions);
 
-    // Generate title if not provided
-    const finalTitle = title || await executeGenerateTitleSimple(maxTitleLength, detectedBaseBranch);
+    // Labels from the PR type and scopes, touched paths, size and breaking changes
+    const labels = options.addLabels === false ? [] : inferLabels(analysis, (await loadRepoConfig(workingDir)).labels);
+    const labelOptions = { createMissing: options.createMissingLabels };
 
-    // Generate description if not provided
-    const finalDescription = description || await executeGeneratePRSimple(
-      finalTitle,
-      template,
-      language,
-      includeStats,
-      detectedBaseBranch
-    );
+    // Assignees ("self" included) and the milestone given, due next or of a linked issue
+    const assignment = await resolveAssignment(provider, options, issueReferences);
 
-    // Check if a PR already exists for this branch
-    const { data: existingPRs } = await octokit.rest.pulls.list({
-      owner: repoInfo.owner,
-      repo: repoInfo.repo,
-      head: `${repoInfo.owner}:${currentBranch}`,
-      base: detectedBaseBranch,
-      state: 'all', // Include both open and closed PRs
-    });
+    if (options.dryRun) {
+      return {
+        dryRun: true,
+        action: reusedPR ? (reusedPR.state === 'closed' ? 'reopen' : 'update') : 'create',
+        number: reusedPR?.number,
+        url: reusedPR?.url,
+        repository: `${provider.repository.owner}/${provider.repository.repo}`,
+        head: headRepository.owner === provider.repository.owner ? currentBranch : `${headRepository.owner}:${currentBranch}`,
+        base: detectedBaseBranch,
+        title: keepTitle && reusedPR ? reusedPR.title : finalTitle,
+        body,
+        draft: reusedPR ? (draft !== undefined && draft !== !!reusedPR.draft ? draft : undefined) : !!draft,
+        push,
+        reviewerResults: await planReviewerRequests(requests, await provider.currentUser(), provider.supportsTeamReviewers),
+        reviewerNote,
+        labelResults: await applyLabels(provider, reusedPR?.number, labels, { ...labelOptions, dryRun: true }),
+        assignment: await applyAssignment(provider, reusedPR?.number, assignment, { dryRun: true }),
+        autoMerge: options.autoMerge ? options.mergeMethod ?? 'squash' : undefined,
+      };
+    }
 
     let pr;
     let action: 'created' | 'reopened' | 'updated';
 
-    if (existingPRs.length > 0) {
-      // PR already exists - update it
-      const existingPR = existingPRs[0];
-      
-      if (existingPR.state === 'closed') {
-        // Reopen the closed PR
-        const { data: reopenedPR } = await octokit.rest.pulls.update({
-          owner: repoInfo.owner,
-          repo: repoInfo.repo,
-          pull_number: existingPR.number,
-            title: finalTitle,
-            body: finalDescription,
-            state: 'open',
-        });
-        pr = reopenedPR;
-        action = 'reopened';
-      } else {
-        // Update the existing open PR
-        const { data: updatedPR } = await octokit.rest.pulls.update({
-          owner: repoInfo.owner,
-          repo: repoInfo.repo,
-          pull_number: existingPR.number,
-            title: finalTitle,
-            body: finalDescription,
-          });
-          pr = updatedPR;
-        action = 'updated';
+    if (reusedPR) {
+      // PR already exists - update it, reopening it if it was closed
+      pr = await provider.updatePullRequest(reusedPR.number, {
+        title: keepTitle ? undefined : finalTitle,
+        body,
+        state: reusedPR.state === 'closed' ? 'open' : undefined,
+      });
+      if (draft !== undefined && draft !== !!pr.draft) {
+        pr = await provider.setDraft(pr.number, draft);
       }
+      action = reusedPR.state === 'closed' ? 'reopened' : 'updated';
     } else {
       // No existing PR - create a new one
-      const { data: newPR } = await octokit.rest.pulls.create({
-        owner: repoInfo.owner,
-        repo: repoInfo.repo,
-          title: finalTitle,
-          body: finalDescription,
-          head: currentBranch,
+      pr = await provider.createPullRequest({
+        title: finalTitle,
+        body,
+        head: currentBranch,
         base: detectedBaseBranch,
         draft,
+        headRepository,
       });
-      pr = newPR;
       action = 'created';
     }
 
-    // Add reviewers if requested
-    let reviewersAdded: string[] = [];
-    let reviewerError: string | undefined;
-    
-    if (addReviewers) {
+    let reviewerResults: ReviewerRequestResult[] = [];
+    if (requests.length > 0) {
       try {
-        const reviewersResult = await executeSuggestReviewers(maxReviewers, detectedBaseBranch);
-        
-        if (reviewersResult.error) {
-          reviewerError = `${reviewersResult.basedOn}: ${reviewersResult.error}`;
-          console.warn(`Could not add reviewers: ${reviewerError}`);
-        } else if (reviewersResult.suggestedReviewers.length === 0) {
-          reviewerError = `${reviewersResult.basedOn}. No reviewers could be suggested.`;
-          console.warn(reviewerError);
-        } else {
-          // Filter out the PR author from reviewers
-          const currentUser = (await octokit.rest.users.getAuthenticated()).data.login;
-          console.error(`[REVIEWERS] Current GitHub user (PR author): ${currentUser}`);
-          
-          const allSuggested = reviewersResult.suggestedReviewers.map(r => r.author);
-          console.error(`[REVIEWERS] All suggested reviewers: ${allSuggested.join(', ')}`);
-          
-          const reviewerLogins = allSuggested
-            .filter(author => author.toLowerCase() !== currentUser.toLowerCase());
-          console.error(`[REVIEWERS] After filtering PR author: ${reviewerLogins.join(', ') || '(none - all filtered out)'}`);
-          
-          if (reviewerLogins.length === 0) {
-            reviewerError = `${reviewersResult.basedOn}. Found contributor(s): ${allSuggested.join(', ')} - but all were filtered out (you are the only/main contributor)`;
-            console.warn(`[REVIEWERS] ${reviewerError}`);
-          } else {
-            try {
-              console.error(`[REVIEWERS] Attempting to add ${reviewerLogins.length} reviewer(s): ${reviewerLogins.join(', ')}`);
-              console.error(`[REVIEWERS] PR: ${repoInfo.owner}/${repoInfo.repo}#${pr.number}`);
-              
-              const response = await octokit.rest.pulls.requestReviewers({
-                owner: repoInfo.owner,
-                repo: repoInfo.repo,
-                pull_number: pr.number,
-                reviewers: reviewerLogins,
-              });
-              
-              // Debug: Log full response
-              console.error(`[REVIEWERS] API Response Status: ${response.status}`);
-              console.error(`[REVIEWERS] Requested reviewers in response:`, JSON.stringify(response.data.requested_reviewers?.map(r => r.login)));
-              
-              // Verify reviewers were actually added by checking the response
-              const actuallyAdded = response.data.requested_reviewers?.map(r => r.login) || [];
-              
-              if (actuallyAdded.length === 0) {
-                // API call succeeded but no reviewers were added (usernames don't exist)
-                const errorDetails = `Response status: ${response.status}, Data: ${JSON.stringify(response.data, null, 2)}`;
-                console.error(`[REVIEWERS] No reviewers added. ${errorDetails}`);
-                reviewerError = `${reviewersResult.basedOn}. Attempted to add: ${reviewerLogins.join(', ')} - but GitHub couldn't add any of them (API returned 0 reviewers). Possible reasons: (1) These usernames don't exist on GitHub, (2) They are already reviewers, (3) They are the PR author, (4) Insufficient permissions. Try manually adding '${reviewerLogins[0]}' on GitHub to verify the username exists.`;
-                console.warn(reviewerError);
-              } else if (actuallyAdded.length < reviewerLogins.length) {
-                // Some reviewers were added, but not all
-                const notAdded = reviewerLogins.filter(r => !actuallyAdded.includes(r));
-                reviewersAdded = actuallyAdded;
-                reviewerError = `Partially successful: Added ${actuallyAdded.join(', ')} but couldn't add ${notAdded.join(', ')} (likely PR author or already a reviewer)`;
-                console.warn(`[REVIEWERS] ${reviewerError}`);
-                console.error(`[REVIEWERS] Successfully added ${reviewersAdded.length} reviewer(s): ${reviewersAdded.join(', ')}`);
-              } else {
-                // All reviewers were added successfully
-                reviewersAdded = actuallyAdded;
-                console.error(`[REVIEWERS] ✅ Successfully added ${reviewersAdded.length} reviewer(s): ${reviewersAdded.join(', ')}`);
-              }
-            } catch (githubError: unknown) {
-              const errorMsg = githubError instanceof Error ? githubError.message : String(githubError);
-              const errorStack = githubError instanceof Error ? githubError.stack : '';
-              const suggestedDetails = reviewersResult.suggestedReviewers
-                .map(r => `${r.author} (${r.contributions} contributions)`)
-                .join(', ');
-              reviewerError = `${reviewersResult.basedOn}. Suggested: ${suggestedDetails}. GitHub API error: ${errorMsg}. These usernames may not exist on GitHub or you may lack permission to add them.`;
-              console.error(`[REVIEWERS] GitHub API Error:`, errorMsg);
-              console.error(`[REVIEWERS] Stack:`, errorStack);
-              console.warn(reviewerError);
-            }
-          }
-        }
+        console.error(`[REVIEWERS] Requesting ${requests.map(r => r.reviewer).join(', ')} on ${provider.repository.owner}/${provider.repository.repo}#${pr.number}`);
+        reviewerResults = await provider.requestReviewers(pr.number, requests);
+        reviewerResults
+          .filter(r => r.status !== 'requested')
+          .forEach(r => console.warn(`[REVIEWERS] ${r.reviewer} ${r.status}: ${r.reason}`));
       } catch (error) {
-        // Don't fail the PR creation if reviewer addition fails
-        reviewerError = `Unexpected error: ${error instanceof Error ? error.message : String(error)}`;
-        console.warn(`Could not add reviewers: ${reviewerError}`);
+        reviewerNote = `Unexpected error: ${error instanceof Error ? error.message : String(error)}`;
+        console.warn(`Could not add reviewers: ${reviewerNote}`);
       }
     }
 
+    const labelResults = await applyLabels(provider, pr.number, labels, labelOptions);
+    const assignmentResult = await applyAssignment(provider, pr.number, assignment);
+    const autoMerge = options.autoMerge ? await enableAutoMerge(provider, pr.number, options.mergeMethod ?? 'squash') : undefined;
+    const appliedLabels = labelResults.filter(r => r.status === 'applied' || r.status === 'created').map(r => r.label);
+
+    const requested = reviewerResults.filter(r => r.status === 'requested');
+    const reviewers = requested.filter(r => !r.team).map(r => r.reviewer);
+    const teamReviewers = requested.filter(r => r.team).map(r => r.reviewer);
+
     return {
-      url: pr.html_url,
+      url: pr.url,
       number: pr.number,
       title: pr.title,
       state: pr.state,
       action,
-      reviewers: reviewersAdded.length > 0 ? reviewersAdded : undefined,
-      reviewersAdded: reviewersAdded.length,
-      reviewerNote: reviewerError || (reviewersAdded.length > 0 ? undefined : "No reviewers were automatically added"),
+      draft: pr.draft,
+      push,
+      reviewers: reviewers.length > 0 ? reviewers : undefined,
+      teamReviewers: teamReviewers.length > 0 ? teamReviewers : undefined,
+      reviewersAdded: requested.length,
+      reviewerResults: reviewerResults.length > 0 ? reviewerResults : undefined,
+      reviewerNote: reviewerNote || (requested.length > 0 ? undefined : "No reviewers were automatically added"),
+      labels: appliedLabels.length > 0 ? appliedLabels : undefined,
+      labelResults: labelResults.length > 0 ? labelResults : undefined,
+      assignment: assignmentResult,
+      autoMerge,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,89 @@
+import { analyzeBranch } from "../core/git/analyzer.js";
+import { categorizeDiffFile, packDiff, formatOmittedFiles } from "../core/git/diff-packer.js";
+import { DiffFile } from "../core/git/types.js";
+import { gatherProjectContext, formatProjectContextForPrompt } from "../core/context/project-context.js";
+import { inferScopeFromFiles } from "./generate-pr-title.tool.js";
+
+/**
+ * Default diff budget for the commit message prompt (in tokens)
+ */
+const DEFAULT_DIFF_TOKENS = 2000;
+
+const CI_PATTERNS = [/^\.github\/workflows\//, /^\.gitlab-ci\.yml$/, /^\.circleci\//, /(^|\/)Jenkinsfile$/];
+const BUILD_FILES = ["package.json", "Dockerfile", "Makefile", "tsconfig.json", "composer.json", "Cargo.toml", "go.mod"];
+
+/**
+ * Guesses a conventional commit type from the staged files only (there are no commit messages yet).
+ * Returns undefined when the files alone don't tell.
+ */
+function inferTypeFromFiles(files: DiffFile[]): string | undefined {
+  if (files.length === 0) return undefined;
+
+  const categories = files.map(categorizeDiffFile);
+  if (categories.every((c) => c === "docs")) return "docs";
+  if (categories.every((c) => c === "test" || c === "snapshot")) return "test";
+  if (files.every((f) => CI_PATTERNS.some((p) => p.test(f.path)))) return "ci";
+  if (files.every((f, i) => categories[i] === "lockfile" || BUILD_FILES.includes(f.path.split("/").pop() || ""))) {
+    return "build";
+  }
+  return undefined;
+}
+
+/**
+ * Tool: generate_commit_message
+ * Returns an AI prompt for writing a conventional commit message from the staged changes.
+ * This tool should be called by AI assistants (like Claude) who will then write the actual message.
+ */
+export async function executeGenerateCommitMessage(
+  maxLength: number = 72,
+  maxDiffTokens: number = DEFAULT_DIFF_TOKENS
+): Promise<string> {
+  const analysis = await analyzeBranch(undefined, true, { source: "staged" });
+  const diffFiles = analysis.diffFiles ?? [];
+
+  if (analysis.filesChanged === 0) {
+    throw new Error("No staged changes found. Stage your changes with `git add` first.");
+  }
+
+  const suggestedType = inferTypeFromFiles(diffFiles);
+  const suggestedScope = inferScopeFromFiles(analysis.filesList.map((f) => f.file));
+  const packedDiff = packDiff(diffFiles, { maxTokens: maxDiffTokens });
+
+  const projectContext = await gatherProjectContext();
+  const contextPrompt = formatProjectContextForPrompt(projectContext);
+
+  return `# Commit Message Generation Request
+
+Please write a conventional commit message for the staged changes below.
+
+${contextPrompt}
+
+## Staged Changes Summary
+- **Branch**: ${analysis.currentBranch}
+- **Files Staged**: ${analysis.filesChanged}
+- **Insertions**: +${analysis.insertions}
+- **Deletions**: -${analysis.deletions}
+
+## Staged Files
+${diffFiles.map((f) => `- ${f.path} (${f.status}, +${f.additions} -${f.deletions})`).join('\n')}
+
+## Staged Diff
+\`\`\`diff
+${packedDiff.text}
+\`\`\`
+${formatOmittedFiles(packedDiff)}
+---
+
+**INSTRUCTIONS FOR AI:**
+
+Write a commit message that:
+1. **Follows conventional commit format**: \`type(scope): subject\`
+   - Suggested type based on files: **${suggestedType || "(determine from the diff)"}**
+   - Suggested scope based on files: **${suggestedScope || "(no scope)"}**
+2. **Has a subject line of max ${maxLength} characters**, in the imperative mood ("add", not "added"), without a trailing period
+3. **Adds a body** (after a blank line) only if the change needs explaining: what changed and why, wrapped at 72 characters
+4. **Marks breaking changes** with \`!\` after the type/scope and a \`BREAKING CHANGE:\` footer describing the migration
+5. **Describes the staged changes only** — not unrelated work in the repository
+
+**Your response must be ONLY the commit message, with no explanation or code fences.**`;
+}
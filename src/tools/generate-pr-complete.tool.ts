@@ -1,19 +1,9 @@
 import { analyzeBranch } from "../core/git/analyzer.js";
 import { prTemplates } from "../templates/pr-templates.js";
 import { Language, TemplateType } from "../validation/types.js";
-
-const CONVENTIONAL_TYPES = [
-  "feat",
-  "fix",
-  "docs",
-  "style",
-  "refactor",
-  "perf",
-  "test",
-  "build",
-  "ci",
-  "chore",
-];
+import { AnalysisScope } from "../core/git/types.js";
+import { inferSubjectFromCommits, inferTypeFromCommits, parseCommitMessage } from "../core/git/commit-parser.js";
+import { prefixTitleWithTicket, primaryTicketKey } from "../core/git/issue-references.js";
 
 function inferScopeFromFiles(files: string[]): string | undefined {
   // Monorepo root directories that should use their child directory as scope
@@ -43,29 +33,6 @@ function inferScopeFromFiles(files: string[]): string | undefined {
   return undefined;
 }
 
-function inferTypeFromCommits(messages: string[]): string {
-  for (const m of messages) {
-    const lower = m.toLowerCase();
-    for (const t of CONVENTIONAL_TYPES) {
-      if (lower.startsWith(`${t}:`) || lower.startsWith(`${t}(`)) return t;
-      if (t === "feat" && lower.startsWith("feature")) return "feat";
-    }
-  }
-  // fallback by keywords
-  if (messages.some((m) => /fix|bug/i.test(m))) return "fix";
-  if (messages.some((m) => /feat|feature/i.test(m))) return "feat";
-  if (messages.some((m) => /refactor/i.test(m))) return "refactor";
-  if (messages.some((m) => /test/i.test(m))) return "test";
-  return "chore";
-}
-
-function inferSubjectFromCommits(messages: string[]): string {
-  const first = messages[0] || "update";
-  // strip conventional prefix if present
-  const cleaned = first.replace(/^[a-z]+(?:\([^)]*\))?:\s*/i, "").trim();
-  return cleaned.length > 0 ? cleaned : "update";
-}
-
 export interface PRCompleteResult {
   title: string;
   description: string;
@@ -80,27 +47,34 @@ export async function executeGenerateComplete(
   language: Language = "en",
   includeStats: boolean = true,
   maxTitleLength?: number,
-  baseBranch?: string
+  baseBranch?: string,
+  analysisScope?: AnalysisScope,
+  ticketPrefix: boolean = false
 ): Promise<PRCompleteResult> {
   try {
-    const analysis = await analyzeBranch(baseBranch, true);
+    const analysis = await analyzeBranch(baseBranch, true, analysisScope);
     const messages = analysis.commits.map((c) => c.message);
     const files = analysis.filesList.map((f) => f.file);
 
     // Generate title
+    const parsedCommits = analysis.commits.map((c) => parseCommitMessage(c.message, c.body));
     const type = inferTypeFromCommits(messages);
     const scope = inferScopeFromFiles(files);
     const subject = inferSubjectFromCommits(messages);
+    const breaking = parsedCommits.some((c) => c.breaking) ? "!" : "";
 
-    const base = scope ? `${type}(${scope}): ${subject}` : `${type}: ${subject}`;
+    const conventional = scope ? `${type}(${scope})${breaking}: ${subject}` : `${type}${breaking}: ${subject}`;
+    const base = ticketPrefix
+      ? prefixTitleWithTicket(conventional, primaryTicketKey(analysis.issueReferences ?? []))
+      : conventional;
     const title = !maxTitleLength || base.length <= maxTitleLength
       ? base
       : base.slice(0, Math.max(3, maxTitleLength - 3)).trimEnd() + "...";
 
     // Generate description with detailed changes
-    const changesList = messages.map((msg) => {
-      // Clean up conventional commit prefixes for better readability
-      let cleanMsg = msg.replace(/^[a-z]+(?:\([^)]*\))?:\s*/i, "").trim();
+    const changesList = parsedCommits.map((commit) => {
+      // Drop conventional commit prefixes for better readability
+      let cleanMsg = commit.subject;
       // Capitalize first letter
       cleanMsg = cleanMsg.charAt(0).toUpperCase() + cleanMsg.slice(1);
       return `- ${cleanMsg}`;
@@ -2,7 +2,14 @@ import { analyzeBranch } from "../core/git/analyzer.js";
 import { prTemplates } from "../templates/pr-templates.js";
 import { Language, TemplateType } from "../validation/types.js";
 import { gatherProjectContext, formatProjectContextForPrompt } from "../core/context/project-context.js";
-import { git } from "../core/git/repository.js";
+import { packDiff, formatOmittedFiles } from "../core/git/diff-packer.js";
+import { describeComparison } from "../core/git/comparison.js";
+import { AnalysisScope } from "../core/git/types.js";
+
+/**
+ * Default diff budget for the description prompt (in tokens)
+ */
+const DEFAULT_DIFF_TOKENS = 2500;
 
 /**
  * Tool: generate_pr_description
@@ -16,20 +23,20 @@ export async function executeGeneratePR(
   template: TemplateType = "standard",
   language: Language = "en",
   includeStats: boolean = true,
-  baseBranch?: string
+  baseBranch?: string,
+  maxDiffTokens: number = DEFAULT_DIFF_TOKENS,
+  scope?: AnalysisScope
 ): Promise<string> {
   try {
-    const analysis = await analyzeBranch(baseBranch, true);
-    const current = analysis.currentBranch;
-    const base = analysis.baseBranch || baseBranch;
+    const analysis = await analyzeBranch(baseBranch, true, scope);
+    const relatedIssues = analysis.issueReferences ?? [];
     
     // Get project context
     const projectContext = await gatherProjectContext();
     const contextPrompt = formatProjectContextForPrompt(projectContext);
     
-    // Get diff for context
-    const fullDiff = await git.diff([`${base}...${current}`]);
-    const truncatedDiff = fullDiff.slice(0, 10000);
+    // Pack the most relevant parts of the diff within the budget
+    const packedDiff = packDiff(analysis.diffFiles ?? [], { maxTokens: maxDiffTokens });
 
     const templateInfo = template === "detailed" ? "detailed with extensive sections" :
                         template === "minimal" ? "minimal and concise" :
@@ -44,7 +51,7 @@ Please generate a comprehensive Pull Request description based on the following
 ${contextPrompt}
 
 ## Changes Summary
-- **Branch**: ${analysis.currentBranch} → ${analysis.baseBranch}
+- **Branch**: ${describeComparison(analysis)}
 - **Commits**: ${analysis.totalCommits}
 - **Files Changed**: ${analysis.filesChanged}
 - **Insertions**: +${analysis.insertions}
@@ -53,15 +60,18 @@ ${title ? `- **Proposed Title**: ${title}` : ''}
 
 ## Commit Messages
 ${analysis.commits.map(c => `- ${c.hash}: ${c.message}`).join('\n')}
-
+${relatedIssues.length > 0 ? `
+## Related Issues (from branch name and commits)
+${relatedIssues.map(r => `- ${r.id}${r.closing ? ' (closed by this PR)' : ''}`).join('\n')}
+` : ''}
 ## Modified Files
 ${analysis.filesList.map(f => `- ${f.file} (+${f.insertions} -${f.deletions})`).join('\n')}
 
-## Sample Diff (first 10k chars)
+## Diff
 \`\`\`diff
-${truncatedDiff}${fullDiff.length > 10000 ? '\n... (diff truncated)' : ''}
+${packedDiff.text}
 \`\`\`
-
+${formatOmittedFiles(packedDiff)}
 ---
 
 **INSTRUCTIONS FOR AI PR DESCRIPTION:**
@@ -77,6 +87,7 @@ The description should include:
 3. **How** - Brief overview of the technical approach${template === "detailed" ? ' (detailed)' : ''}
 4. **Impact** - What areas of the codebase are affected
 ${template !== "minimal" ? '5. **Testing** - How the changes were/should be tested' : ''}
+${relatedIssues.length > 0 ? `${template !== "minimal" ? '6' : '5'}. **Related issues** - List the related issues above, with \`Closes #n\` for the ones closed by this PR` : ''}
 
 **Format Requirements:**
 - Use markdown formatting
@@ -102,10 +113,11 @@ export async function executeGeneratePRSimple(
   template: TemplateType = "standard",
   language: Language = "en",
   includeStats: boolean = true,
-  baseBranch?: string
+  baseBranch?: string,
+  scope?: AnalysisScope
 ): Promise<string> {
   try {
-    const analysis = await analyzeBranch(baseBranch, true);
+    const analysis = await analyzeBranch(baseBranch, true, scope);
 
     const data = {
       ...analysis,
@@ -1,21 +1,17 @@
 import { analyzeBranch } from "../core/git/analyzer.js";
-import { git } from "../core/git/repository.js";
+import { packDiff, formatOmittedFiles } from "../core/git/diff-packer.js";
+import { describeComparison } from "../core/git/comparison.js";
+import { AnalysisScope } from "../core/git/types.js";
+import { inferSubjectFromCommits, inferTypeFromCommits, parseCommitMessage } from "../core/git/commit-parser.js";
+import { prefixTitleWithTicket, primaryTicketKey } from "../core/git/issue-references.js";
 import { gatherProjectContext, formatProjectContextForPrompt } from "../core/context/project-context.js";
 
-const CONVENTIONAL_TYPES = [
-  "feat",
-  "fix",
-  "docs",
-  "style",
-  "refactor",
-  "perf",
-  "test",
-  "build",
-  "ci",
-  "chore",
-];
-
-function inferScopeFromFiles(files: string[]): string | undefined {
+/**
+ * Default diff budget for the title prompt (in tokens)
+ */
+const DEFAULT_DIFF_TOKENS = 2000;
+
+export function inferScopeFromFiles(files: string[]): string | undefined {
   // Monorepo root directories that should use their child directory as scope
   const MONOREPO_ROOTS = ["packages", "apps", "libs", "modules", "services"];
 
@@ -43,29 +39,6 @@ function inferScopeFromFiles(files: string[]): string | undefined {
   return undefined;
 }
 
-function inferTypeFromCommits(messages: string[]): string {
-  for (const m of messages) {
-    const lower = m.toLowerCase();
-    for (const t of CONVENTIONAL_TYPES) {
-      if (lower.startsWith(`${t}:`) || lower.startsWith(`${t}(`)) return t;
-      if (t === "feat" && lower.startsWith("feature")) return "feat";
-    }
-  }
-  // fallback by keywords
-  if (messages.some((m) => /fix|bug/i.test(m))) return "fix";
-  if (messages.some((m) => /feat|feature/i.test(m))) return "feat";
-  if (messages.some((m) => /refactor/i.test(m))) return "refactor";
-  if (messages.some((m) => /test/i.test(m))) return "test";
-  return "chore";
-}
-
-function inferSubjectFromCommits(messages: string[]): string {
-  const first = messages[0] || "update";
-  // strip conventional prefix if present
-  const cleaned = first.replace(/^[a-z]+(?:\([^)]*\))?:\s*/i, "").trim();
-  return cleaned.length > 0 ? cleaned : "update";
-}
-
 /**
  * Tool: generate_pr_title
  * Returns an AI prompt for generating an intelligent PR title by analyzing code changes.
@@ -73,12 +46,14 @@ function inferSubjectFromCommits(messages: string[]): string {
  */
 export async function executeGenerateTitle(
   maxLength?: number,
-  baseBranch?: string
+  baseBranch?: string,
+  maxDiffTokens: number = DEFAULT_DIFF_TOKENS,
+  analysisScope?: AnalysisScope,
+  ticketPrefix: boolean = false
 ): Promise<string> {
-  const analysis = await analyzeBranch(baseBranch, true);
-  const current = analysis.currentBranch;
-  const base = analysis.baseBranch || baseBranch;
-  const fullDiff = await git.diff([`${base}...${current}`]);
+  const analysis = await analyzeBranch(baseBranch, true, analysisScope);
+  const ticketKey = ticketPrefix ? primaryTicketKey(analysis.issueReferences ?? []) : undefined;
+  const packedDiff = packDiff(analysis.diffFiles ?? [], { maxTokens: maxDiffTokens });
 
   const messages = analysis.commits.map((c) => c.message);
   const files = analysis.filesList.map((f) => f.file);
@@ -98,7 +73,7 @@ Please generate a concise, descriptive PR title following conventional commit fo
 ${contextPrompt}
 
 ## Changes Summary
-- **Branch**: ${current} → ${base}
+- **Branch**: ${describeComparison(analysis)}
 - **Files Changed**: ${analysis.filesChanged}
 - **Commits**: ${analysis.totalCommits}
 
@@ -110,9 +85,9 @@ ${messages.slice(0, 5).map(m => `- ${m}`).join('\n')}${messages.length > 5 ? `\n
 
 ## Code Changes (Diff Preview)
 \`\`\`diff
-${fullDiff.slice(0, 8000)}${fullDiff.length > 8000 ? '\n... (diff truncated for length)' : ''}
+${packedDiff.text}
 \`\`\`
-
+${formatOmittedFiles(packedDiff)}
 ---
 
 **INSTRUCTIONS FOR AI:**
@@ -124,7 +99,8 @@ Analyze the code changes above and generate a PR title that:
 2. **Describes WHAT was actually changed** (not just the commit message)
 3. **Is concise and descriptive** (${maxLength ? `max ${maxLength} characters` : 'reasonable length'})
 4. **Uses present tense** (e.g., "add", "fix", "update", not "added", "fixed")
-
+${ticketKey ? `5. **Starts with the ticket key**: \`[${ticketKey}] type(scope): description\`
+` : ''}
 **IMPORTANT**:
 - The type and scope suggestions above are based on commit messages and file paths
 - You SHOULD keep the type (${suggestedType}) and scope (${suggestedScope || "none"}) from the suggestion
@@ -145,17 +121,23 @@ Analyze the code changes above and generate a PR title that:
  */
 export async function executeGenerateTitleSimple(
   maxLength?: number,
-  baseBranch?: string
+  baseBranch?: string,
+  analysisScope?: AnalysisScope,
+  ticketPrefix: boolean = false
 ): Promise<string> {
-  const analysis = await analyzeBranch(baseBranch, true);
+  const analysis = await analyzeBranch(baseBranch, true, analysisScope);
   const messages = analysis.commits.map((c) => c.message);
   const files = analysis.filesList.map((f) => f.file);
 
   const type = inferTypeFromCommits(messages);
   const scope = inferScopeFromFiles(files);
   const subject = inferSubjectFromCommits(messages);
+  const breaking = analysis.commits.some((c) => parseCommitMessage(c.message, c.body).breaking) ? "!" : "";
 
-  const base = scope ? `${type}(${scope}): ${subject}` : `${type}: ${subject}`;
+  const conventional = scope ? `${type}(${scope})${breaking}: ${subject}` : `${type}${breaking}: ${subject}`;
+  const base = ticketPrefix
+    ? prefixTitleWithTicket(conventional, primaryTicketKey(analysis.issueReferences ?? []))
+    : conventional;
   if (!maxLength || base.length <= maxLength) return base;
 
   // leave space for ellipsis
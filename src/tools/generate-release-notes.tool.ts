@@ -0,0 +1,191 @@
+import { Octokit } from "@octokit/rest";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { SimpleGit } from "simple-git";
+import { createGitInstance, getGitHubRepoInfo } from "../core/git/repository.js";
+import { findLatestTag, verifyRef } from "../core/git/comparison.js";
+import {
+  ReleasePullRequest,
+  buildReleaseEntries,
+  extractPullRequestNumber,
+  formatReleaseNotes,
+  prependChangelogSection,
+} from "../core/git/release-notes.js";
+import { CommitInfo } from "../core/git/types.js";
+
+export interface ReleaseNotesResult {
+  version: string;
+  date: string;
+  // Undefined when the range starts at the first commit (no earlier tag)
+  fromRef?: string;
+  toRef: string;
+  totalCommits: number;
+  pullRequests: number;
+  markdown: string;
+  changelogPath?: string;
+  pullRequestNote?: string;
+}
+
+// Commits looked up on GitHub per release, and how many at a time
+const MAX_PULL_REQUEST_LOOKUPS = 100;
+const LOOKUP_BATCH_SIZE = 5;
+
+async function findExactTag(workingGit: SimpleGit, ref: string): Promise<string | undefined> {
+  try {
+    const tag = (await workingGit.raw(["describe", "--tags", "--exact-match", ref]) || "").trim();
+    return tag || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Pull requests of the commits that "Merge pull request #12 from ..." commits brought in, since the
+ * merge commits themselves are left out of the notes
+ */
+async function mergedPullRequests(workingGit: SimpleGit, range: string): Promise<Map<string, ReleasePullRequest>> {
+  const pullRequests = new Map<string, ReleasePullRequest>();
+  const merges = await workingGit.log([range, "--merges"]);
+
+  for (const merge of merges.all) {
+    const number = extractPullRequestNumber(merge.message);
+    if (number === undefined) continue;
+    const merged = await workingGit.raw(["rev-list", "--no-merges", `${merge.hash}^1..${merge.hash}^2`]);
+    for (const hash of merged.split("\n").filter(Boolean)) {
+      if (!pullRequests.has(hash)) pullRequests.set(hash, { number });
+    }
+  }
+
+  return pullRequests;
+}
+
+/**
+ * Looks up the merged pull request each commit came from, a few commits at a time.
+ * Commits that were pushed directly are simply missing from the map.
+ */
+async function fetchPullRequests(
+  token: string,
+  commits: CommitInfo[]
+): Promise<Map<string, ReleasePullRequest>> {
+  const repoInfo = await getGitHubRepoInfo(process.cwd());
+  const octokit = new Octokit({ auth: token, baseUrl: repoInfo.apiUrl });
+  const pullRequests = new Map<string, ReleasePullRequest>();
+
+  for (let i = 0; i < commits.length; i += LOOKUP_BATCH_SIZE) {
+    await Promise.all(commits.slice(i, i + LOOKUP_BATCH_SIZE).map(async (commit) => {
+      const { data } = await octokit.rest.repos.listPullRequestsAssociatedWithCommit({
+        owner: repoInfo.owner,
+        repo: repoInfo.repo,
+        commit_sha: commit.hash,
+      });
+      const merged = data.find((pr) => pr.merged_at);
+      if (merged) {
+        pullRequests.set(commit.hash, { number: merged.number, title: merged.title, url: merged.html_url });
+      }
+    }));
+  }
+
+  return pullRequests;
+}
+
+/**
+ * Tool: generate_release_notes
+ * Groups the commits between two tags by conventional type/scope into a Keep-a-Changelog section,
+ * optionally prepended to CHANGELOG.md.
+ *
+ * Defaults to the commits since the latest tag. When a GitHub token is available,
+ * merged PR titles and numbers replace the individual commits they contain.
+ */
+export async function executeGenerateReleaseNotes(
+  fromRef?: string,
+  toRef: string = "HEAD",
+  version?: string,
+  writeChangelog: boolean = false,
+  changelogPath: string = "CHANGELOG.md",
+  includeAll: boolean = false,
+  githubToken?: string
+): Promise<ReleaseNotesResult> {
+  try {
+    const workingGit = createGitInstance(process.cwd());
+
+    await verifyRef(workingGit, toRef);
+    // Parent of toRef, so that a tagged toRef is compared with the previous release rather than itself
+    const from = fromRef || await findLatestTag(workingGit, `${toRef}^`);
+    if (from) {
+      await verifyRef(workingGit, from);
+    }
+
+    const range = from ? `${from}..${toRef}` : toRef;
+    const log = await workingGit.log([range, "--no-merges"]);
+    const commits: CommitInfo[] = log.all.map((commit) => ({
+      hash: commit.hash,
+      message: commit.message,
+      body: commit.body || undefined,
+      author: commit.author_name,
+      date: commit.date,
+    }));
+
+    const pullRequests = await mergedPullRequests(workingGit, range);
+    let pullRequestNote: string | undefined;
+    const token = githubToken || process.env.GITHUB_TOKEN;
+    // Commits whose PR number is known already are not looked up
+    const lookups = commits.filter((commit) => !pullRequests.has(commit.hash) && extractPullRequestNumber(commit.message) === undefined);
+    if (token && lookups.length > 0) {
+      if (lookups.length > MAX_PULL_REQUEST_LOOKUPS) {
+        pullRequestNote = `Looked up the pull requests of the latest ${MAX_PULL_REQUEST_LOOKUPS} of ${lookups.length} commits without a PR number`;
+      }
+      try {
+        for (const [hash, pullRequest] of await fetchPullRequests(token, lookups.slice(0, MAX_PULL_REQUEST_LOOKUPS))) {
+          pullRequests.set(hash, pullRequest);
+        }
+      } catch (error) {
+        // Release notes are still useful without PR titles
+        pullRequestNote = `Could not fetch pull requests from GitHub: ${error instanceof Error ? error.message : String(error)}`;
+        console.error(`[RELEASE NOTES] ${pullRequestNote}`);
+      }
+    } else if (!token) {
+      pullRequestNote = "No GitHub token, PR numbers are only taken from commit messages";
+    }
+
+    const tag = await findExactTag(workingGit, toRef);
+    const releaseVersion = version || (tag ? tag.replace(/^v(?=\d)/, "") : "Unreleased");
+    const date = tag
+      ? (await workingGit.raw(["log", "-1", "--format=%cs", toRef])).trim()
+      : new Date().toISOString().slice(0, 10);
+
+    const entries = buildReleaseEntries(commits, pullRequests);
+    const markdown = formatReleaseNotes(entries, { version: releaseVersion, date, includeAll });
+
+    let writtenPath: string | undefined;
+    if (writeChangelog) {
+      const root = (await workingGit.revparse(["--show-toplevel"])).trim();
+      writtenPath = path.resolve(root, changelogPath);
+      const relative = path.relative(root, writtenPath);
+      if (relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+        throw new Error(`changelogPath "${changelogPath}" is outside the repository`);
+      }
+      let existing: string | undefined;
+      try {
+        existing = await fs.readFile(writtenPath, "utf-8");
+      } catch {
+        // No changelog yet, a new one is created
+      }
+      await fs.writeFile(writtenPath, prependChangelogSection(existing, markdown, releaseVersion), "utf-8");
+    }
+
+    return {
+      version: releaseVersion,
+      date,
+      fromRef: from,
+      toRef,
+      totalCommits: commits.length,
+      pullRequests: new Set(entries.filter((e) => e.pullRequest).map((e) => e.pullRequest!.number)).size,
+      markdown,
+      changelogPath: writtenPath,
+      pullRequestNote,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Error generating release notes: ${errorMessage}`);
+  }
+}
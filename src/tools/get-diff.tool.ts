@@ -0,0 +1,15 @@
+import { getBranchDiff } from "../core/git/analyzer.js";
+import { AnalysisScope, DiffResult } from "../core/git/types.js";
+
+/**
+ * Tool: get_diff
+ * Returns the parsed diff (files → hunks → lines) between the current Git branch and a base branch,
+ * or for staged/working-tree changes or an explicit range
+ */
+export async function executeGetDiff(
+  baseBranch?: string,
+  paths?: string[],
+  scope?: AnalysisScope
+): Promise<DiffResult> {
+  return getBranchDiff(baseBranch, paths, scope);
+}
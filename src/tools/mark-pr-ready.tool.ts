@@ -0,0 +1,35 @@
+import { createPullRequestTarget, findTargetPullRequest, TargetPullRequestOptions } from "../core/providers/provider.js";
+
+export interface DraftStateResult {
+  number: number;
+  url: string;
+  title: string;
+  draft: boolean;
+  // false when the PR already was in the requested state
+  changed: boolean;
+}
+
+/**
+ * Tool: mark_pr_ready
+ * Marks a draft pull/merge request (the one of the current branch by default) as ready for review:
+ * through GraphQL on GitHub, by dropping the draft prefix of the title on GitLab and Gitea.
+ */
+export async function executeMarkPRReady(
+  number?: number,
+  githubToken?: string,
+  options: TargetPullRequestOptions = {}
+): Promise<DraftStateResult> {
+  try {
+    const target = await createPullRequestTarget(process.cwd(), githubToken, options);
+    const pr = await findTargetPullRequest(target, number, options.baseBranch);
+    if (pr.state !== "open") {
+      throw new Error(`PR #${pr.number} is ${pr.state}`);
+    }
+
+    const updated = pr.draft ? await target.provider.setDraft(pr.number, false) : pr;
+    return { number: pr.number, url: pr.url, title: updated.title, draft: !!updated.draft, changed: !!pr.draft };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Error marking PR as ready: ${errorMessage}`);
+  }
+}
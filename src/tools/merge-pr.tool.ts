@@ -0,0 +1,87 @@
+import { mergeBlockers } from "../core/git/merge.js";
+import { createPullRequestTarget, findTargetPullRequest, TargetPullRequestOptions } from "../core/providers/provider.js";
+import { MergeCheck, MergeMethod } from "../core/providers/types.js";
+
+export interface MergePRResult {
+  number: number;
+  url: string;
+  merged: boolean;
+  method: MergeMethod;
+  // Merge commit, when the service returns it
+  sha?: string;
+  // Why the PR wasn't merged
+  blockers?: string[];
+  checks: MergeCheck[];
+  approvals: number;
+  branchDeleted?: boolean;
+  // Why the head branch wasn't deleted
+  branchNote?: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Options of merge_pr
+ */
+export interface MergePROptions extends TargetPullRequestOptions {
+  // Approvals needed on top of the repository's own review rules
+  requiredApprovals?: number;
+  // Check whether the PR could be merged, without merging it
+  dryRun?: boolean;
+}
+
+/**
+ * Tool: merge_pr
+ * Merges a pull/merge request (the one of the current branch by default) once it is open, not a draft,
+ * free of conflicts, with its required checks passed and its approvals in. Only the head commit that
+ * was checked is merged. Can delete the head branch afterwards, unless it lives in a fork.
+ */
+export async function executeMergePR(
+  number?: number,
+  mergeMethod: MergeMethod = "squash",
+  deleteBranch: boolean = false,
+  githubToken?: string,
+  options: MergePROptions = {}
+): Promise<MergePRResult> {
+  try {
+    const workingDir = process.cwd();
+    const target = await createPullRequestTarget(workingDir, githubToken, options);
+    const { provider } = target;
+    const prNumber = number ?? (await findTargetPullRequest(target, undefined, options.baseBranch, workingDir)).number;
+
+    const status = await provider.getMergeStatus(prNumber);
+    const blockers = mergeBlockers(status, options.requiredApprovals);
+    const result: MergePRResult = {
+      number: prNumber,
+      url: status.url,
+      merged: false,
+      method: mergeMethod,
+      checks: status.checks,
+      approvals: status.approvals,
+    };
+
+    if (blockers.length > 0) return { ...result, blockers };
+    if (options.dryRun) return { ...result, dryRun: true };
+
+    const { sha } = await provider.mergePullRequest(prNumber, mergeMethod, status.headSha);
+    Object.assign(result, { merged: true, sha });
+
+    if (deleteBranch) {
+      if (!status.headInRepository) {
+        result.branchNote = "The head branch is in a fork, it was left in place";
+      } else {
+        try {
+          await provider.deleteBranch(status.headBranch);
+          result.branchDeleted = true;
+        } catch (error) {
+          // The service may have deleted it on merge already
+          result.branchNote = `Could not delete ${status.headBranch}: ${error instanceof Error ? error.message : String(error)}`;
+        }
+      }
+    }
+
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Error merging PR: ${errorMessage}`);
+  }
+}
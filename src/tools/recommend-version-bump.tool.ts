@@ -0,0 +1,122 @@
+import { createGitInstance } from "../core/git/repository.js";
+import { findLatestTag, verifyRef } from "../core/git/comparison.js";
+import { parseCommitMessage } from "../core/git/commit-parser.js";
+import {
+  VersionBump,
+  bumpForCommit,
+  effectiveBump,
+  incrementVersion,
+  maxBump,
+  parseSemVer,
+} from "../core/git/version-bump.js";
+import { gatherProjectContext } from "../core/context/project-context.js";
+
+export interface VersionBumpCommit {
+  hash: string;
+  header: string;
+  type?: string;
+  scope?: string;
+  breaking: boolean;
+  breakingNote?: string;
+  bump: VersionBump;
+}
+
+export interface VersionBumpResult {
+  currentVersion: string;
+  // Where the current version was read from (package.json, Cargo.toml, a tag...)
+  versionSource: string;
+  nextVersion: string;
+  bump: VersionBump;
+  fromRef?: string;
+  toRef: string;
+  totalCommits: number;
+  // Commits that justify the bump (the ones with the highest impact)
+  commits: VersionBumpCommit[];
+  note?: string;
+}
+
+/**
+ * Tool: recommend_version_bump
+ * Recommends the next semantic version from the conventional commits since the latest tag:
+ * breaking changes (`!` or a BREAKING CHANGE footer) → major, feat → minor, fix/perf/revert → patch.
+ * The current version is read from the project manifest, or from the latest tag.
+ */
+export async function executeRecommendVersionBump(
+  fromRef?: string,
+  toRef: string = "HEAD",
+  currentVersion?: string
+): Promise<VersionBumpResult> {
+  try {
+    const workingDir = process.cwd();
+    const workingGit = createGitInstance(workingDir);
+
+    await verifyRef(workingGit, toRef);
+    const latestTag = await findLatestTag(workingGit, toRef);
+    const from = fromRef || latestTag;
+    if (from) {
+      await verifyRef(workingGit, from);
+    }
+
+    let version = currentVersion;
+    let versionSource = "parameter";
+    if (!version) {
+      const projectContext = await gatherProjectContext(workingDir);
+      if (projectContext.packageVersion) {
+        version = projectContext.packageVersion;
+        versionSource = projectContext.versionFile || "manifest";
+      } else if (latestTag && parseSemVer(latestTag)) {
+        version = latestTag;
+        versionSource = `tag ${latestTag}`;
+      } else {
+        version = "0.0.0";
+        versionSource = "default (no manifest version or semver tag found)";
+      }
+    }
+
+    const semver = parseSemVer(version);
+    if (!semver) {
+      throw new Error(`Current version "${version}" (${versionSource}) is not a valid semantic version`);
+    }
+
+    const log = await workingGit.log([from ? `${from}..${toRef}` : toRef, "--no-merges"]);
+    const commits: VersionBumpCommit[] = log.all.map((commit) => {
+      const parsed = parseCommitMessage(commit.message, commit.body);
+      return {
+        hash: commit.hash.substring(0, 7),
+        header: parsed.header,
+        type: parsed.type,
+        scope: parsed.scope,
+        breaking: parsed.breaking,
+        breakingNote: parsed.breakingNote,
+        bump: bumpForCommit(parsed),
+      };
+    });
+
+    const requestedBump = maxBump(commits.map((c) => c.bump));
+    const bump = effectiveBump(semver, requestedBump);
+
+    let note: string | undefined;
+    if (commits.length === 0) {
+      note = `No commits between ${from ?? "the first commit"} and ${toRef}`;
+    } else if (bump !== requestedBump) {
+      note = `${version} is an initial development version (0.y.z): a ${requestedBump} change bumps the ${bump} version`;
+    } else if (bump === "none") {
+      note = "No feat, fix or breaking commits: nothing to release";
+    }
+
+    return {
+      currentVersion: version,
+      versionSource,
+      nextVersion: incrementVersion(semver, bump),
+      bump,
+      fromRef: from,
+      toRef,
+      totalCommits: commits.length,
+      commits: requestedBump === "none" ? [] : commits.filter((c) => c.bump === requestedBump),
+      note,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Error recommending version bump: ${errorMessage}`);
+  }
+}
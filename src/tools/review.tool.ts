@@ -1,7 +1,14 @@
 import { analyzeBranch } from "../core/git/analyzer.js";
-import { git } from "../core/git/repository.js";
+import { packDiff, formatOmittedFiles, PackedDiff } from "../core/git/diff-packer.js";
+import { describeComparison } from "../core/git/comparison.js";
+import { AnalysisScope } from "../core/git/types.js";
 import { gatherProjectContext, formatProjectContextForPrompt } from "../core/context/project-context.js";
 
+/**
+ * Default diff budget for the review prompt (in tokens)
+ */
+const DEFAULT_DIFF_TOKENS = 3750;
+
 /**
  * Tool: review
  *
@@ -10,7 +17,7 @@ import { gatherProjectContext, formatProjectContextForPrompt } from "../core/con
  * that Claude (the AI) needs to perform an intelligent, context-aware review.
  *
  * The AI analyzing this data will have access to:
- * - The full diff of changes
+ * - The diff of changes, packed to fit the prompt budget
  * - Complete project context (languages, frameworks, tools, conventions)
  * - Git analysis (commits, files changed, breaking changes)
  * - File list and statistics
@@ -18,8 +25,12 @@ import { gatherProjectContext, formatProjectContextForPrompt } from "../core/con
  * This allows Claude to provide truly intelligent, project-specific feedback
  * that adapts to ANY project (PHP, Python, Go, Rust, TypeScript, etc.)
  */
-export async function executeReview(baseBranch?: string): Promise<string> {
-  const reviewData = await executeAIReview(baseBranch);
+export async function executeReview(
+  baseBranch?: string,
+  maxDiffTokens: number = DEFAULT_DIFF_TOKENS,
+  scope?: AnalysisScope
+): Promise<string> {
+  const reviewData = await executeAIReview(baseBranch, maxDiffTokens, scope);
 
   // Return a structured prompt for the AI to analyze
   // This will be consumed by Claude who will provide the actual intelligent review
@@ -30,7 +41,7 @@ Please perform a comprehensive, context-aware code review of these changes.
 ${reviewData.projectContext}
 
 ## Changes Summary
-- **Branch**: ${reviewData.analysis.currentBranch} → ${reviewData.analysis.baseBranch}
+- **Branch**: ${describeComparison(reviewData.analysis)}
 - **Commits**: ${reviewData.analysis.totalCommits}
 - **Files Changed**: ${reviewData.analysis.filesChanged}
 - **Insertions**: +${reviewData.analysis.insertions}
@@ -46,9 +57,9 @@ ${reviewData.analysis.commits.map(c => `- ${c.hash}: ${c.message}`).join('\n')}
 
 ## Full Diff
 \`\`\`diff
-${reviewData.diff.slice(0, 15000)}${reviewData.diff.length > 15000 ? '\n... (diff truncated for length)' : ''}
+${reviewData.diff.text}
 \`\`\`
-
+${formatOmittedFiles(reviewData.diff)}
 ---
 
 **IMPORTANT INSTRUCTIONS FOR AI REVIEW:**
@@ -106,15 +117,17 @@ APPROVE - [brief reason]
  * Generates a comprehensive AI-powered review with full project context.
  * This version returns all the raw data needed for AI analysis.
  */
-export async function executeAIReview(baseBranch?: string): Promise<{
+export async function executeAIReview(
+  baseBranch?: string,
+  maxDiffTokens: number = DEFAULT_DIFF_TOKENS,
+  scope?: AnalysisScope
+): Promise<{
   projectContext: string;
-  diff: string;
+  diff: PackedDiff;
   analysis: Awaited<ReturnType<typeof analyzeBranch>>;
 }> {
-  const analysis = await analyzeBranch(baseBranch, true);
-  const current = analysis.currentBranch;
-  const base = analysis.baseBranch || baseBranch;
-  const fullDiff = await git.diff([`${base}...${current}`]);
+  const analysis = await analyzeBranch(baseBranch, true, scope);
+  const packedDiff = packDiff(analysis.diffFiles ?? [], { maxTokens: maxDiffTokens });
 
   // Gather comprehensive project context
   const projectContext = await gatherProjectContext();
@@ -122,7 +135,7 @@ export async function executeAIReview(baseBranch?: string): Promise<{
 
   return {
     projectContext: contextPrompt,
-    diff: fullDiff,
+    diff: packedDiff,
     analysis,
   };
 }
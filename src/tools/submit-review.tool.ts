@@ -0,0 +1,58 @@
+import { placeFindings, reviewBody, ReviewFinding } from "../core/git/review-comments.js";
+import { createPullRequestTarget, findTargetPullRequest, TargetPullRequestOptions } from "../core/providers/provider.js";
+import { ReviewEvent } from "../core/providers/types.js";
+
+export interface SubmitReviewResult {
+  number: number;
+  reviewId: number;
+  url: string;
+  event: ReviewEvent;
+  // Findings posted as inline comments
+  inlineComments: number;
+  // Findings on lines outside the PR diff, listed in the review body instead
+  outsideDiff: Array<{ file: string; line: number }>;
+}
+
+/**
+ * Tool: submit_review
+ * Submits structured findings (file, line, severity, message, optional suggestion) as a single GitHub
+ * pull request review: findings on lines of the PR diff become inline comments at their diff position,
+ * the others are listed in the review body under the summary. The event approves, requests changes or
+ * only comments.
+ */
+export async function executeSubmitReview(
+  findings: ReviewFinding[],
+  event: ReviewEvent = "COMMENT",
+  summary?: string,
+  number?: number,
+  githubToken?: string,
+  options: TargetPullRequestOptions = {}
+): Promise<SubmitReviewResult> {
+  try {
+    const target = await createPullRequestTarget(process.cwd(), githubToken, options);
+    const { provider } = target;
+    if (!provider.listPullRequestFiles || !provider.submitReview) {
+      throw new Error(`Reviews with inline comments are not supported on ${provider.label}`);
+    }
+
+    const pr = await findTargetPullRequest(target, number, options.baseBranch);
+    if (event === "REQUEST_CHANGES" && findings.length === 0 && !summary?.trim()) {
+      throw new Error("Requesting changes needs a summary or findings");
+    }
+
+    const { comments, outsideDiff } = placeFindings(findings, await provider.listPullRequestFiles(pr.number));
+    const review = await provider.submitReview(pr.number, { event, body: reviewBody(summary, outsideDiff), comments });
+
+    return {
+      number: pr.number,
+      reviewId: review.id,
+      url: review.url,
+      event,
+      inlineComments: comments.length,
+      outsideDiff: outsideDiff.map(({ file, line }) => ({ file, line })),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Error submitting review: ${errorMessage}`);
+  }
+}
@@ -1,13 +1,17 @@
-import { suggestReviewers } from "../core/git/analyzer.js";
-import { ReviewersResult } from "../core/git/types.js";
+import { suggestReviewers, SuggestReviewersOptions } from "../core/git/analyzer.js";
+import { AnalysisScope, ReviewersResult } from "../core/git/types.js";
 
 /**
  * Tool: suggest_reviewers
- * Suggests code reviewers based on Git contribution history
+ * Suggests code reviewers based on CODEOWNERS and Git contribution history.
+ * The token is used to find the GitHub login of commit authors and check organization membership.
+ * Bots, denied accounts and non-members are reported in excludedReviewers.
  */
 export async function executeSuggestReviewers(
   limit: number = 3,
-  baseBranch?: string
+  baseBranch?: string,
+  scope?: AnalysisScope,
+  options: SuggestReviewersOptions = {}
 ): Promise<ReviewersResult> {
-  return suggestReviewers(limit, baseBranch);
+  return suggestReviewers(limit, baseBranch, scope, options);
 }
@@ -1,9 +1,52 @@
 import { z } from "zod";
 import { Language, TemplateType } from "./types.js";
+import { AnalysisSource } from "../core/git/types.js";
+import { FindingSeverity } from "../core/git/review-comments.js";
+import { MergeMethod, ReviewEvent } from "../core/providers/types.js";
+
+const refFields = {
+  fromRef: z.string().optional(),
+  toRef: z.string().optional(),
+};
+
+const mergeMethod = z
+  .custom<MergeMethod>((val) => val === "merge" || val === "squash" || val === "rebase")
+  .default("squash");
+
+// PR given by number, or the one of the current branch
+const targetPullRequestFields = {
+  number: z.number().int().positive().optional(),
+  baseBranch: z.string().optional(),
+  headRemote: z.string().optional(),
+  baseRemote: z.string().optional(),
+  githubToken: z.string().optional(),
+};
+
+const analysisScopeFields = {
+  source: z
+    .custom<AnalysisSource>(
+      (val) =>
+        val === "branch" || val === "staged" || val === "working-tree" || val === "range"
+    )
+    .default("branch"),
+  ...refFields,
+};
 
 export const AnalyzeBranchSchema = z.object({
   baseBranch: z.string().optional(),
   detailed: z.boolean().default(true),
+  ...analysisScopeFields,
+});
+
+export const GetDiffSchema = z.object({
+  baseBranch: z.string().optional(),
+  paths: z.array(z.string()).optional(),
+  ...analysisScopeFields,
+});
+
+export const CommitMessageSchema = z.object({
+  maxLength: z.number().int().positive().max(200).default(72),
+  maxDiffTokens: z.number().int().positive().max(200000).optional(),
 });
 
 export const GeneratePRSchema = z.object({
@@ -18,20 +61,32 @@ export const GeneratePRSchema = z.object({
     .custom<Language>((val) => val === "en" || val === "fr")
     .default("fr"),
   includeStats: z.boolean().default(true),
+  maxDiffTokens: z.number().int().positive().max(200000).optional(),
+  ...analysisScopeFields,
 });
 
 export const SuggestReviewersSchema = z.object({
   limit: z.number().int().positive().max(20).default(3),
   baseBranch: z.string().optional(),
+  githubToken: z.string().optional(),
+  exclude: z.array(z.string()).optional(),
+  onlyMembersOf: z.array(z.string()).optional(),
+  balanceLoad: z.boolean().default(false),
+  ...analysisScopeFields,
 });
 
 export const ReviewSchema = z.object({
   baseBranch: z.string().optional(),
+  maxDiffTokens: z.number().int().positive().max(200000).optional(),
+  ...analysisScopeFields,
 });
 
 export const TitleSchema = z.object({
   maxLength: z.number().int().positive().max(200).optional(),
   baseBranch: z.string().optional(),
+  maxDiffTokens: z.number().int().positive().max(200000).optional(),
+  ticketPrefix: z.boolean().default(false),
+  ...analysisScopeFields,
 });
 
 export const GenerateCompleteSchema = z.object({
@@ -46,6 +101,24 @@ export const GenerateCompleteSchema = z.object({
   includeStats: z.boolean().default(true),
   maxTitleLength: z.number().int().positive().max(200).optional(),
   baseBranch: z.string().optional(),
+  ticketPrefix: z.boolean().default(false),
+  ...analysisScopeFields,
+});
+
+export const ReleaseNotesSchema = z.object({
+  fromRef: z.string().optional(),
+  toRef: z.string().default("HEAD"),
+  version: z.string().optional(),
+  writeChangelog: z.boolean().default(false),
+  changelogPath: z.string().default("CHANGELOG.md"),
+  includeAll: z.boolean().default(false),
+  githubToken: z.string().optional(),
+});
+
+export const VersionBumpSchema = z.object({
+  fromRef: z.string().optional(),
+  toRef: z.string().default("HEAD"),
+  currentVersion: z.string().optional(),
 });
 
 export const CreatePRSchema = z.object({
@@ -60,12 +133,30 @@ export const CreatePRSchema = z.object({
   includeStats: z.boolean().default(true),
   maxTitleLength: z.number().int().positive().max(200).optional(),
   baseBranch: z.string().optional(),
-  draft: z.boolean().default(false),
+  draft: z.boolean().optional(),
   githubToken: z.string().optional(),
   addReviewers: z.boolean().default(true),
   maxReviewers: z.number().int().positive().max(20).default(3),
+  balanceReviewers: z.boolean().default(false),
+  reviewers: z.array(z.string()).optional(),
+  teamReviewers: z.array(z.string()).optional(),
+  headRemote: z.string().optional(),
+  baseRemote: z.string().optional(),
+  push: z.boolean().default(false),
+  forcePush: z.boolean().default(false),
+  dryRun: z.boolean().default(false),
+  keepEditedTitle: z.boolean().default(false),
+  addLabels: z.boolean().default(true),
+  createMissingLabels: z.boolean().default(false),
+  assignees: z.array(z.string()).optional(),
+  milestone: z.string().optional(),
+  inheritMilestone: z.boolean().default(true),
+  autoMerge: z.boolean().default(false),
+  mergeMethod,
   title: z.string().optional(), // AI-generated title from generate_pr_title
   description: z.string().optional(), // AI-generated description from generate_pr_description
+  ticketPrefix: z.boolean().default(false),
+  ...refFields,
 });
 
 export const CreatePRCompleteSchema = z.object({
@@ -80,12 +171,65 @@ export const CreatePRCompleteSchema = z.object({
   includeStats: z.boolean().default(true),
   maxTitleLength: z.number().int().positive().max(200).optional(),
   baseBranch: z.string().optional(),
-  draft: z.boolean().default(false),
+  draft: z.boolean().optional(),
   githubToken: z.string().optional(),
   addReviewers: z.boolean().default(true),
   maxReviewers: z.number().int().positive().max(20).default(3),
+  balanceReviewers: z.boolean().default(false),
+  reviewers: z.array(z.string()).optional(),
+  teamReviewers: z.array(z.string()).optional(),
+  headRemote: z.string().optional(),
+  baseRemote: z.string().optional(),
+  push: z.boolean().default(false),
+  forcePush: z.boolean().default(false),
+  dryRun: z.boolean().default(false),
+  keepEditedTitle: z.boolean().default(false),
+  addLabels: z.boolean().default(true),
+  createMissingLabels: z.boolean().default(false),
+  assignees: z.array(z.string()).optional(),
+  milestone: z.string().optional(),
+  inheritMilestone: z.boolean().default(true),
+  autoMerge: z.boolean().default(false),
+  mergeMethod,
   includeAIReview: z.boolean().default(false),
   aiReviewText: z.string().optional(), // The actual AI-generated review to include
   title: z.string().optional(), // AI-generated title from generate_pr_title
   description: z.string().optional(), // AI-generated description from generate_pr_description
+  ticketPrefix: z.boolean().default(false),
+  ...refFields,
+});
+
+export const MergePRSchema = z.object({
+  mergeMethod,
+  deleteBranch: z.boolean().default(false),
+  requiredApprovals: z.number().int().min(0).default(0),
+  dryRun: z.boolean().default(false),
+  ...targetPullRequestFields,
+});
+
+export const DraftStateSchema = z.object({
+  ...targetPullRequestFields,
+});
+
+export const SubmitReviewSchema = z.object({
+  findings: z
+    .array(
+      z.object({
+        file: z.string().min(1),
+        line: z.number().int().positive(),
+        severity: z.custom<FindingSeverity>(
+          (val) => val === "critical" || val === "warning" || val === "suggestion"
+        ),
+        message: z.string().min(1),
+        suggestion: z.string().optional(),
+      })
+    )
+    .default([]),
+  event: z
+    .custom<ReviewEvent>(
+      (val) => val === "APPROVE" || val === "REQUEST_CHANGES" || val === "COMMENT"
+    )
+    .default("COMMENT"),
+  summary: z.string().optional(),
+  ...targetPullRequestFields,
 });